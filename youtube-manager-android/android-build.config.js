@@ -52,6 +52,7 @@ module.exports = {
       '@capacitor/filesystem',
       '@capacitor/device',
       '@capacitor/preferences',
+      '@capacitor/local-notifications',
       '@capacitor-community/sqlite',
       '@capacitor-community/file-opener'
     ],
@@ -25,7 +25,9 @@ const config: CapacitorConfig = {
         'android.permission.VIBRATE',
         'android.permission.WAKE_LOCK',
         'android.permission.READ_MEDIA_VIDEO',
-        'android.permission.READ_MEDIA_IMAGES'
+        'android.permission.READ_MEDIA_IMAGES',
+        'android.permission.POST_NOTIFICATIONS',
+        'android.permission.SCHEDULE_EXACT_ALARM'
       ]
     },
     // Configure file system access
@@ -41,6 +43,10 @@ const config: CapacitorConfig = {
       androidLocation: 'database',
       electronWindowsLocation: 'sqlite'
     },
+    // Reminders for due and missed uploads
+    LocalNotifications: {
+      iconColor: '#FF0000'
+    },
     // Configure status bar appearance
     SplashScreen: {
       launchShowDuration: 2000,
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+
+interface LoadMoreTriggerProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+}
+
+/**
+ * Footer of an infinite list that loads the next page once it scrolls into view
+ */
+export default function LoadMoreTrigger({ hasNextPage, isFetchingNextPage, fetchNextPage }: LoadMoreTriggerProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasNextPage) return;
+    
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting) && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  
+  if (!hasNextPage) return null;
+  
+  return (
+    <div ref={ref} className="py-4 text-center">
+      {isFetchingNextPage ? (
+        <div className="animate-spin inline-block w-5 h-5 border-2 border-yt-red border-opacity-50 border-t-transparent rounded-full"></div>
+      ) : (
+        <button onClick={() => fetchNextPage()} className="text-sm text-yt-blue">
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
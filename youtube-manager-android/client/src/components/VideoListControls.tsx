@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useStore, VideoListTab } from '@/store/useStore';
+import {
+  FileFilter,
+  PlaceholderFilter,
+  VideoSortField,
+  hasActiveFilters
+} from '@/lib/database/video-query';
+
+const SORT_LABELS: Record<VideoSortField, string> = {
+  scheduleDate: 'Schedule date',
+  uploadedDate: 'Upload date',
+  title: 'Title',
+  fileSize: 'File size',
+  duration: 'Duration'
+};
+
+// Upload date only means something once a video has been pushed
+const SORT_FIELDS_BY_TAB: Record<VideoListTab, VideoSortField[]> = {
+  pending: ['scheduleDate', 'title', 'fileSize', 'duration'],
+  completed: ['uploadedDate', 'scheduleDate', 'title', 'fileSize', 'duration']
+};
+
+/**
+ * Sort and filter buttons for a video list tab
+ * The choices are kept per tab in useStore; the page passes them to the
+ * /api/videos query so SQLite does the sorting and filtering
+ */
+export default function VideoListControls({ tab }: { tab: VideoListTab }) {
+  const { videoListOptions, setVideoListOptions, resetVideoListFilters } = useStore();
+  const [openPanel, setOpenPanel] = useState<'sort' | 'filter' | null>(null);
+  const options = videoListOptions[tab];
+  const filtersActive = hasActiveFilters(options);
+
+  const togglePanel = (panel: 'sort' | 'filter') => setOpenPanel(current => current === panel ? null : panel);
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      <button
+        onClick={() => togglePanel('sort')}
+        className={`p-2 rounded-full flex items-center justify-center ${
+          openPanel === 'sort' ? 'bg-yt-blue text-white' : 'bg-gray-100 text-gray-600'
+        }`}
+        title="Sort"
+      >
+        <span className="material-icons text-sm">sort</span>
+      </button>
+      <button
+        onClick={() => togglePanel('filter')}
+        className={`relative p-2 rounded-full flex items-center justify-center ${
+          openPanel === 'filter' ? 'bg-yt-blue text-white' : 'bg-gray-100 text-gray-600'
+        }`}
+        title="Filter"
+      >
+        <span className="material-icons text-sm">filter_list</span>
+        {filtersActive && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-yt-red" />}
+      </button>
+
+      {openPanel === 'sort' && (
+        <div className="absolute right-0 top-10 z-20 w-56 bg-white rounded-lg shadow p-3 space-y-3">
+          <label className="block text-sm text-gray-700">
+            Sort by
+            <select
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={options.sortBy}
+              onChange={(e) => setVideoListOptions(tab, { sortBy: e.target.value as VideoSortField })}
+            >
+              {SORT_FIELDS_BY_TAB[tab].map(field => (
+                <option key={field} value={field}>{SORT_LABELS[field]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            {(['asc', 'desc'] as const).map(direction => (
+              <button
+                key={direction}
+                onClick={() => setVideoListOptions(tab, { sortDirection: direction })}
+                className={`flex-1 py-1 rounded border text-sm ${options.sortDirection === direction
+                  ? 'bg-yt-red text-white border-yt-red'
+                  : 'bg-white text-gray-800 border-gray-200'
+                }`}
+              >
+                {direction === 'asc' ? 'Ascending' : 'Descending'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {openPanel === 'filter' && (
+        <div className="absolute right-0 top-10 z-20 w-64 bg-white rounded-lg shadow p-3 space-y-3">
+          <div className="flex gap-2">
+            <label className="flex-1 text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                className="mt-1 block w-full rounded border border-gray-200 p-1"
+                value={options.from ?? ''}
+                onChange={(e) => setVideoListOptions(tab, { from: e.target.value || null })}
+              />
+            </label>
+            <label className="flex-1 text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                className="mt-1 block w-full rounded border border-gray-200 p-1"
+                value={options.to ?? ''}
+                onChange={(e) => setVideoListOptions(tab, { to: e.target.value || null })}
+              />
+            </label>
+          </div>
+          <label className="block text-sm text-gray-700">
+            Video file
+            <select
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={options.file}
+              onChange={(e) => setVideoListOptions(tab, { file: e.target.value as FileFilter })}
+            >
+              <option value="any">Any</option>
+              <option value="attached">File attached</option>
+              <option value="missing">File missing</option>
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            File type
+            <select
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={options.placeholder}
+              onChange={(e) => setVideoListOptions(tab, { placeholder: e.target.value as PlaceholderFilter })}
+            >
+              <option value="any">Any</option>
+              <option value="original">Original</option>
+              <option value="placeholder">Placeholder</option>
+            </select>
+          </label>
+          <button
+            onClick={() => resetVideoListFilters(tab)}
+            className="w-full py-1 rounded border border-gray-200 text-sm text-gray-700 disabled:opacity-40"
+            disabled={!filtersActive}
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { getPathQueryFn } from '@/lib/queryClient';
+import type { VideoPage, VideoQuery } from '@/lib/database/video-query';
+import type { Video } from '@/store/useStore';
+
+/**
+ * Infinite list of the videos matching a query, loaded a page at a time
+ * Keyed under '/api/videos' so invalidating the video lists refreshes it.
+ */
+export function useVideoPages(query: VideoQuery, enabled = true) {
+  const result = useInfiniteQuery({
+    queryKey: ['/api/videos', query, 'page'],
+    queryFn: getPathQueryFn<VideoPage<Video>>('/api/videos/page'),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+  
+  const videos = useMemo(
+    () => result.data?.pages.flatMap(page => page.items) ?? [],
+    [result.data]
+  );
+  
+  return { ...result, videos };
+}
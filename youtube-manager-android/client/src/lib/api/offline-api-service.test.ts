@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { MemoryFilesystem } from '../../test/filesystem';
+import { MP4_HEAD, TEXT_HEAD } from '../../test/media';
+import { useOfflineApi } from '../../test/offline';
+import { filesystemService } from '../database/filesystem-service';
+import { placeholderService } from '../database/placeholder-service';
+import { PushLimitReachedError } from '../database/push-limit';
+import { sqliteService } from '../database/sqlite-service';
+import { VideoValidationError } from '../media/validation';
+import { offlineApiService } from './offline-api-service';
+
+let files: MemoryFilesystem;
+
+async function addProfile(overrides = {}) {
+  const { id, ...profile } = makeProfile(overrides);
+  return offlineApiService.createProfile(profile);
+}
+
+async function addVideo(overrides = {}) {
+  const { id, ...video } = makeVideo(overrides);
+  return offlineApiService.createVideo(video);
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  ({ files } = await useOfflineApi());
+  await addProfile();
+});
+
+describe('OfflineApiService.uploadVideoFile', () => {
+  const contentUri = 'content://media/external/video/media/42';
+
+  it('validates an extension-less content URI by the file name it is given', async () => {
+    files.put(contentUri, MP4_HEAD);
+    const video = await addVideo({});
+
+    await expect(offlineApiService.uploadVideoFile(video.id, contentUri, { fileName: 'holiday.mp4', fileSize: 64 }))
+      .resolves.toBe(true);
+
+    expect(await offlineApiService.getVideo(video.id)).toMatchObject({ filePath: 'videos/holiday.mp4', isFileUploaded: true });
+    expect(files.bytes('videos/holiday.mp4')).toEqual(MP4_HEAD);
+  });
+
+  it('rejects a content URI without a file name', async () => {
+    files.put(contentUri, MP4_HEAD);
+    const video = await addVideo({});
+
+    await expect(offlineApiService.uploadVideoFile(video.id, contentUri)).rejects.toBeInstanceOf(VideoValidationError);
+  });
+
+  it('rejects a file whose content is not a video', async () => {
+    files.put(contentUri, TEXT_HEAD);
+    const video = await addVideo({});
+
+    await expect(offlineApiService.uploadVideoFile(video.id, contentUri, { fileName: 'notes.mp4' })).rejects.toMatchObject({
+      issues: [expect.objectContaining({ code: 'unrecognized-format' })]
+    });
+    expect(files.files.has('videos/notes.mp4')).toBe(false);
+  });
+
+  it('fails closed when the file cannot be read', async () => {
+    files.put(contentUri, MP4_HEAD);
+    vi.mocked(filesystemService.readFileHead).mockRejectedValue(new Error('Permission denied'));
+    const video = await addVideo({});
+
+    await expect(offlineApiService.uploadVideoFile(video.id, contentUri, { fileName: 'holiday.mp4', fileSize: 64 }))
+      .rejects.toMatchObject({ issues: [expect.objectContaining({ code: 'unreadable-file' })] });
+  });
+
+  it('fails closed when the size cannot be read', async () => {
+    const video = await addVideo({});
+    vi.mocked(filesystemService.readFileHead).mockResolvedValue(MP4_HEAD);
+
+    await expect(offlineApiService.uploadVideoFile(video.id, 'gone/holiday.mp4'))
+      .rejects.toMatchObject({ issues: [expect.objectContaining({ code: 'unreadable-file' })] });
+  });
+});
+
+describe('OfflineApiService.importData', () => {
+  // An export from another device, whose profile ids mean nothing here
+  const exported = {
+    profiles: [makeProfile({ id: 41, name: 'Travel', channelLink: 'https://youtube.com/@travel' })],
+    videos: [
+      makeVideo({ id: 90, profileId: 41, title: 'Lisbon', scheduleDate: '2026-03-04T09:00' }),
+      makeVideo({ id: 91, profileId: 41, title: 'Porto', scheduleDate: '2026-03-05T09:00' })
+    ]
+  };
+
+  it('attaches imported videos to the profiles created for them', async () => {
+    const summary = await offlineApiService.importData(exported);
+
+    const travel = (await offlineApiService.getProfiles()).find(profile => profile.name === 'Travel')!;
+    expect(travel.id).not.toBe(41);
+    expect((await offlineApiService.getVideos()).map(video => [video.title, video.profileId]))
+      .toEqual([['Porto', travel.id], ['Lisbon', travel.id]]);
+    expect(summary).toMatchObject({ profilesCreated: 1, videosCreated: 2 });
+  });
+
+  it('does not duplicate anything when the same file is imported twice', async () => {
+    await offlineApiService.importData(exported);
+    const summary = await offlineApiService.importData(exported);
+
+    expect(await offlineApiService.getProfiles()).toHaveLength(2);
+    expect(await offlineApiService.getVideos()).toHaveLength(2);
+    expect(summary).toMatchObject({ profilesCreated: 0, profilesUpdated: 1, videosCreated: 0, videosUpdated: 2 });
+  });
+
+  it('replaces the whole library and removes files no video uses any more', async () => {
+    files.put('videos/old.mp4', MP4_HEAD);
+    await addVideo({ title: 'Old', filePath: 'videos/old.mp4', isFileUploaded: true });
+
+    await offlineApiService.importData(exported, 'replace');
+
+    expect((await offlineApiService.getProfiles()).map(profile => profile.name)).toEqual(['Travel']);
+    expect((await offlineApiService.getVideos()).map(video => video.title)).toEqual(['Porto', 'Lisbon']);
+    expect(files.files.has('videos/old.mp4')).toBe(false);
+  });
+
+  it('rolls back every row when one of them fails to write', async () => {
+    const broken = {
+      ...exported,
+      videos: [exported.videos[0], { ...exported.videos[1], status: 'missed-schedule' }]
+    };
+    const createVideo = sqliteService.createVideo.bind(sqliteService);
+    vi.spyOn(sqliteService, 'createVideo').mockImplementation(async (video, transaction) => {
+      if (video.status === 'missed-schedule') throw new Error('disk full');
+      return createVideo(video, transaction);
+    });
+
+    await expect(offlineApiService.importData(broken)).rejects.toThrow('disk full');
+
+    expect((await offlineApiService.getProfiles()).map(profile => profile.name)).toEqual(['Main']);
+    expect(await offlineApiService.getVideos()).toEqual([]);
+  });
+});
+
+describe('OfflineApiService schedule CSV import', () => {
+  const csv = [
+    'profile,title,date,time,file',
+    'Main,Pasta,2026-03-02,17:00,pasta.mp4',
+    'Main,Soup,2026-03-03,,',
+    'Nobody,Stew,2026-03-04,,'
+  ].join('\n');
+
+  it('creates a pending video for each valid row, attached to its file', async () => {
+    files.put('videos/pasta.mp4', MP4_HEAD);
+
+    const preview = await offlineApiService.previewScheduleCsv(csv);
+    expect(preview.rows.map(row => row.errors.length)).toEqual([0, 0, 1]);
+
+    const { created, failed } = await offlineApiService.importScheduleRows(preview.rows);
+
+    expect(failed).toEqual([]);
+    expect(created.map(video => video.title)).toEqual(['Pasta', 'Soup']);
+    expect(await offlineApiService.getVideos()).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        title: 'Pasta',
+        scheduleDate: '2026-03-02T17:00',
+        status: 'pending',
+        filePath: 'videos/pasta.mp4',
+        isFileUploaded: true
+      }),
+      expect.objectContaining({ title: 'Soup', scheduleDate: '2026-03-03T09:00', filePath: null })
+    ]));
+  });
+
+  it('reports a row that fails to save and carries on', async () => {
+    files.put('videos/pasta.mp4', TEXT_HEAD);
+
+    const preview = await offlineApiService.previewScheduleCsv(csv);
+    const { created, failed } = await offlineApiService.importScheduleRows(preview.rows);
+
+    expect(failed).toEqual([{ row: 2, error: expect.any(String) }]);
+    expect(created.map(video => video.title)).toEqual(['Soup']);
+  });
+
+  it('keeps files a previewed import will use out of storage cleanup until it runs', async () => {
+    files.put('videos/pasta.mp4', MP4_HEAD);
+    files.put('videos/stray.mp4', MP4_HEAD);
+
+    const preview = await offlineApiService.previewScheduleCsv(csv);
+    await offlineApiService.cleanupStorage();
+
+    expect(files.files.has('videos/pasta.mp4')).toBe(true);
+    expect(files.files.has('videos/stray.mp4')).toBe(false);
+
+    await offlineApiService.importScheduleRows([]);
+    await offlineApiService.cleanupStorage();
+    expect(files.files.has('videos/pasta.mp4')).toBe(false);
+    expect(preview.rows[0].file).toEqual({ name: 'pasta.mp4', size: MP4_HEAD.length });
+  });
+});
+
+describe('OfflineApiService.markVideoAsUploaded', () => {
+  it('checks the push limit before restoring a placeholder', async () => {
+    const profile = await addProfile({ name: 'Full', channelLink: 'https://youtube.com/@full', dailyPushLimit: 1 });
+    await offlineApiService.markVideoAsUploaded((await addVideo({ profileId: profile.id })).id);
+    files.put('videos/stub.mp4', MP4_HEAD);
+    files.put('DCIM/holiday.mp4', MP4_HEAD);
+    const placeholder = await addVideo({
+      profileId: profile.id,
+      filePath: 'videos/stub.mp4',
+      originalFilePath: 'DCIM/holiday.mp4',
+      isPlaceholder: true
+    });
+    const restore = vi.spyOn(placeholderService, 'restoreOriginal');
+
+    await expect(offlineApiService.markVideoAsUploaded(placeholder.id)).rejects.toBeInstanceOf(PushLimitReachedError);
+
+    expect(restore).not.toHaveBeenCalled();
+    expect(await offlineApiService.getVideo(placeholder.id)).toMatchObject({ status: 'pending', isPlaceholder: true });
+  });
+});
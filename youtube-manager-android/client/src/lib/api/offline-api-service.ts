@@ -1,9 +1,44 @@
 import { sqliteService } from '../database/sqlite-service';
-import { filesystemService } from '../database/filesystem-service';
+import { filesystemService, CopyProgress } from '../database/filesystem-service';
+import { placeholderService, PlaceholderCheck } from '../database/placeholder-service';
+import { backupService, BackupManifest, BACKUP_DIRECTORY, CreateBackupOptions } from '../database/backup-service';
+import { ImportStrategy, ImportSummary, planImport, summarizeImportPlan } from '../database/data-import';
+import { PushLimitState, assertPushAllowed, getPushLimitState } from '../database/push-limit';
+import { ImportReport, buildImportReport, validateImportData } from '../database/import-report';
+import { VideoPage, VideoQuery } from '../database/video-query';
+import { Capacitor } from '@capacitor/core';
 import { Device } from '@capacitor/device';
 import { Filesystem, Directory } from '@capacitor/filesystem';
-import { Profile, Video } from '../database/schema';
+import {
+  NewProfile,
+  NewScheduleTemplate,
+  NewVideo,
+  Profile,
+  ProfileVideoStats,
+  PushEvent,
+  ScheduleTemplate,
+  Video,
+  VideoStatus
+} from '../database/schema';
 import { format } from 'date-fns';
+import { APP_SETTINGS } from '../config';
+import { planMissedReschedule } from '../scheduling/reschedule-missed';
+import { ScheduleSlot, validateScheduleTemplate } from '../scheduling/schedule-templates';
+import { CsvDateFormat, CsvSchedulePreview, CsvScheduleRow, previewCsvSchedule } from '../scheduling/csv-schedule';
+import { ScheduleExportFilter, filterVideosForExport, videosToCsv, videosToIcs } from '../scheduling/schedule-export';
+import { captureVideoFrame, createPlaceholderThumbnail } from '../media/thumbnail';
+import { reminderService } from '../notifications/reminder-service';
+import { PROBE_HEAD_BYTES, buildVideoMetadata, readDecoderMetadata } from '../media/probe';
+import { VALIDATION_HEAD_BYTES, VideoValidationIssue, assertValidVideoFile, validateVideoFile } from '../media/validation';
+
+// Summary of a missed-schedule detection pass
+export interface MissedScheduleSummary {
+  detectedAt: string;
+  missedCount: number;
+  // Number of newly missed videos per profile id
+  byProfile: Record<number, number>;
+  videos: Pick<Video, 'id' | 'profileId' | 'title' | 'scheduleDate'>[];
+}
 
 // Type helper to convert undefined to null
 function toNullable<T>(value: T | undefined): T | null {
@@ -17,6 +52,8 @@ function toNullable<T>(value: T | undefined): T | null {
 export class OfflineApiService {
   private static instance: OfflineApiService;
   private isInitialized = false;
+  // videos/ files matched by the last schedule CSV preview, kept by cleanup until it is applied
+  private pendingImportFiles = new Set<string>();
 
   private constructor() {}
 
@@ -51,7 +88,7 @@ export class OfflineApiService {
     return profile || null;
   }
 
-  async createProfile(profile: Omit<Profile, 'id'>): Promise<Profile> {
+  async createProfile(profile: NewProfile): Promise<Profile> {
     await this.ensureInitialized();
     return sqliteService.createProfile(profile);
   }
@@ -64,7 +101,9 @@ export class OfflineApiService {
 
   async deleteProfile(id: number): Promise<boolean> {
     await this.ensureInitialized();
-    return sqliteService.deleteProfile(id);
+    const deleted = await sqliteService.deleteProfile(id);
+    void reminderService.syncReminders();
+    return deleted;
   }
 
   async incrementProfilePushCount(profileId: number): Promise<Profile | null> {
@@ -73,9 +112,81 @@ export class OfflineApiService {
     return toNullable(result);
   }
 
-  async resetProfilePushCount(profileId: number): Promise<Profile | null> {
+  /**
+   * Pushes used and left in a profile's current window
+   */
+  async getProfilePushLimit(profileId: number): Promise<PushLimitState | null> {
+    await this.ensureInitialized();
+    const profile = await sqliteService.getProfile(profileId);
+    return profile ? getPushLimitState(profile) : null;
+  }
+
+  async resetProfilePushCount(profileId: number, note?: string | null): Promise<Profile | null> {
+    await this.ensureInitialized();
+    const result = await sqliteService.resetProfilePushCount(profileId, note ?? null);
+    return toNullable(result);
+  }
+
+  // Push history methods
+  async getPushEventsByProfile(profileId: number, limit?: number): Promise<PushEvent[]> {
+    await this.ensureInitialized();
+    return sqliteService.getPushEventsByProfile(profileId, limit);
+  }
+
+  async getPushEventsByVideo(videoId: number): Promise<PushEvent[]> {
+    await this.ensureInitialized();
+    return sqliteService.getPushEventsByVideo(videoId);
+  }
+
+  // Schedule template methods
+  async getScheduleTemplates(profileId: number): Promise<ScheduleTemplate[]> {
+    await this.ensureInitialized();
+    return sqliteService.getScheduleTemplates(profileId);
+  }
+
+  /**
+   * @throws ScheduleTemplateError if the weekdays, time or time zone are invalid
+   */
+  async createScheduleTemplate(template: NewScheduleTemplate): Promise<ScheduleTemplate> {
+    await this.ensureInitialized();
+    validateScheduleTemplate({ ...template, timeZone: template.timeZone ?? null });
+    return sqliteService.createScheduleTemplate(template);
+  }
+
+  /**
+   * @throws ScheduleTemplateError if the result would be an invalid template
+   */
+  async updateScheduleTemplate(id: number, template: Partial<ScheduleTemplate>): Promise<ScheduleTemplate | null> {
+    await this.ensureInitialized();
+    const existing = await sqliteService.getScheduleTemplate(id);
+    if (!existing) return null;
+    
+    validateScheduleTemplate({ ...existing, ...template });
+    return toNullable(await sqliteService.updateScheduleTemplate(id, template));
+  }
+
+  async deleteScheduleTemplate(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    return sqliteService.deleteScheduleTemplate(id);
+  }
+
+  /**
+   * The slot a new video of the profile would get
+   * @throws NoFreeSlotError if the profile has no free slot
+   */
+  async getNextFreeSlot(profileId: number): Promise<ScheduleSlot> {
+    await this.ensureInitialized();
+    return sqliteService.findNextFreeSlot(profileId);
+  }
+
+  /**
+   * Move a pending or missed video to its profile's next free slot
+   * @throws NoFreeSlotError if the profile has no free slot
+   */
+  async assignVideoToNextFreeSlot(videoId: number): Promise<Video | null> {
     await this.ensureInitialized();
-    const result = await sqliteService.resetProfilePushCount(profileId);
+    const result = await sqliteService.assignVideoToNextFreeSlot(videoId);
+    void reminderService.syncReminders();
     return toNullable(result);
   }
 
@@ -90,16 +201,35 @@ export class OfflineApiService {
     return sqliteService.getVideosByProfile(profileId);
   }
 
-  async getVideosByStatus(status: string): Promise<Video[]> {
+  async getVideosByStatus(status: VideoStatus): Promise<Video[]> {
     await this.ensureInitialized();
     return sqliteService.getVideosByStatus(status);
   }
 
-  async getVideosByStatusAndProfile(status: string, profileId: number): Promise<Video[]> {
+  /**
+   * Videos matching filters, sorted, e.g. one profile's pending videos with a file attached
+   */
+  async queryVideos(query: VideoQuery): Promise<Video[]> {
+    await this.ensureInitialized();
+    return sqliteService.queryVideos(query);
+  }
+
+  /**
+   * One page of the videos matching filters; pass nextCursor back for the following page
+   */
+  async queryVideoPage(query: VideoQuery): Promise<VideoPage<Video>> {
     await this.ensureInitialized();
-    // Filter videos by both status and profile ID
-    const profileVideos = await sqliteService.getVideosByProfile(profileId);
-    return profileVideos.filter(video => video.status === status);
+    return sqliteService.queryVideoPage(query);
+  }
+
+  async getVideoStats(): Promise<ProfileVideoStats[]> {
+    await this.ensureInitialized();
+    return sqliteService.getVideoStats();
+  }
+
+  async getVideosByStatusAndProfile(status: VideoStatus, profileId: number): Promise<Video[]> {
+    await this.ensureInitialized();
+    return sqliteService.queryVideos({ status, profileId });
   }
 
   async getVideosByDate(date: Date): Promise<Video[]> {
@@ -113,33 +243,145 @@ export class OfflineApiService {
     return sqliteService.getVideosByDate(today);
   }
 
+  /**
+   * Pending videos whose publish time has arrived, and the next one due
+   */
+  async getDueVideos(profileId?: number): Promise<{ due: Video[]; next: Video | null }> {
+    await this.ensureInitialized();
+    return sqliteService.getDueVideos(new Date(), profileId);
+  }
+
   async getVideo(id: number): Promise<Video | null> {
     await this.ensureInitialized();
     return sqliteService.getVideo(id) || null;
   }
 
-  async createVideo(video: Omit<Video, 'id'>): Promise<Video> {
+  /**
+   * A video without a scheduleDate takes its profile's next free template slot
+   * @throws NoFreeSlotError if it has no date and the profile has no free slot
+   */
+  async createVideo(video: NewVideo): Promise<Video> {
     await this.ensureInitialized();
     
+    // Placeholder videos are decoded from their original file, not the stub
+    const mediaPath = this.getMediaPath(video);
+    
+    // Reject unsupported, mislabelled or oversized files up front
+    if (mediaPath) {
+      await this.assertValidVideoFile(mediaPath, video.fileName, video.isPlaceholder ? video.originalFileSize : video.fileSize);
+    }
+    
     // For offline mode, handle thumbnail creation here
-    if (video.filePath) {
+    if (mediaPath) {
       try {
         // Generate a thumbnail if possible
-        const thumbnailPath = await this.generateThumbnail(video.filePath);
+        const thumbnailPath = await this.generateThumbnail(mediaPath);
         if (thumbnailPath) {
           video.thumbnailPath = thumbnailPath;
         }
       } catch (error) {
         console.error('Error generating thumbnail:', error);
       }
+      
+      Object.assign(video, await this.probeVideo(mediaPath, video.isPlaceholder ? video.originalFileSize : video.fileSize));
     }
     
-    return sqliteService.createVideo(video);
+    const { scheduleDate, ...fields } = video;
+    const created = scheduleDate
+      ? await sqliteService.createVideo({ ...fields, scheduleDate })
+      : await sqliteService.createVideoInNextFreeSlot(fields);
+    void reminderService.syncReminders();
+    return created;
+  }
+
+  /**
+   * Map and validate the rows of a schedule CSV without creating anything
+   * File names are matched against the files currently in videos/
+   * @throws CsvScheduleError if the file is empty or a required column is missing
+   */
+  async previewScheduleCsv(text: string, dateFormat?: CsvDateFormat): Promise<CsvSchedulePreview> {
+    await this.ensureInitialized();
+    const files = await filesystemService.listFiles('videos').catch(() => []);
+    const preview = previewCsvSchedule(text, {
+      profiles: await sqliteService.getProfiles(),
+      videoFiles: files.filter(file => file.type === 'file').map(file => ({ name: file.name, size: file.size })),
+      dateFormat
+    });
+    this.pendingImportFiles = new Set(
+      preview.rows.flatMap(row => row.file ? [`videos/${row.file.name}`] : [])
+    );
+    return preview;
+  }
+
+  /**
+   * Create a pending video for every valid row of a previewed schedule CSV
+   * Rows with errors are skipped; a row that fails to save does not stop the rest
+   */
+  async importScheduleRows(rows: CsvScheduleRow[]): Promise<{ created: Video[], failed: { row: number, error: string }[] }> {
+    await this.ensureInitialized();
+    const created: Video[] = [];
+    const failed: { row: number, error: string }[] = [];
+    
+    for (const row of rows) {
+      if (row.errors.length > 0 || row.profileId === null || row.scheduleDate === null) continue;
+      
+      try {
+        created.push(await this.createVideo({
+          profileId: row.profileId,
+          title: row.title,
+          description: row.description,
+          filePath: row.file ? `videos/${row.file.name}` : null,
+          fileName: row.file ? row.file.name : null,
+          fileSize: row.file ? row.file.size : null,
+          originalFilePath: null,
+          originalFileSize: null,
+          thumbnailPath: null,
+          duration: null,
+          scheduleDate: row.scheduleDate,
+          scheduleTimeZone: row.scheduleTimeZone,
+          status: 'pending',
+          uploadedDate: null,
+          youtubeLink: null,
+          isFileUploaded: row.file !== null,
+          isPlaceholder: false
+        }));
+      } catch (error) {
+        console.error(`Error importing CSV row ${row.row}:`, error);
+        failed.push({ row: row.row, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    
+    this.pendingImportFiles.clear();
+    return { created, failed };
   }
 
   async updateVideo(id: number, video: Partial<Video>): Promise<Video | null> {
     await this.ensureInitialized();
-    return sqliteService.updateVideo(id, video) || null;
+    const updated = await this.applyVideoUpdate(id, video);
+    
+    // Reminders show the title and channel, so those count as schedule changes too
+    const remindersAffected = ['scheduleDate', 'scheduleTimeZone', 'status', 'title', 'profileId']
+      .some(field => field in video);
+    if (remindersAffected) {
+      void reminderService.syncReminders();
+    }
+    return updated;
+  }
+  
+  private async applyVideoUpdate(id: number, video: Partial<Video>): Promise<Video | null> {
+    // Completing a video is a push, which counts against the daily limit;
+    // moving it back is a revert. Both are logged to the push history
+    if (video.status === 'completed' || video.status === 'pending') {
+      const current = await sqliteService.getVideo(id);
+      if (current && current.status !== 'completed' && video.status === 'completed') {
+        return this.pushVideo(id, video, new Date(), null);
+      }
+      if (current && current.status === 'completed' && video.status === 'pending') {
+        return toNullable(await sqliteService.revertVideoPush(id, video));
+      }
+    }
+    
+    return toNullable(await sqliteService.updateVideo(id, video));
   }
 
   async deleteVideo(id: number): Promise<boolean> {
@@ -155,64 +397,217 @@ export class OfflineApiService {
         await filesystemService.deleteFile(video.thumbnailPath).catch(e => console.error('Error deleting thumbnail:', e));
       }
     }
-    return sqliteService.deleteVideo(id);
+    const deleted = await sqliteService.deleteVideo(id);
+    void reminderService.syncReminders();
+    return deleted;
   }
 
-  async markVideoAsUploaded(id: number): Promise<Video | null> {
+  /**
+   * Delete every video in a status, along with its files
+   */
+  async deleteVideosByStatus(status: VideoStatus): Promise<{ deletedCount: number }> {
     await this.ensureInitialized();
-    const video = await sqliteService.getVideo(id);
-    if (!video) return null;
+    const videos = await sqliteService.getVideosByStatus(status);
+    let deletedCount = 0;
+    for (const video of videos) {
+      if (await this.deleteVideo(video.id)) {
+        deletedCount++;
+      }
+    }
+    return { deletedCount };
+  }
+
+  /**
+   * Remove completed videos and any files in videos/ or thumbs/ that no
+   * video references any more. Files a previewed schedule CSV is about to
+   * use are kept.
+   */
+  async cleanupStorage(): Promise<{ message: string, deletedVideos: number, deletedFiles: number }> {
+    await this.ensureInitialized();
+    const { deletedCount } = await this.deleteVideosByStatus('completed');
     
-    const now = new Date();
-    return sqliteService.updateVideo(id, {
-      status: 'completed',
-      uploadedDate: format(now, 'yyyy-MM-dd')
-    });
+    const referenced = await this.getReferencedPaths();
+    
+    let deletedFiles = 0;
+    for (const directory of ['videos', 'thumbs']) {
+      const files = await filesystemService.listFiles(directory).catch(() => []);
+      for (const file of files) {
+        const path = `${directory}/${file.name}`;
+        if (file.type === 'file' && !referenced.has(path) && !this.pendingImportFiles.has(path)) {
+          await filesystemService.deleteFile(path)
+            .then(() => { deletedFiles++; })
+            .catch(e => console.error('Error deleting unused file:', e));
+        }
+      }
+    }
+    
+    return {
+      message: `Deleted ${deletedCount} completed video(s) and ${deletedFiles} unused file(s)`,
+      deletedVideos: deletedCount,
+      deletedFiles
+    };
   }
 
-  async revertVideoUpload(id: number): Promise<Video | null> {
+  /**
+   * Mark a video as pushed to YouTube
+   * @throws PushLimitReachedError if the profile's daily limit is used up
+   */
+  async markVideoAsUploaded(id: number, note?: string | null): Promise<Video | null> {
     await this.ensureInitialized();
+    const now = new Date();
+    const result = await this.pushVideo(id, { uploadedDate: format(now, 'yyyy-MM-dd') }, now, note ?? null);
+    void reminderService.syncReminders();
+    return result;
+  }
+
+  /**
+   * Record a push, first swapping a placeholder back to its original file
+   * The limit is checked before the copy so a refused push leaves the
+   * placeholder alone; recordVideoPush checks it again in its transaction
+   * @throws PushLimitReachedError if the profile's daily limit is used up
+   * @throws PlaceholderOriginalError if the original was moved, deleted or changed
+   */
+  private async pushVideo(id: number, changes: Partial<Video>, now: Date, note: string | null): Promise<Video | null> {
     const video = await sqliteService.getVideo(id);
-    if (!video) return null;
+    const profile = video ? await sqliteService.getProfile(video.profileId) : undefined;
+    if (profile) {
+      assertPushAllowed(profile, now);
+    }
     
-    return sqliteService.updateVideo(id, {
-      status: 'pending',
+    await placeholderService.restoreOriginal(id);
+    return toNullable(await sqliteService.recordVideoPush(id, changes, now, note));
+  }
+
+  async revertVideoUpload(id: number, note?: string | null): Promise<Video | null> {
+    await this.ensureInitialized();
+    const result = await sqliteService.revertVideoPush(id, {
       uploadedDate: null,
       youtubeLink: null
+    }, new Date(), note ?? null);
+    void reminderService.syncReminders();
+    return toNullable(result);
+  }
+
+  /**
+   * Spread a profile's missed videos over upcoming days
+   * Days that already hold the profile's daily limit of pending videos are skipped
+   */
+  async rescheduleMissedVideos(profileId: number): Promise<{ rescheduledCount: number }> {
+    await this.ensureInitialized();
+
+    const missedVideos = await this.getVideosByStatusAndProfile('missed-schedule', profileId);
+    if (missedVideos.length === 0) {
+      return { rescheduledCount: 0 };
+    }
+
+    const profile = await sqliteService.getProfile(profileId);
+    const now = new Date();
+    const occupiedDays = await sqliteService.getScheduledVideoCountsByDate(profileId, now);
+    const assignments = planMissedReschedule(missedVideos, {
+      now,
+      dailyLimit: profile ? profile.dailyPushLimit : APP_SETTINGS.DEFAULT_DAILY_PUSH_LIMIT,
+      occupiedDays
     });
+
+    const rescheduledCount = await sqliteService.rescheduleVideos(assignments);
+    void reminderService.syncReminders();
+    return { rescheduledCount };
+  }
+
+  /**
+   * Detection pass: mark pending videos whose publish time has passed as missed
+   * @returns A summary of the videos that changed status
+   */
+  async detectMissedSchedules(): Promise<MissedScheduleSummary> {
+    await this.ensureInitialized();
+
+    const now = new Date();
+    const missed = await sqliteService.markMissedVideos(now);
+    const byProfile: Record<number, number> = {};
+    for (const video of missed) {
+      byProfile[video.profileId] = (byProfile[video.profileId] || 0) + 1;
+    }
+
+    return {
+      detectedAt: format(now, 'yyyy-MM-dd HH:mm:ss'),
+      missedCount: missed.length,
+      byProfile,
+      videos: missed.map(({ id, profileId, title, scheduleDate }) => ({ id, profileId, title, scheduleDate }))
+    };
   }
 
   // File handling methods
-  async uploadVideoFile(videoId: number, filePath: string): Promise<boolean> {
+  /**
+   * @param options.fileName Display name of the file, for content URIs whose path has no extension
+   * @param options.fileSize Size of the file when the caller already knows it
+   */
+  async uploadVideoFile(
+    videoId: number,
+    filePath: string,
+    options: {
+      fileName?: string | null;
+      fileSize?: number | null;
+      onProgress?: (progress: CopyProgress) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<boolean> {
     await this.ensureInitialized();
     
+    // Validation failures are thrown so the caller can show them per file
+    await this.assertValidVideoFile(filePath, options.fileName, options.fileSize);
+    
     try {
       // In offline mode, we just need to update the video record with the file path
       const video = await sqliteService.getVideo(videoId);
       if (!video) return false;
       
-      // Copy the file to the videos directory if it's not already there
+      const sourcePath = filePath;
+      const sourceSize = await filesystemService.getFileSize(sourcePath).catch(() => video.fileSize);
+      let placeholder: Partial<Video> = { isPlaceholder: false };
+      
       if (!filePath.startsWith('videos/')) {
-        const fileName = filePath.split('/').pop() || `video_${Date.now()}.mp4`;
-        const newPath = `videos/${fileName}`;
-        
-        // Read source file and write to destination
-        const fileData = await filesystemService.readFile(filePath);
-        await filesystemService.writeFile(newPath, fileData);
-        filePath = newPath;
+        if (placeholderService.shouldUsePlaceholder(sourceSize)) {
+          // Keep only a stub in videos/ and reference the original on the device
+          filePath = await placeholderService.createPlaceholder(sourcePath, sourceSize!);
+          placeholder = {
+            isPlaceholder: true,
+            originalFilePath: sourcePath,
+            originalFileSize: sourceSize
+          };
+        } else {
+          // Copy the file to the videos directory
+          const fileName = options.fileName || filePath.split('/').pop() || `video_${Date.now()}.mp4`;
+          const newPath = `videos/${fileName}`;
+          
+          // Stream the file across in blocks (verifies the size afterwards)
+          await filesystemService.copyFile(filePath, newPath, { onProgress: options.onProgress, signal: options.signal });
+          filePath = newPath;
+        }
       }
       
+      // Thumbnails and metadata always come from a real video file
+      const mediaPath = placeholder.isPlaceholder ? sourcePath : filePath;
+      
       // Generate thumbnail if possible
       let thumbnailPath = video.thumbnailPath;
       if (!thumbnailPath) {
-        thumbnailPath = await this.generateThumbnail(filePath);
+        thumbnailPath = await this.generateThumbnail(mediaPath);
       }
       
+      // Measure duration, resolution, codec and bitrate
+      const fileSize = placeholder.isPlaceholder
+        ? sourceSize
+        : await filesystemService.getFileSize(filePath).catch(() => video.fileSize);
+      const metadata = await this.probeVideo(mediaPath, fileSize);
+      
       // Update video with file information
       await sqliteService.updateVideo(videoId, {
         filePath,
+        fileSize,
         isFileUploaded: true,
-        thumbnailPath
+        thumbnailPath,
+        ...placeholder,
+        ...metadata
       });
       
       return true;
@@ -222,6 +617,54 @@ export class OfflineApiService {
     }
   }
 
+  /**
+   * Regenerate a video's thumbnail from a chosen second of the video
+   */
+  async regenerateThumbnail(videoId: number, captureSecond: number): Promise<Video | null> {
+    await this.ensureInitialized();
+    const video = await sqliteService.getVideo(videoId);
+    const mediaPath = video && this.getMediaPath(video);
+    if (!mediaPath) return null;
+    
+    const thumbnailPath = await this.generateThumbnail(mediaPath, captureSecond, true);
+    if (!thumbnailPath) return null;
+    
+    return toNullable(await sqliteService.updateVideo(videoId, { thumbnailPath }));
+  }
+
+  /**
+   * Find placeholder videos whose original file has moved, been deleted or changed
+   */
+  async checkPlaceholderOriginals(): Promise<PlaceholderCheck[]> {
+    await this.ensureInitialized();
+    return placeholderService.findBrokenOriginals();
+  }
+
+  /**
+   * Replace a placeholder stub with a full copy of the original file
+   * Pushes do this themselves; call it ahead of time to show copy progress
+   */
+  async restoreOriginalFile(
+    videoId: number,
+    options: { onProgress?: (progress: CopyProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<Video | null> {
+    await this.ensureInitialized();
+    return toNullable(await placeholderService.restoreOriginal(videoId, options));
+  }
+
+  /**
+   * Check a video file's extension, magic bytes and size
+   * @returns The issues found (empty when the file can be imported)
+   */
+  async validateVideoFile(
+    filePath: string,
+    fileName?: string | null,
+    fileSize?: number | null
+  ): Promise<VideoValidationIssue[]> {
+    await this.ensureInitialized();
+    return validateVideoFile(await this.readValidationInput(filePath, fileName, fileSize));
+  }
+
   // Helper methods
   private async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
@@ -229,31 +672,105 @@ export class OfflineApiService {
     }
   }
 
-  private async generateThumbnail(videoPath: string): Promise<string | null> {
-    // In a full implementation, we would use native capabilities to extract a frame
-    // For now, we'll use a placeholder
+  /**
+   * Path of the real video file for a record (the original for placeholders)
+   */
+  private getMediaPath(video: Pick<Video, 'filePath' | 'isPlaceholder' | 'originalFilePath'>): string | null {
+    return video.isPlaceholder && video.originalFilePath ? video.originalFilePath : video.filePath;
+  }
+
+  private async assertValidVideoFile(
+    filePath: string,
+    fileName?: string | null,
+    fileSize?: number | null
+  ): Promise<void> {
+    assertValidVideoFile(await this.readValidationInput(filePath, fileName, fileSize));
+  }
+
+  /**
+   * A file that cannot be read is passed on with a null head or size, which
+   * validation reports as an issue
+   */
+  private async readValidationInput(filePath: string, fileName?: string | null, fileSize?: number | null) {
+    const head = await filesystemService.readFileHead(filePath, VALIDATION_HEAD_BYTES).catch(error => {
+      console.error(`Error reading ${filePath} for validation:`, error);
+      return null;
+    });
+    const size = fileSize ?? await filesystemService.getFileSize(filePath).catch(error => {
+      console.error(`Error reading the size of ${filePath} for validation:`, error);
+      return null;
+    });
+    return {
+      fileName: fileName || filePath.split('/').pop() || filePath,
+      fileSize: size,
+      head
+    };
+  }
+
+  /**
+   * Probe an attached video file for its media metadata
+   * Each source of information is optional; whatever cannot be read is null
+   */
+  private async probeVideo(videoPath: string, fileSize: number | null): Promise<Partial<Video>> {
+    const fileName = videoPath.split('/').pop() || videoPath;
+    
+    const head = await filesystemService.readFileHead(videoPath, PROBE_HEAD_BYTES).catch(error => {
+      console.warn(`Could not sniff ${videoPath}:`, error);
+      return null;
+    });
+    
+    const decoded = await filesystemService.getFileUri(videoPath)
+      .then(uri => readDecoderMetadata(Capacitor.convertFileSrc(uri)))
+      .catch(error => {
+        console.warn(`Could not decode metadata for ${videoPath}:`, error);
+        return null;
+      });
+    
+    const metadata = buildVideoMetadata(fileName, fileSize, head, decoded);
+    return {
+      duration: metadata.duration,
+      durationSeconds: metadata.durationSeconds,
+      width: metadata.width,
+      height: metadata.height,
+      container: metadata.container,
+      codec: metadata.codec,
+      bitrate: metadata.bitrate
+    };
+  }
+
+  /**
+   * Extract a frame from a video and save it under thumbs/
+   * Falls back to a generic placeholder image when the video cannot be decoded
+   * @param captureSecond Second of the video to capture
+   * @param overwrite Replace an existing thumbnail instead of reusing it
+   */
+  private async generateThumbnail(
+    videoPath: string,
+    captureSecond: number = APP_SETTINGS.THUMBNAIL_CAPTURE_SECOND,
+    overwrite = false
+  ): Promise<string | null> {
     try {
       const fileName = videoPath.split('/').pop() || 'video';
       const thumbnailName = `${fileName.split('.')[0]}_thumbnail.jpg`;
       const thumbnailPath = `thumbs/${thumbnailName}`;
       
       // Check if we already have this thumbnail
-      const exists = await filesystemService.fileExists(thumbnailPath);
-      if (exists) {
+      if (!overwrite && await filesystemService.fileExists(thumbnailPath)) {
         return thumbnailPath;
       }
       
-      // In a real implementation, we would:
-      // 1. Use native capabilities to extract a frame
-      // 2. Save the frame as a thumbnail
-      // 3. Return the path to the thumbnail
+      let jpegData: string;
+      try {
+        // The WebView can only load local files through a converted URL
+        const fileUri = await filesystemService.getFileUri(videoPath);
+        jpegData = await captureVideoFrame(Capacitor.convertFileSrc(fileUri), { captureSecond });
+      } catch (error) {
+        console.warn(`Could not extract a frame from ${videoPath}, using placeholder:`, error);
+        jpegData = createPlaceholderThumbnail(fileName);
+      }
       
-      // For now, we'll use a placeholder by creating an empty file
-      await filesystemService.writeFile(
-        thumbnailPath,
-        new Uint8Array([]), // Empty file as placeholder
-        { recursive: true }
-      );
+      // Base64 data is written as binary by the Filesystem plugin
+      await filesystemService.writeFile(thumbnailPath, jpegData, { recursive: true });
       
       return thumbnailPath;
     } catch (error) {
@@ -270,30 +787,133 @@ export class OfflineApiService {
     return { profiles, videos };
   }
 
-  async importData(data: { profiles: Profile[], videos: Video[] }): Promise<boolean> {
+  /**
+   * Report what importing an export file would do, without writing anything
+   * @throws ImportFormatError if the file is not an export
+   */
+  async previewImport(data: unknown, strategy: ImportStrategy = 'merge'): Promise<ImportReport> {
+    await this.ensureInitialized();
+    const existing = await this.exportData();
+    const validated = validateImportData(data);
+    return buildImportReport(existing, validated, planImport(existing, validated.data, strategy));
+  }
+  
+  /**
+   * Import exported profiles and videos in a single transaction
+   * Invalid records are left out, and rows are matched by natural key so
+   * importing the same file twice does not create duplicates
+   * @throws ImportFormatError if the file is not an export
+   */
+  async importData(data: unknown, strategy: ImportStrategy = 'merge'): Promise<ImportSummary> {
     await this.ensureInitialized();
     
-    try {
-      // First import profiles
-      for (const profile of data.profiles) {
-        // Skip id to let SQLite assign a new one
-        const { id, ...profileData } = profile;
-        await sqliteService.createProfile(profileData);
-      }
-      
-      // Then import videos
-      for (const video of data.videos) {
-        // Skip id to let SQLite assign a new one
-        const { id, ...videoData } = video;
-        await sqliteService.createVideo(videoData);
+    const validated = validateImportData(data);
+    const plan = planImport(await this.exportData(), validated.data, strategy);
+    const removedVideos = await sqliteService.applyImportPlan(plan);
+    
+    // Files of replaced videos are only removed once the import has committed
+    if (removedVideos.length > 0) {
+      await this.removeUnreferencedFiles(removedVideos);
+    }
+    void reminderService.syncReminders();
+    
+    return summarizeImportPlan(plan, validated.invalid.length);
+  }
+  
+  /**
+   * Every file and thumbnail path used by a video
+   */
+  private async getReferencedPaths(): Promise<Set<string>> {
+    const referenced = new Set<string>();
+    for (const video of await sqliteService.getVideos()) {
+      if (video.filePath) referenced.add(video.filePath);
+      if (video.thumbnailPath) referenced.add(video.thumbnailPath);
+    }
+    return referenced;
+  }
+  
+  /**
+   * Delete the files of the given videos that no video references any more
+   */
+  private async removeUnreferencedFiles(videos: Video[]): Promise<void> {
+    const referenced = await this.getReferencedPaths();
+    
+    for (const video of videos) {
+      for (const path of [video.filePath, video.thumbnailPath]) {
+        if (path && !referenced.has(path)) {
+          await filesystemService.deleteFile(path).catch(e => console.error('Error deleting replaced file:', e));
+        }
       }
-      
-      return true;
+    }
+  }
+
+  /**
+   * Export the videos matching a filter as CSV
+   */
+  async exportScheduleCsv(filter: ScheduleExportFilter = {}): Promise<string> {
+    await this.ensureInitialized();
+    const { profiles, videos } = await this.exportData();
+    return videosToCsv(filterVideosForExport(videos, filter), profiles);
+  }
+
+  /**
+   * Export the videos matching a filter as an iCalendar (.ics) file
+   */
+  async exportScheduleIcs(filter: ScheduleExportFilter = {}): Promise<string> {
+    await this.ensureInitialized();
+    const { profiles, videos } = await this.exportData();
+    return videosToIcs(filterVideosForExport(videos, filter), profiles);
+  }
+
+  /**
+   * Export profiles, videos and their media as a zip backup archive
+   * @returns Where the archive was written, under Documents
+   */
+  async exportArchive(options: CreateBackupOptions = {}): Promise<{ path: string, fileName: string, manifest: BackupManifest }> {
+    await this.ensureInitialized();
+    const fileName = `youtube-scheduler-backup-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.zip`;
+    const path = `${BACKUP_DIRECTORY}/${fileName}`;
+    const manifest = await backupService.createArchive(path, options);
+    return { path, fileName, manifest };
+  }
+
+  /**
+   * Verify a zip backup archive and report what restoring it would do
+   * @throws BackupArchiveError if the archive fails verification
+   */
+  async previewArchive(archive: Blob | ArrayBuffer | Uint8Array, strategy: ImportStrategy = 'merge'): Promise<ImportReport> {
+    await this.ensureInitialized();
+    const { data } = await backupService.readArchive(archive);
+    return this.previewImport(data, strategy);
+  }
+
+  /**
+   * Restore a zip backup archive: verify it, rebuild thumbs/ and videos/,
+   * then import the rows with their paths rewritten
+   * @throws BackupArchiveError if the archive fails verification
+   */
+  async importArchive(
+    archive: Blob | ArrayBuffer | Uint8Array,
+    strategy: ImportStrategy = 'merge'
+  ): Promise<{ manifest: BackupManifest, summary: ImportSummary }> {
+    await this.ensureInitialized();
+    const { manifest, data, writtenFiles } = await backupService.extractArchive(archive);
+
+    let summary: ImportSummary;
+    try {
+      summary = await this.importData(data, strategy);
     } catch (error) {
-      console.error('Error importing data:', error);
-      return false;
+      await backupService.removeFiles(writtenFiles);
+      throw error;
     }
+
+    // Skipped rows leave their restored files unused
+    const referenced = await this.getReferencedPaths();
+    await backupService.removeFiles(writtenFiles.filter(path => !referenced.has(path)));
+
+    return { manifest, summary };
   }
+
 }
 
 export const offlineApiService = OfflineApiService.getInstance();
\ No newline at end of file
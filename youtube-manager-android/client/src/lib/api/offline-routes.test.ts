@@ -0,0 +1,78 @@
+import { format, subHours } from 'date-fns';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { useOfflineApi } from '../../test/offline';
+import { Profile, Video } from '../database/schema';
+import { offlineApiService } from './offline-api-service';
+import { OfflineRouteError, handleOfflineRequest } from './offline-routes';
+
+async function addProfile(overrides: Partial<Profile> = {}): Promise<Profile> {
+  const { id, ...profile } = makeProfile(overrides);
+  return offlineApiService.createProfile(profile);
+}
+
+async function addVideo(overrides: Partial<Video> = {}): Promise<Video> {
+  const { id, ...video } = makeVideo(overrides);
+  return offlineApiService.createVideo(video);
+}
+
+// lastPushReset is stored in device-local time
+function resetHoursAgo(hours: number): string {
+  return format(subHours(new Date(), hours), 'yyyy-MM-dd HH:mm:ss');
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  await useOfflineApi();
+});
+
+describe('GET /api/user/push-count', () => {
+  it('only counts pushes whose profile reset window is still running', async () => {
+    await addProfile({ dailyPushCount: 2, lastPushReset: resetHoursAgo(1), pushResetPolicy: 'rolling-24h' });
+    await addProfile({
+      name: 'Other',
+      channelLink: 'https://youtube.com/@other',
+      dailyPushCount: 5,
+      lastPushReset: resetHoursAgo(30),
+      pushResetPolicy: 'rolling-24h'
+    });
+
+    expect(await handleOfflineRequest('GET', '/api/user/push-count')).toMatchObject({ dailyPushCount: 2 });
+  });
+});
+
+describe('PUT /api/videos/:id', () => {
+  it('answers 429 when the push limit is used up', async () => {
+    const profile = await addProfile({ dailyPushLimit: 1 });
+    const first = await addVideo({ profileId: profile.id });
+    const second = await addVideo({ profileId: profile.id });
+    await handleOfflineRequest('PUT', `/api/videos/${first.id}`, { status: 'completed' });
+
+    const request = handleOfflineRequest('PUT', `/api/videos/${second.id}`, { status: 'completed' });
+
+    await expect(request).rejects.toBeInstanceOf(OfflineRouteError);
+    await expect(request).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('answers 409 for a status change the state machine forbids', async () => {
+    const profile = await addProfile();
+    const video = await addVideo({ profileId: profile.id, status: 'completed' });
+
+    await expect(handleOfflineRequest('PUT', `/api/videos/${video.id}`, { status: 'missed-schedule' }))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it('answers 404 for a video that does not exist', async () => {
+    await expect(handleOfflineRequest('PUT', '/api/videos/999', { title: 'Gone' })).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('POST /api/videos/:id/assign-slot', () => {
+  it('answers 409 for a completed video', async () => {
+    const profile = await addProfile();
+    const video = await addVideo({ profileId: profile.id, status: 'completed' });
+
+    await expect(handleOfflineRequest('POST', `/api/videos/${video.id}/assign-slot`)).rejects.toMatchObject({ status: 409 });
+  });
+});
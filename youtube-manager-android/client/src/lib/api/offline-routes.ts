@@ -0,0 +1,441 @@
+import { offlineApiService } from './offline-api-service';
+import { InvalidStatusTransitionError, isVideoStatus } from '../database/video-status';
+import { ImportStrategy, isImportStrategy } from '../database/data-import';
+import { BackupArchiveError } from '../database/backup-service';
+import { CSV_DATE_FORMATS, CsvScheduleError } from '../scheduling/csv-schedule';
+import { ScheduleExportFilter } from '../scheduling/schedule-export';
+import { PushLimitReachedError, getPushLimitState, isPushResetPolicyType } from '../database/push-limit';
+import { VideoQuery, VideoQueryError, parseVideoQuery } from '../database/video-query';
+import { isValidTimeZone } from '../scheduling/time-zone';
+import { NoFreeSlotError, ScheduleTemplateError } from '../scheduling/schedule-templates';
+
+/**
+ * Route-to-handler adapter for offline mode
+ * Maps the REST endpoints used by the pages onto OfflineApiService calls,
+ * so React Query keys like '/api/videos/today' work without a server
+ */
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body: any;
+}
+
+interface OfflineRoute {
+  method: HttpMethod;
+  // Path pattern with :name placeholders, e.g. /api/profiles/:id
+  pattern: string;
+  handler: (context: RouteContext) => Promise<unknown>;
+}
+
+/**
+ * Error raised by offline handlers; the message follows the
+ * "<status>: <text>" format produced by queryClient for server errors
+ */
+export class OfflineRouteError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(`${status}: ${message}`);
+    this.name = 'OfflineRouteError';
+  }
+}
+
+function idParam(params: Record<string, string>, name = 'id'): number {
+  const id = Number(params[name]);
+  if (!Number.isInteger(id)) {
+    throw new OfflineRouteError(400, `Invalid ${name}: ${params[name]}`);
+  }
+  return id;
+}
+
+function videoQueryParams(query: Record<string, unknown>): VideoQuery {
+  try {
+    return parseVideoQuery(query);
+  } catch (error) {
+    if (error instanceof VideoQueryError) throw new OfflineRouteError(400, error.message);
+    throw error;
+  }
+}
+
+function orNotFound<T>(value: T | null, what: string): T {
+  if (value === null) {
+    throw new OfflineRouteError(404, `${what} not found`);
+  }
+  return value;
+}
+
+// Template validation is a bad request; a full schedule is a conflict
+async function withScheduleErrors<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof ScheduleTemplateError) throw new OfflineRouteError(400, error.message);
+    if (error instanceof NoFreeSlotError) throw new OfflineRouteError(409, error.message);
+    throw error;
+  }
+}
+
+// A used-up push limit is too many requests; an illegal status move is a conflict
+async function withVideoErrors<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof PushLimitReachedError) throw new OfflineRouteError(429, error.message);
+    if (error instanceof InvalidStatusTransitionError) throw new OfflineRouteError(409, error.message);
+    throw error;
+  }
+}
+
+// An unreadable backup or schedule CSV is a bad request
+async function withFileErrors<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof BackupArchiveError || error instanceof CsvScheduleError) {
+      throw new OfflineRouteError(400, error.message);
+    }
+    throw error;
+  }
+}
+
+function importStrategyParam(query: Record<string, unknown>): ImportStrategy | undefined {
+  if (query.strategy !== undefined && !isImportStrategy(query.strategy)) {
+    throw new OfflineRouteError(400, `Invalid import strategy: ${query.strategy}`);
+  }
+  return query.strategy;
+}
+
+function scheduleExportFilterParams(query: Record<string, unknown>): ScheduleExportFilter {
+  const filter: ScheduleExportFilter = {};
+  if (query.profileId !== undefined) {
+    const profileId = Number(query.profileId);
+    if (!Number.isInteger(profileId)) {
+      throw new OfflineRouteError(400, `Invalid profileId: ${query.profileId}`);
+    }
+    filter.profileId = profileId;
+  }
+  if (query.status !== undefined) {
+    if (!isVideoStatus(query.status)) {
+      throw new OfflineRouteError(400, `Invalid status: ${query.status}`);
+    }
+    filter.status = query.status;
+  }
+  for (const bound of ['from', 'to'] as const) {
+    if (typeof query[bound] === 'string' && query[bound]) filter[bound] = query[bound] as string;
+  }
+  return filter;
+}
+
+// Static segments must come before parameterised ones that could match them
+const ROUTES: OfflineRoute[] = [
+  // Profiles
+  { method: 'GET', pattern: '/api/profiles', handler: () => offlineApiService.getProfiles() },
+  {
+    method: 'POST',
+    pattern: '/api/profiles',
+    handler: ({ body }) => offlineApiService.createProfile({
+      dailyPushCount: 0,
+      lastPushReset: null,
+      ...body
+    })
+  },
+  {
+    method: 'GET',
+    pattern: '/api/profiles/:id',
+    handler: async ({ params }) => orNotFound(await offlineApiService.getProfile(idParam(params)), 'Profile')
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/profiles/:id',
+    handler: async ({ params, body }) => {
+      if (body?.pushResetPolicy != null && !isPushResetPolicyType(body.pushResetPolicy)) {
+        throw new OfflineRouteError(400, `Invalid push reset policy: ${body.pushResetPolicy}`);
+      }
+      if (body?.pushResetTimeZone != null && !isValidTimeZone(body.pushResetTimeZone)) {
+        throw new OfflineRouteError(400, `Invalid time zone: ${body.pushResetTimeZone}`);
+      }
+      return orNotFound(await offlineApiService.updateProfile(idParam(params), body), 'Profile');
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/profiles/:id',
+    handler: async ({ params }) => ({ success: await offlineApiService.deleteProfile(idParam(params)) })
+  },
+  {
+    method: 'GET',
+    pattern: '/api/profiles/:id/videos',
+    handler: ({ params }) => offlineApiService.getVideosByProfile(idParam(params))
+  },
+  {
+    method: 'GET',
+    pattern: '/api/profiles/:id/push-count',
+    handler: async ({ params }) => {
+      const profile = orNotFound(await offlineApiService.getProfile(idParam(params)), 'Profile');
+      const state = orNotFound(await offlineApiService.getProfilePushLimit(profile.id), 'Profile');
+      return {
+        dailyPushCount: state.dailyPushCount,
+        dailyPushLimit: state.dailyPushLimit,
+        lastReset: profile.lastPushReset,
+        resetsAt: state.resetsAt ? state.resetsAt.toISOString() : null,
+        pushResetPolicy: profile.pushResetPolicy,
+        pushResetTimeZone: profile.pushResetTimeZone,
+        resetPolicy: state.policy
+      };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/profiles/:id/reset-push-count',
+    handler: async ({ params, body }) =>
+      orNotFound(await offlineApiService.resetProfilePushCount(idParam(params), body?.note), 'Profile')
+  },
+  {
+    method: 'GET',
+    pattern: '/api/profiles/:id/push-events',
+    handler: async ({ params, query }) => {
+      const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new OfflineRouteError(400, `Invalid limit: ${query.limit}`);
+      }
+      return offlineApiService.getPushEventsByProfile(idParam(params), limit);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/profiles/:id/reschedule-missed',
+    handler: ({ params }) => offlineApiService.rescheduleMissedVideos(idParam(params))
+  },
+  {
+    method: 'GET',
+    pattern: '/api/profiles/:id/schedule-templates',
+    handler: ({ params }) => offlineApiService.getScheduleTemplates(idParam(params))
+  },
+  {
+    method: 'POST',
+    pattern: '/api/profiles/:id/schedule-templates',
+    handler: ({ params, body }) => withScheduleErrors(() =>
+      offlineApiService.createScheduleTemplate({ ...body, profileId: idParam(params) }))
+  },
+  {
+    method: 'GET',
+    pattern: '/api/profiles/:id/next-slot',
+    handler: ({ params }) => withScheduleErrors(() => offlineApiService.getNextFreeSlot(idParam(params)))
+  },
+
+  // Schedule templates
+  {
+    method: 'PUT',
+    pattern: '/api/schedule-templates/:id',
+    handler: ({ params, body }) => withScheduleErrors(async () =>
+      orNotFound(await offlineApiService.updateScheduleTemplate(idParam(params), body), 'Schedule template'))
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/schedule-templates/:id',
+    handler: async ({ params }) => ({ success: await offlineApiService.deleteScheduleTemplate(idParam(params)) })
+  },
+
+  // Push limit across all profiles (there is no user account offline)
+  {
+    method: 'GET',
+    pattern: '/api/user/push-count',
+    handler: async () => {
+      const profiles = await offlineApiService.getProfiles();
+      const resets = profiles.map(p => p.lastPushReset).filter((r): r is string => !!r).sort();
+      // Each profile's count only stands while its own reset window runs
+      const now = new Date();
+      return {
+        dailyPushCount: profiles.reduce((total, p) => total + getPushLimitState(p, now).dailyPushCount, 0),
+        lastReset: resets.length > 0 ? resets[resets.length - 1] : null
+      };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/user/reset-push-count',
+    handler: async () => {
+      const profiles = await offlineApiService.getProfiles();
+      for (const profile of profiles) {
+        await offlineApiService.resetProfilePushCount(profile.id);
+      }
+      return { dailyPushCount: 0 };
+    }
+  },
+
+  // Videos
+  {
+    method: 'GET',
+    pattern: '/api/videos',
+    // ?status=&profileId=&sortBy=&sortDirection=&from=&to=&file=&placeholder=
+    handler: ({ query }) => offlineApiService.queryVideos(videoQueryParams(query))
+  },
+  {
+    method: 'POST',
+    pattern: '/api/videos',
+    handler: ({ body }) => withScheduleErrors(() => offlineApiService.createVideo(body))
+  },
+  {
+    method: 'GET',
+    pattern: '/api/videos/page',
+    // The /api/videos filters plus ?limit=&cursor=
+    handler: ({ query }) => offlineApiService.queryVideoPage(videoQueryParams(query))
+  },
+  { method: 'GET', pattern: '/api/videos/stats', handler: () => offlineApiService.getVideoStats() },
+  { method: 'GET', pattern: '/api/videos/today', handler: () => offlineApiService.getTodayVideos() },
+  {
+    method: 'GET',
+    pattern: '/api/videos/due',
+    handler: ({ query }) => {
+      if (query.profileId === undefined) return offlineApiService.getDueVideos();
+      const profileId = Number(query.profileId);
+      if (!Number.isInteger(profileId)) {
+        throw new OfflineRouteError(400, `Invalid profileId: ${query.profileId}`);
+      }
+      return offlineApiService.getDueVideos(profileId);
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/videos/status/:status',
+    handler: ({ params }) => {
+      if (!isVideoStatus(params.status)) {
+        throw new OfflineRouteError(400, `Invalid status: ${params.status}`);
+      }
+      return offlineApiService.deleteVideosByStatus(params.status);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: '/api/videos/:id',
+    handler: async ({ params }) => orNotFound(await offlineApiService.getVideo(idParam(params)), 'Video')
+  },
+  {
+    method: 'GET',
+    pattern: '/api/videos/:id/push-events',
+    handler: ({ params }) => offlineApiService.getPushEventsByVideo(idParam(params))
+  },
+  {
+    method: 'POST',
+    pattern: '/api/videos/:id/assign-slot',
+    handler: ({ params }) => withScheduleErrors(() => withVideoErrors(async () =>
+      orNotFound(await offlineApiService.assignVideoToNextFreeSlot(idParam(params)), 'Video')))
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/videos/:id',
+    handler: ({ params, body }) => withVideoErrors(async () =>
+      orNotFound(await offlineApiService.updateVideo(idParam(params), body), 'Video'))
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/videos/:id',
+    handler: async ({ params }) => ({ success: await offlineApiService.deleteVideo(idParam(params)) })
+  },
+
+  // Maintenance and data transfer
+  { method: 'POST', pattern: '/api/maintenance/cleanup', handler: () => offlineApiService.cleanupStorage() },
+  { method: 'GET', pattern: '/api/export', handler: () => offlineApiService.exportData() },
+  {
+    method: 'POST',
+    pattern: '/api/import',
+    handler: ({ body, query }) => {
+      const strategy = importStrategyParam(query);
+      // ?dryRun=true returns the import report without writing anything
+      return query.dryRun === 'true'
+        ? offlineApiService.previewImport(body, strategy)
+        : offlineApiService.importData(body, strategy);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/import/schedule-csv',
+    // Body { text, dateFormat }; ?dryRun=true returns the preview without creating videos
+    handler: ({ body, query }) => withFileErrors(async () => {
+      if (typeof body?.text !== 'string') {
+        throw new OfflineRouteError(400, 'CSV text is required');
+      }
+      if (body.dateFormat !== undefined && !(CSV_DATE_FORMATS as readonly string[]).includes(body.dateFormat)) {
+        throw new OfflineRouteError(400, `Invalid date format: ${body.dateFormat}`);
+      }
+      const preview = await offlineApiService.previewScheduleCsv(body.text, body.dateFormat);
+      return query.dryRun === 'true' ? preview : offlineApiService.importScheduleRows(preview.rows);
+    })
+  },
+  {
+    method: 'GET',
+    pattern: '/api/export/schedule',
+    // ?format=csv|ics&profileId=&status=&from=&to=
+    handler: async ({ query }) => {
+      const filter = scheduleExportFilterParams(query);
+      if (query.format === 'ics') return { content: await offlineApiService.exportScheduleIcs(filter) };
+      if (query.format === undefined || query.format === 'csv') {
+        return { content: await offlineApiService.exportScheduleCsv(filter) };
+      }
+      throw new OfflineRouteError(400, `Invalid export format: ${query.format}`);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/backup',
+    // Body { includeVideos }; the archive is written under Documents
+    handler: ({ body }) => offlineApiService.exportArchive({ includeVideos: body?.includeVideos === true })
+  },
+  {
+    method: 'POST',
+    pattern: '/api/backup/restore',
+    // Body is the zip archive; ?dryRun=true verifies it and returns the import report
+    handler: ({ body, query }) => withFileErrors(async () => {
+      const strategy = importStrategyParam(query);
+      if (!(body instanceof Blob || body instanceof ArrayBuffer || body instanceof Uint8Array)) {
+        throw new OfflineRouteError(400, 'Backup archive is required');
+      }
+      return query.dryRun === 'true'
+        ? offlineApiService.previewArchive(body, strategy)
+        : offlineApiService.importArchive(body, strategy);
+    })
+  }
+];
+
+function matchPattern(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/');
+  const pathParts = path.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Serve an API request from the local database
+ * @param query Extra query parameters, e.g. the object part of a query key
+ * @throws OfflineRouteError (404) if no handler exists for the route
+ */
+export async function handleOfflineRequest(
+  method: string,
+  url: string,
+  body?: unknown,
+  query: Record<string, unknown> = {}
+): Promise<unknown> {
+  const [rawPath, search] = url.split('?');
+  const path = rawPath.replace(/\/+$/, '');
+  const searchParams = Object.fromEntries(new URLSearchParams(search || ''));
+
+  for (const route of ROUTES) {
+    if (route.method !== method.toUpperCase()) continue;
+    const params = matchPattern(route.pattern, path);
+    if (params) {
+      return route.handler({ params, query: { ...searchParams, ...query }, body });
+    }
+  }
+
+  throw new OfflineRouteError(404, `No offline handler for ${method.toUpperCase()} ${path}`);
+}
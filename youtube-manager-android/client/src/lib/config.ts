@@ -22,6 +22,28 @@ export const APP_SETTINGS = {
   // Default daily upload limit per profile
   DEFAULT_DAILY_PUSH_LIMIT: 10,
   
+  // When push counts reset for profiles without their own policy:
+  // 'rolling-24h', 'local-midnight' or 'timezone-midnight'
+  PUSH_RESET_POLICY: 'rolling-24h' as 'rolling-24h' | 'local-midnight' | 'timezone-midnight',
+  
+  // IANA time zone for 'timezone-midnight' (YouTube quotas reset at Pacific midnight)
+  PUSH_RESET_TIME_ZONE: 'America/Los_Angeles',
+  
+  // Publish time (HH:mm) for videos scheduled with only a date
+  DEFAULT_SCHEDULE_TIME: '09:00',
+  
+  // Local notifications for due and missed uploads
+  REMINDERS_ENABLED: true,
+  
+  // Local time (HH:mm) of the daily "videos due" digest
+  REMINDER_DIGEST_TIME: '08:00',
+  
+  // Days ahead to schedule reminders for, counting today
+  REMINDER_DAYS_AHEAD: 7,
+  
+  // Most per-video reminders scheduled at once (Android limits pending alarms)
+  MAX_VIDEO_REMINDERS: 50,
+  
   // Maximum file size for video uploads (in bytes, default 2GB)
   MAX_VIDEO_FILE_SIZE: 2 * 1024 * 1024 * 1024,
   
@@ -33,4 +55,7 @@ export const APP_SETTINGS = {
   
   // Default video formats supported
   SUPPORTED_VIDEO_FORMATS: ['mp4', 'mov', 'avi', 'webm', 'mkv'],
+  
+  // Second of the video captured for generated thumbnails
+  THUMBNAIL_CAPTURE_SECOND: 1,
 };
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeProfile } from '../../test/fixtures';
+import { MemoryFilesystem } from '../../test/filesystem';
+import { MP4_HEAD } from '../../test/media';
+import { useOfflineApi } from '../../test/offline';
+import { offlineApiService } from '../api/offline-api-service';
+import { apiService } from './api-service';
+
+let files: MemoryFilesystem;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  ({ files } = await useOfflineApi());
+  const { id, ...profile } = makeProfile();
+  await offlineApiService.createProfile(profile);
+});
+
+describe('ApiService.createVideoWithMetadata', () => {
+  it('imports a content URI under its display name and keeps the original', async () => {
+    const contentUri = 'content://media/external/video/media/42';
+    files.put(contentUri, MP4_HEAD);
+
+    const video = await apiService.createVideoWithMetadata({
+      title: 'Holiday',
+      description: '',
+      profileId: 1,
+      scheduleDate: '2026-03-02',
+      filePath: contentUri,
+      fileName: 'holiday.mp4',
+      fileSize: MP4_HEAD.length
+    });
+
+    expect(video).toMatchObject({ filePath: 'videos/holiday.mp4', isFileUploaded: true, scheduleDate: '2026-03-02T09:00' });
+    expect(files.files.has(contentUri)).toBe(true);
+
+    await offlineApiService.deleteVideo(video.id);
+    expect(files.files.has(contentUri)).toBe(true);
+  });
+
+  it('removes the video again when the file is rejected', async () => {
+    const contentUri = 'content://media/external/video/media/43';
+    files.put(contentUri, MP4_HEAD);
+
+    await expect(apiService.createVideoWithMetadata({
+      title: 'Notes',
+      description: '',
+      profileId: 1,
+      filePath: contentUri,
+      fileName: 'notes.txt',
+      fileSize: MP4_HEAD.length,
+      scheduleDate: '2026-03-02'
+    })).rejects.toMatchObject({ name: 'VideoValidationError' });
+
+    expect(await offlineApiService.getVideos()).toEqual([]);
+  });
+});
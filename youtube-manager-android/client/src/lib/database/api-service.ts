@@ -0,0 +1,240 @@
+import { offlineApiService } from '../api/offline-api-service';
+import { filesystemService } from './filesystem-service';
+import { PushResetPolicy, PushResetPolicyType, getPushLimitState } from './push-limit';
+import { NewProfile, NewScheduleTemplate, NewVideo, Profile, PushEvent, ScheduleTemplate, Video } from './schema';
+import { normalizeScheduleDate } from '../scheduling/schedule-time';
+import { ScheduleSlot } from '../scheduling/schedule-templates';
+
+/**
+ * API service facade used by the offline store
+ * Wraps OfflineApiService and adds the convenience operations the store
+ * needs on top of the plain REST-style methods
+ */
+
+// MIME types for opening video files with an external player
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska'
+};
+
+const DEFAULT_MIME_TYPE = 'video/*';
+
+export interface ProfilePushCount {
+  dailyPushCount: number;
+  dailyPushLimit: number;
+  lastReset: string | null;
+  // ISO time the current window ends, or null if no window is running
+  resetsAt: string | null;
+  // The profile's own reset settings; null policy means the app default
+  pushResetPolicy: PushResetPolicyType | null;
+  pushResetTimeZone: string | null;
+  // The policy actually in effect
+  resetPolicy: PushResetPolicy;
+}
+
+export interface VideoImportInfo {
+  title: string;
+  description: string;
+  profileId: number;
+  // Omit to take the profile's next free template slot
+  scheduleDate?: Date | string | null;
+  filePath: string;
+  fileName: string;
+  fileSize: number;
+}
+
+/**
+ * Work out a video's MIME type from its file extension
+ */
+export function getVideoMimeType(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return VIDEO_MIME_TYPES[extension] || DEFAULT_MIME_TYPE;
+}
+
+export class ApiService {
+  private static instance: ApiService;
+
+  private constructor() {}
+
+  public static getInstance(): ApiService {
+    if (!ApiService.instance) {
+      ApiService.instance = new ApiService();
+    }
+    return ApiService.instance;
+  }
+
+  // Profile methods
+  getProfiles(): Promise<Profile[]> {
+    return offlineApiService.getProfiles();
+  }
+
+  getProfile(id: number): Promise<Profile | null> {
+    return offlineApiService.getProfile(id);
+  }
+
+  createProfile(profile: NewProfile): Promise<Profile> {
+    return offlineApiService.createProfile(profile);
+  }
+
+  updateProfile(id: number, profile: Partial<Profile>): Promise<Profile | null> {
+    return offlineApiService.updateProfile(id, profile);
+  }
+
+  deleteProfile(id: number): Promise<boolean> {
+    return offlineApiService.deleteProfile(id);
+  }
+
+  async getProfilePushCount(profileId: number): Promise<ProfilePushCount> {
+    const profile = await offlineApiService.getProfile(profileId);
+    if (!profile) {
+      throw new Error(`Profile ${profileId} not found`);
+    }
+    const state = getPushLimitState(profile);
+    return {
+      dailyPushCount: state.dailyPushCount,
+      dailyPushLimit: state.dailyPushLimit,
+      lastReset: profile.lastPushReset,
+      resetsAt: state.resetsAt ? state.resetsAt.toISOString() : null,
+      pushResetPolicy: profile.pushResetPolicy,
+      pushResetTimeZone: profile.pushResetTimeZone,
+      resetPolicy: state.policy
+    };
+  }
+
+  resetProfilePushCount(profileId: number, note?: string | null): Promise<Profile | null> {
+    return offlineApiService.resetProfilePushCount(profileId, note);
+  }
+
+  // Push history methods
+  getPushEventsByProfile(profileId: number, limit?: number): Promise<PushEvent[]> {
+    return offlineApiService.getPushEventsByProfile(profileId, limit);
+  }
+
+  getPushEventsByVideo(videoId: number): Promise<PushEvent[]> {
+    return offlineApiService.getPushEventsByVideo(videoId);
+  }
+
+  // Schedule template methods
+  getScheduleTemplates(profileId: number): Promise<ScheduleTemplate[]> {
+    return offlineApiService.getScheduleTemplates(profileId);
+  }
+
+  createScheduleTemplate(template: NewScheduleTemplate): Promise<ScheduleTemplate> {
+    return offlineApiService.createScheduleTemplate(template);
+  }
+
+  updateScheduleTemplate(id: number, template: Partial<ScheduleTemplate>): Promise<ScheduleTemplate | null> {
+    return offlineApiService.updateScheduleTemplate(id, template);
+  }
+
+  deleteScheduleTemplate(id: number): Promise<boolean> {
+    return offlineApiService.deleteScheduleTemplate(id);
+  }
+
+  getNextFreeSlot(profileId: number): Promise<ScheduleSlot> {
+    return offlineApiService.getNextFreeSlot(profileId);
+  }
+
+  assignVideoToNextFreeSlot(videoId: number): Promise<Video | null> {
+    return offlineApiService.assignVideoToNextFreeSlot(videoId);
+  }
+
+  // Video methods
+  getVideos(): Promise<Video[]> {
+    return offlineApiService.getVideos();
+  }
+
+  getTodayVideos(): Promise<Video[]> {
+    return offlineApiService.getTodayVideos();
+  }
+
+  getVideo(id: number): Promise<Video | null> {
+    return offlineApiService.getVideo(id);
+  }
+
+  getVideosByProfile(profileId: number): Promise<Video[]> {
+    return offlineApiService.getVideosByProfile(profileId);
+  }
+
+  createVideo(video: NewVideo): Promise<Video> {
+    return offlineApiService.createVideo(video);
+  }
+
+  updateVideo(id: number, video: Partial<Video>): Promise<Video | null> {
+    return offlineApiService.updateVideo(id, video);
+  }
+
+  deleteVideo(id: number): Promise<boolean> {
+    return offlineApiService.deleteVideo(id);
+  }
+
+  markVideoAsUploaded(id: number, note?: string | null): Promise<Video | null> {
+    return offlineApiService.markVideoAsUploaded(id, note);
+  }
+
+  revertVideoUpload(id: number, note?: string | null): Promise<Video | null> {
+    return offlineApiService.revertVideoUpload(id, note);
+  }
+
+  /**
+   * Open a video's file in the device's default player
+   * @returns false if the video has no file attached
+   */
+  async openVideoFile(id: number): Promise<boolean> {
+    const video = await offlineApiService.getVideo(id);
+    if (!video) return false;
+
+    // Placeholder stubs are not playable, so open the original instead
+    const path = video.isPlaceholder && video.originalFilePath ? video.originalFilePath : video.filePath;
+    if (!path) return false;
+
+    await filesystemService.openFile(path, getVideoMimeType(path));
+    return true;
+  }
+
+  /**
+   * Create a video from a file already on the device
+   * The file is copied into videos/ (or stubbed in placeholder mode), so
+   * deleting the video later never deletes the user's own file
+   * @throws VideoValidationError if the file cannot be imported
+   */
+  async createVideoWithMetadata(info: VideoImportInfo): Promise<Video> {
+    const video = await offlineApiService.createVideo({
+      profileId: info.profileId,
+      title: info.title,
+      description: info.description,
+      filePath: null,
+      fileName: info.fileName,
+      fileSize: info.fileSize,
+      originalFilePath: null,
+      originalFileSize: null,
+      thumbnailPath: null,
+      duration: null,
+      scheduleDate: info.scheduleDate ? normalizeScheduleDate(info.scheduleDate) : null,
+      status: 'pending',
+      uploadedDate: null,
+      youtubeLink: null,
+      isFileUploaded: false,
+      isPlaceholder: false
+    });
+
+    try {
+      if (!await offlineApiService.uploadVideoFile(video.id, info.filePath, {
+        fileName: info.fileName,
+        fileSize: info.fileSize
+      })) {
+        throw new Error(`Could not copy ${info.fileName} into app storage`);
+      }
+    } catch (error) {
+      await offlineApiService.deleteVideo(video.id);
+      throw error;
+    }
+    return (await offlineApiService.getVideo(video.id)) ?? video;
+  }
+}
+
+export const apiService = ApiService.getInstance();
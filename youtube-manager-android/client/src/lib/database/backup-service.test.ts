@@ -0,0 +1,216 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { MemoryFilesystem } from '../../test/filesystem';
+import { MP4_HEAD } from '../../test/media';
+import { useOfflineApi } from '../../test/offline';
+import { offlineApiService } from '../api/offline-api-service';
+import { BackupArchiveError, BackupManifest, backupService } from './backup-service';
+import { filesystemService } from './filesystem-service';
+import { Sha256 } from './sha256';
+import { ZipWriter } from './zip-writer';
+
+let files: MemoryFilesystem;
+
+// A video file spanning several of ZipReader's 1 MB blocks
+const LARGE_VIDEO = new Uint8Array(2.5 * 1024 * 1024);
+LARGE_VIDEO.set(MP4_HEAD);
+for (let i = MP4_HEAD.length; i < LARGE_VIDEO.length; i++) LARGE_VIDEO[i] = i % 251;
+
+async function seedLibrary() {
+  const { id, ...profile } = makeProfile({ name: 'Cooking', channelLink: 'https://youtube.com/@cooking' });
+  const created = await offlineApiService.createProfile(profile);
+
+  files.put('videos/pasta.mp4', LARGE_VIDEO);
+  files.put('thumbs/pasta.jpg', 'jpeg bytes');
+  const { id: _, ...video } = makeVideo({
+    profileId: created.id,
+    title: 'Pasta',
+    scheduleDate: '2026-03-02T17:00',
+    filePath: 'videos/pasta.mp4',
+    fileName: 'pasta.mp4',
+    fileSize: LARGE_VIDEO.length,
+    thumbnailPath: 'thumbs/pasta.jpg',
+    isFileUploaded: true
+  });
+  await offlineApiService.createVideo(video);
+  // No file for this one
+  const { id: __, ...plain } = makeVideo({ profileId: created.id, title: 'Soup', scheduleDate: '2026-03-03T17:00' });
+  await offlineApiService.createVideo(plain);
+}
+
+async function exportBackup(includeVideos: boolean): Promise<Uint8Array> {
+  const { path } = await offlineApiService.exportArchive({ includeVideos });
+  return files.bytes(path).slice();
+}
+
+// An archive with a hand-written manifest, for archives the app would never write
+async function craftArchive(entries: Record<string, string>, manifest: Partial<BackupManifest> = {}): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  const zip = new ZipWriter(async bytes => { parts.push(bytes.slice()); });
+  const listed = [];
+  for (const [path, text] of Object.entries(entries)) {
+    const bytes = new TextEncoder().encode(text);
+    await zip.addFile(path, [bytes]);
+    listed.push({ path, size: bytes.length, sha256: new Sha256().update(bytes).digestHex() });
+  }
+  const fullManifest = {
+    format: 'youtube-scheduler-backup',
+    formatVersion: 1,
+    schemaVersion: 1,
+    createdAt: '2026-03-01T00:00:00Z',
+    includesVideos: false,
+    profileCount: 0,
+    videoCount: 0,
+    files: listed,
+    ...manifest
+  };
+  await zip.addFile('manifest.json', [new TextEncoder().encode(JSON.stringify(fullManifest))]);
+  await zip.close();
+  return new Uint8Array(await new Blob(parts).arrayBuffer());
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  ({ files } = await useOfflineApi());
+});
+
+describe('backup round trip', () => {
+  it('restores profiles, videos and their files on a fresh device', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(true);
+
+    ({ files } = await useOfflineApi());
+    const { manifest, summary } = await offlineApiService.importArchive(new Blob([archive]), 'merge');
+
+    expect(manifest).toMatchObject({ includesVideos: true, profileCount: 1, videoCount: 2 });
+    expect(summary).toMatchObject({ profilesCreated: 1, videosCreated: 2 });
+
+    const [profile] = await offlineApiService.getProfiles();
+    expect(profile).toMatchObject({ name: 'Cooking', channelLink: 'https://youtube.com/@cooking' });
+
+    const videos = await offlineApiService.getVideos();
+    const pasta = videos.find(video => video.title === 'Pasta')!;
+    expect(pasta).toMatchObject({
+      profileId: profile.id,
+      scheduleDate: '2026-03-02T17:00',
+      filePath: 'videos/pasta.mp4',
+      thumbnailPath: 'thumbs/pasta.jpg',
+      isFileUploaded: true
+    });
+    expect(Buffer.compare(files.bytes('videos/pasta.mp4'), LARGE_VIDEO)).toBe(0);
+    expect(files.text('thumbs/pasta.jpg')).toBe('jpeg bytes');
+    expect(videos.find(video => video.title === 'Soup')).toMatchObject({ filePath: null, isFileUploaded: false });
+  });
+
+  it('streams restored files to the device a block at a time', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(true);
+    ({ files } = await useOfflineApi());
+
+    await backupService.extractArchive(new Blob([archive]));
+
+    const videoWrites = vi.mocked(filesystemService.writeFile).mock.calls.filter(([path]) => path === 'videos/pasta.mp4');
+    const videoAppends = vi.mocked(filesystemService.appendFile).mock.calls.filter(([path]) => path === 'videos/pasta.mp4');
+    expect(videoWrites).toHaveLength(1);
+    expect(videoAppends).toHaveLength(2);
+  });
+
+  it('leaves video files out unless asked to include them', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(false);
+    ({ files } = await useOfflineApi());
+
+    await offlineApiService.importArchive(archive, 'merge');
+
+    expect(files.files.has('videos/pasta.mp4')).toBe(false);
+    expect(files.files.has('thumbs/pasta.jpg')).toBe(true);
+    expect((await offlineApiService.getVideos()).find(video => video.title === 'Pasta'))
+      .toMatchObject({ filePath: null, isFileUploaded: false, thumbnailPath: 'thumbs/pasta.jpg' });
+  });
+
+  it('does not overwrite a file already on the device', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(true);
+    ({ files } = await useOfflineApi());
+    files.put('videos/pasta.mp4', 'someone else');
+
+    await offlineApiService.importArchive(archive, 'merge');
+
+    expect(files.text('videos/pasta.mp4')).toBe('someone else');
+    const pasta = (await offlineApiService.getVideos()).find(video => video.title === 'Pasta')!;
+    expect(pasta.filePath).toMatch(/^videos\/restored_\d+_pasta\.mp4$/);
+    expect(Buffer.compare(files.bytes(pasta.filePath!), LARGE_VIDEO)).toBe(0);
+  });
+
+  it('previews a restore without writing anything', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(true);
+    ({ files } = await useOfflineApi());
+
+    const report = await offlineApiService.previewArchive(archive, 'merge');
+
+    expect(report.counts).toMatchObject({ new: 3 });
+    expect(files.files.size).toBe(0);
+    expect(await offlineApiService.getVideos()).toEqual([]);
+  });
+});
+
+describe('restoring a damaged archive', () => {
+  it('rejects a corrupt video and removes what was already written', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(true);
+    // Damage a byte in the middle of the video entry
+    archive[Math.floor(archive.length / 2)] ^= 0xff;
+    ({ files } = await useOfflineApi());
+
+    await expect(offlineApiService.importArchive(archive, 'merge')).rejects.toMatchObject({
+      name: 'BackupArchiveError',
+      problems: ['videos/pasta.mp4 is corrupt']
+    });
+    expect(files.files.size).toBe(0);
+    expect(await offlineApiService.getVideos()).toEqual([]);
+  });
+
+  it('reports a corrupt file when previewing', async () => {
+    await seedLibrary();
+    const archive = await exportBackup(true);
+    archive[Math.floor(archive.length / 2)] ^= 0xff;
+
+    await expect(backupService.readArchive(archive)).rejects.toThrow('videos/pasta.mp4 is corrupt');
+  });
+
+  it('rejects a file that is not a zip archive', async () => {
+    await expect(backupService.readArchive(new TextEncoder().encode('{"profiles": []}')))
+      .rejects.toThrow(new BackupArchiveError('Not a valid backup archive'));
+  });
+
+  it('rejects paths outside thumbs/ and videos/', async () => {
+    const archive = await craftArchive({ 'data.json': '{"profiles":[],"videos":[]}', '../escape.txt': 'x' });
+
+    await expect(backupService.extractArchive(archive)).rejects.toMatchObject({ problems: ['../escape.txt'] });
+    expect(files.files.size).toBe(0);
+  });
+
+  it('rejects a data.json that is not JSON or has the wrong shape', async () => {
+    await expect(backupService.readArchive(await craftArchive({ 'data.json': '{not json' })))
+      .rejects.toThrow('data.json is not valid JSON');
+    await expect(backupService.readArchive(await craftArchive({ 'data.json': '{"profiles":[1],"videos":[]}' })))
+      .rejects.toThrow('data.json does not hold profiles and videos');
+  });
+
+  it('rejects a backup from a newer app', async () => {
+    const archive = await craftArchive({ 'data.json': '{"profiles":[],"videos":[]}' }, { formatVersion: 99 });
+
+    await expect(backupService.readArchive(archive)).rejects.toThrow('Backup was made by a newer version of the app');
+  });
+
+  it('rejects a file the manifest lists but the archive lacks', async () => {
+    const archive = await craftArchive(
+      { 'data.json': '{"profiles":[],"videos":[]}' },
+      { files: [{ path: 'data.json', size: 27, sha256: new Sha256().update(new TextEncoder().encode('{"profiles":[],"videos":[]}')).digestHex() }, { path: 'videos/a.mp4', size: 1, sha256: '' }] }
+    );
+
+    await expect(backupService.readArchive(archive)).rejects.toMatchObject({ problems: ['videos/a.mp4 is missing'] });
+  });
+});
@@ -0,0 +1,426 @@
+import { format } from 'date-fns';
+import { sqliteService } from './sqlite-service';
+import { filesystemService } from './filesystem-service';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { Sha256 } from './sha256';
+import { ZipWriter } from './zip-writer';
+import { ZipReader, zipSource } from './zip-reader';
+import { Profile, Video } from './schema';
+
+/**
+ * Backup archive format
+ * A zip holding manifest.json, data.json (the DB rows) and the thumbs/ and
+ * videos/ files the rows point at. Archives are written by ZipWriter and
+ * read back by ZipReader, both a block at a time. Paths in data.json are
+ * archive paths, which mirror the app's own directory layout under Documents.
+ */
+
+export const BACKUP_FORMAT = 'youtube-scheduler-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+// Archives are written here, under Documents
+export const BACKUP_DIRECTORY = 'backups';
+
+const MANIFEST_ENTRY = 'manifest.json';
+const DATA_ENTRY = 'data.json';
+
+export interface BackupFileEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  includesVideos: boolean;
+  profileCount: number;
+  videoCount: number;
+  // Every entry except the manifest itself, including data.json
+  files: BackupFileEntry[];
+}
+
+export interface BackupData {
+  profiles: Profile[];
+  videos: Video[];
+}
+
+export interface CreateBackupOptions {
+  // Bundle the video files too; without them only thumbnails are included
+  includeVideos?: boolean;
+}
+
+export interface ExtractedBackup {
+  manifest: BackupManifest;
+  // Rows with paths rewritten to where the files were restored
+  data: BackupData;
+  // Files written to the device, so a failed import can remove them
+  writtenFiles: string[];
+}
+
+/**
+ * Error thrown when an archive is unreadable, from a newer app or corrupt
+ */
+export class BackupArchiveError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(problems.length > 0 ? `${message}: ${problems.join('; ')}` : message);
+    this.name = 'BackupArchiveError';
+  }
+}
+
+function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Media entries may only sit directly under thumbs/ or videos/
+const MEDIA_ENTRY_PATTERN = /^(thumbs|videos)\/[^/\\]+$/;
+
+function isSafeEntryPath(path: unknown): boolean {
+  return typeof path === 'string' && (
+    path === DATA_ENTRY ||
+    (MEDIA_ENTRY_PATTERN.test(path) && !['.', '..'].includes(baseName(path)))
+  );
+}
+
+export class BackupService {
+  private static instance: BackupService;
+
+  private constructor() {}
+
+  public static getInstance(): BackupService {
+    if (!BackupService.instance) {
+      BackupService.instance = new BackupService();
+    }
+    return BackupService.instance;
+  }
+
+  /**
+   * Write a backup archive of every profile and video to a file
+   * Files are streamed into the archive a block at a time, so includeVideos
+   * works for libraries far larger than the device's memory
+   * @param destination Path under Documents; replaced if it exists
+   */
+  async createArchive(destination: string, options: CreateBackupOptions = {}): Promise<BackupManifest> {
+    const includeVideos = options.includeVideos ?? false;
+    const profiles = await sqliteService.getProfiles();
+    const videos = await sqliteService.getVideos();
+
+    let created = false;
+    const zip = new ZipWriter(async bytes => {
+      if (created) {
+        await filesystemService.appendFile(destination, bytes);
+      } else {
+        await filesystemService.writeFile(destination, bytes, { recursive: true });
+        created = true;
+      }
+    });
+    const files: BackupFileEntry[] = [];
+    const usedPaths = new Set<string>();
+
+    const addFile = async (archivePath: string, chunks: Iterable<Uint8Array> | AsyncIterable<Uint8Array>) => {
+      const hash = new Sha256();
+      const size = await zip.addFile(archivePath, (async function* () {
+        for await (const chunk of chunks) {
+          hash.update(chunk);
+          yield chunk;
+        }
+      })());
+      files.push({ path: archivePath, size, sha256: hash.digestHex() });
+      usedPaths.add(archivePath);
+    };
+
+    // Two videos from different folders can share a file name
+    const archivePathFor = (directory: string, sourcePath: string, videoId: number) => {
+      const path = `${directory}/${baseName(sourcePath)}`;
+      return usedPaths.has(path) ? `${directory}/${videoId}_${baseName(sourcePath)}` : path;
+    };
+
+    try {
+      const archivedVideos: Video[] = [];
+      for (const video of videos) {
+        let thumbnailPath: string | null = null;
+        if (video.thumbnailPath) {
+          try {
+            const bytes = base64ToBytes(await filesystemService.readFile(video.thumbnailPath));
+            thumbnailPath = archivePathFor('thumbs', video.thumbnailPath, video.id);
+            await addFile(thumbnailPath, [bytes]);
+          } catch (error) {
+            console.error(`Thumbnail for video ${video.id} could not be archived:`, error);
+          }
+        }
+
+        let filePath: string | null = null;
+        // Placeholders only hold a stub, so archive the original file instead
+        const sourcePath = video.isPlaceholder ? video.originalFilePath : video.filePath;
+        // A missing file is skipped; one that fails part way through fails the
+        // backup, since the archive cannot take back what was written
+        if (includeVideos && sourcePath && await filesystemService.fileExists(sourcePath)) {
+          filePath = archivePathFor('videos', sourcePath, video.id);
+          await addFile(filePath, filesystemService.readFileChunks(sourcePath));
+        } else if (includeVideos && sourcePath) {
+          console.error(`File for video ${video.id} could not be archived: ${sourcePath} is missing`);
+        }
+
+        archivedVideos.push({
+          ...video,
+          thumbnailPath,
+          filePath,
+          isFileUploaded: filePath !== null,
+          isPlaceholder: false
+        });
+      }
+
+      const data: BackupData = { profiles, videos: archivedVideos };
+      await addFile(DATA_ENTRY, [new TextEncoder().encode(JSON.stringify(data, null, 2))]);
+
+      const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        createdAt: format(new Date(), "yyyy-MM-dd'T'HH:mm:ssXXX"),
+        includesVideos: includeVideos,
+        profileCount: profiles.length,
+        videoCount: videos.length,
+        files
+      };
+      // The manifest goes last, once every checksum is known
+      await zip.addFile(MANIFEST_ENTRY, [new TextEncoder().encode(JSON.stringify(manifest, null, 2))]);
+      await zip.close();
+      return manifest;
+    } catch (error) {
+      // Never leave a truncated archive behind
+      if (created) {
+        await filesystemService.deleteFile(destination).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read and verify an archive without touching the device
+   * Every file is streamed through its checksum, so nothing larger than a
+   * block is held in memory
+   * @throws BackupArchiveError if the manifest is invalid, lists a path
+   * outside thumbs/ and videos/, or a checksum fails
+   */
+  async readArchive(archive: Blob | ArrayBuffer | Uint8Array): Promise<{ manifest: BackupManifest, data: BackupData }> {
+    const { reader, manifest, data } = await this.openArchive(archive);
+
+    const problems: string[] = [];
+    for (const entry of manifest.files) {
+      if (entry.path !== DATA_ENTRY && !await this.streamEntry(reader, entry)) {
+        problems.push(`${entry.path} is corrupt`);
+      }
+    }
+    if (problems.length > 0) {
+      throw new BackupArchiveError('Backup archive failed verification', problems);
+    }
+    return { manifest, data };
+  }
+
+  /**
+   * Verify an archive, write its files back under thumbs/ and videos/ and
+   * rewrite the row paths to match. The rows themselves are not inserted.
+   * Each file is checked as it is written, a block at a time.
+   * @throws BackupArchiveError if the archive fails verification
+   */
+  async extractArchive(archive: Blob | ArrayBuffer | Uint8Array): Promise<ExtractedBackup> {
+    const { reader, manifest, data } = await this.openArchive(archive);
+
+    // Archive path -> path on this device
+    const restoredPaths = new Map<string, string>();
+    const writtenFiles: string[] = [];
+
+    try {
+      for (const entry of manifest.files) {
+        if (entry.path === DATA_ENTRY) continue;
+
+        let targetPath = entry.path;
+        // Never overwrite a file that already belongs to another video
+        if (await filesystemService.fileExists(targetPath)) {
+          const directory = targetPath.split('/').slice(0, -1).join('/');
+          targetPath = `${directory}/restored_${Date.now()}_${baseName(entry.path)}`;
+        }
+
+        let created = false;
+        const write = async (bytes: Uint8Array) => {
+          if (created) {
+            await filesystemService.appendFile(targetPath, bytes);
+          } else {
+            await filesystemService.writeFile(targetPath, bytes, { recursive: true });
+            created = true;
+            writtenFiles.push(targetPath);
+          }
+        };
+
+        const valid = await this.streamEntry(reader, entry, write);
+        if (!valid) {
+          throw new BackupArchiveError('Backup archive failed verification', [`${entry.path} is corrupt`]);
+        }
+        // An empty file has no block to create it with
+        if (!created) {
+          await write(new Uint8Array(0));
+        }
+        restoredPaths.set(entry.path, targetPath);
+      }
+    } catch (error) {
+      await this.removeFiles(writtenFiles);
+      throw error;
+    }
+
+    const restore = (path: string | null) => (path ? restoredPaths.get(path) ?? null : null);
+    const videos = data.videos.map(video => {
+      const filePath = restore(video.filePath);
+      return {
+        ...video,
+        filePath,
+        thumbnailPath: restore(video.thumbnailPath),
+        isFileUploaded: filePath !== null,
+        isPlaceholder: false
+      };
+    });
+
+    return { manifest, data: { profiles: data.profiles, videos }, writtenFiles };
+  }
+
+  /**
+   * Open an archive and read its manifest and data.json
+   * The media files are only checked to be present; their checksums are
+   * checked when they are streamed
+   * @throws BackupArchiveError if the archive is not a backup or data.json is invalid
+   */
+  private async openArchive(archive: Blob | ArrayBuffer | Uint8Array): Promise<{ reader: ZipReader, manifest: BackupManifest, data: BackupData }> {
+    let reader: ZipReader;
+    try {
+      reader = await ZipReader.open(zipSource(archive));
+    } catch (error) {
+      throw new BackupArchiveError('Not a valid backup archive');
+    }
+
+    const manifest = await this.readJsonEntry<BackupManifest>(reader, MANIFEST_ENTRY);
+    if (!isRecord(manifest) || manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.files)) {
+      throw new BackupArchiveError('Unrecognized backup manifest');
+    }
+    if (manifest.formatVersion > BACKUP_FORMAT_VERSION || manifest.schemaVersion > LATEST_SCHEMA_VERSION) {
+      throw new BackupArchiveError('Backup was made by a newer version of the app');
+    }
+
+    const unsafePaths = manifest.files.filter(entry => !isSafeEntryPath(entry?.path));
+    if (unsafePaths.length > 0) {
+      throw new BackupArchiveError(
+        'Backup archive lists files outside thumbs/ and videos/',
+        unsafePaths.map(entry => String(entry?.path))
+      );
+    }
+
+    const problems = manifest.files
+      .filter(entry => !reader.getEntry(entry.path))
+      .map(entry => `${entry.path} is missing`);
+    const dataEntry = manifest.files.find(entry => entry.path === DATA_ENTRY);
+    if (!dataEntry) {
+      problems.push(`${DATA_ENTRY} is not listed in the manifest`);
+    }
+    if (problems.length > 0) {
+      throw new BackupArchiveError('Backup archive failed verification', problems);
+    }
+
+    const data = await this.readJsonEntry<BackupData>(reader, DATA_ENTRY, dataEntry);
+    if (!isRecord(data) || !Array.isArray(data.profiles) || !Array.isArray(data.videos) ||
+        !data.profiles.every(isRecord) || !data.videos.every(isRecord)) {
+      throw new BackupArchiveError(`${DATA_ENTRY} does not hold profiles and videos`);
+    }
+    return { reader, manifest, data };
+  }
+
+  /**
+   * Read a small JSON entry, checking it against its manifest entry if it has one
+   * @throws BackupArchiveError if the entry is missing, corrupt or not valid JSON
+   */
+  private async readJsonEntry<T>(reader: ZipReader, name: string, expected?: BackupFileEntry): Promise<T> {
+    const entry = reader.getEntry(name);
+    if (!entry) {
+      throw new BackupArchiveError(`Backup archive has no ${name}`);
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = await reader.readEntryBytes(entry);
+    } catch (error) {
+      throw new BackupArchiveError('Backup archive failed verification', [`${name} is corrupt`]);
+    }
+    if (expected && (bytes.length !== expected.size || new Sha256().update(bytes).digestHex() !== expected.sha256)) {
+      throw new BackupArchiveError('Backup archive failed verification', [`${name} is corrupt`]);
+    }
+
+    try {
+      return JSON.parse(new TextDecoder().decode(bytes)) as T;
+    } catch (error) {
+      throw new BackupArchiveError(`${name} is not valid JSON`);
+    }
+  }
+
+  /**
+   * Stream an entry through its checksum, handing each block to write
+   * @returns Whether the entry matched its manifest size and checksum;
+   * errors from write are thrown, not counted as corruption
+   */
+  private async streamEntry(
+    reader: ZipReader,
+    expected: BackupFileEntry,
+    write?: (bytes: Uint8Array) => Promise<void>
+  ): Promise<boolean> {
+    const hash = new Sha256();
+    let size = 0;
+    const chunks = reader.readEntry(reader.getEntry(expected.path)!);
+
+    try {
+      while (true) {
+        let next: IteratorResult<Uint8Array>;
+        try {
+          next = await chunks.next();
+        } catch (error) {
+          console.error(`Error reading ${expected.path} from backup archive:`, error);
+          return false;
+        }
+        if (next.done) break;
+
+        hash.update(next.value);
+        size += next.value.length;
+        // Stop early rather than write past the size the manifest promised
+        if (size > expected.size) return false;
+        if (write) {
+          await write(next.value);
+        }
+      }
+    } finally {
+      // Release the reader when stopping early or when write fails
+      await chunks.return(undefined).catch(() => undefined);
+    }
+    return size === expected.size && hash.digestHex() === expected.sha256;
+  }
+
+  /**
+   * Remove files written by extractArchive after a failed import
+   */
+  async removeFiles(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      await filesystemService.deleteFile(path).catch(e => console.error('Error removing restored file:', e));
+    }
+  }
+}
+
+export const backupService = BackupService.getInstance();
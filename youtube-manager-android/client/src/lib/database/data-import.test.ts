@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { ImportData, planImport, profileKey, summarizeImportPlan, videoKey } from './data-import';
+
+const local: ImportData = {
+  profiles: [makeProfile({ id: 1, name: 'Cooking', channelLink: 'https://youtube.com/@cooking' })],
+  videos: [makeVideo({ id: 10, profileId: 1, title: 'Pasta', scheduleDate: '2026-03-02T17:00' })]
+};
+
+// The same library exported from another device, where the ids differ
+const incoming: ImportData = {
+  profiles: [
+    makeProfile({ id: 7, name: 'Cooking!', channelLink: 'https://YouTube.com/@cooking/' }),
+    makeProfile({ id: 8, name: 'Travel', channelLink: 'https://youtube.com/@travel' })
+  ],
+  videos: [
+    makeVideo({ id: 70, profileId: 7, title: ' pasta ', scheduleDate: '2026-03-02T19:30', description: 'New cut' }),
+    makeVideo({ id: 71, profileId: 8, title: 'Lisbon', scheduleDate: '2026-03-04T09:00' })
+  ]
+};
+
+describe('natural keys', () => {
+  it('matches profiles by channel link, ignoring case and trailing slashes', () => {
+    expect(profileKey({ name: 'A', channelLink: 'https://YouTube.com/@cooking/' }))
+      .toBe(profileKey({ name: 'B', channelLink: 'https://youtube.com/@cooking' }));
+  });
+
+  it('falls back to the name for profiles without a link', () => {
+    expect(profileKey({ name: ' Cooking ', channelLink: '' })).toBe('name:cooking');
+  });
+
+  it('matches videos by title and schedule day, not time', () => {
+    expect(videoKey('link:x', { title: 'Pasta', scheduleDate: '2026-03-02T09:00' }))
+      .toBe(videoKey('link:x', { title: ' pasta', scheduleDate: '2026-03-02T21:00' }));
+    expect(videoKey('link:x', { title: 'Pasta', scheduleDate: '2026-03-02T09:00' }))
+      .not.toBe(videoKey('link:x', { title: 'Pasta', scheduleDate: '2026-03-03T09:00' }));
+  });
+});
+
+describe('planImport', () => {
+  it('merges matching rows and creates the rest', () => {
+    const plan = planImport(local, incoming, 'merge');
+
+    expect(plan.profiles.map(step => [step.action, step.existingId])).toEqual([['update', 1], ['create', null]]);
+    expect(plan.videos.map(step => [step.action, step.existingId])).toEqual([['update', 10], ['create', null]]);
+    expect(plan.videos[0].changes).toMatchObject({ description: 'New cut', scheduleDate: '2026-03-02T19:30' });
+  });
+
+  it('leaves matching rows alone with skip-existing', () => {
+    const plan = planImport(local, incoming, 'skip-existing');
+
+    expect(plan.profiles.map(step => step.action)).toEqual(['skip', 'create']);
+    expect(plan.videos.map(step => step.action)).toEqual(['skip', 'create']);
+  });
+
+  it('creates every row with replace and counts what it removes', () => {
+    const plan = planImport(local, incoming, 'replace');
+
+    expect(plan.profiles.every(step => step.action === 'create')).toBe(true);
+    expect(plan.videos.every(step => step.action === 'create')).toBe(true);
+    expect(plan).toMatchObject({ removedProfileCount: 1, removedVideoCount: 1 });
+  });
+
+  it('folds duplicate rows within the import file into the first one', () => {
+    const plan = planImport({ profiles: [], videos: [] }, {
+      profiles: [incoming.profiles[1], makeProfile({ id: 9, name: 'Travel again', channelLink: 'https://youtube.com/@travel' })],
+      videos: [incoming.videos[1], { ...incoming.videos[1], id: 72, profileId: 9 }]
+    }, 'merge');
+
+    expect(plan.profiles[1]).toMatchObject({ action: 'skip', duplicateOf: 8 });
+    expect(plan.videos.map(step => step.action)).toEqual(['create', 'skip']);
+  });
+
+  it('sets aside videos whose profile is not in the import file', () => {
+    const orphan = makeVideo({ id: 80, profileId: 99 });
+    const plan = planImport(local, { ...incoming, videos: [orphan] }, 'merge');
+
+    expect(plan.orphanedVideos).toEqual([orphan]);
+    expect(summarizeImportPlan(plan, 2)).toMatchObject({ videosOrphaned: 1, invalidRecords: 2 });
+  });
+
+  it('keeps a local file and only moves the status where the state machine allows', () => {
+    const existing: ImportData = {
+      profiles: local.profiles,
+      videos: [{ ...local.videos[0], status: 'completed', filePath: 'videos/local.mp4' }]
+    };
+    const plan = planImport(existing, {
+      profiles: [incoming.profiles[0]],
+      videos: [{ ...incoming.videos[0], status: 'missed-schedule', filePath: 'videos/remote.mp4' }]
+    }, 'merge');
+
+    expect(plan.videos[0].changes).not.toHaveProperty('status');
+    expect(plan.videos[0].changes).not.toHaveProperty('filePath');
+  });
+});
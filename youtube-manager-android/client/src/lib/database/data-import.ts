@@ -0,0 +1,238 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { Profile, Video } from './schema';
+import { canTransition, isVideoStatus } from './video-status';
+
+/**
+ * Import planning for exported data
+ * Rows are matched to existing ones by natural key instead of id, since ids
+ * from another device mean nothing here:
+ *   profile: channelLink (or name when there is no link)
+ *   video:   profile + title + schedule day
+ * Planning is pure; sqliteService.applyImportPlan carries the plan out.
+ */
+
+export const IMPORT_STRATEGIES = ['merge', 'replace', 'skip-existing'] as const;
+
+// merge:         update matching rows, add new ones
+// replace:       delete everything first, then add all rows
+// skip-existing: leave matching rows alone, add new ones
+export type ImportStrategy = typeof IMPORT_STRATEGIES[number];
+
+export interface ImportData {
+  profiles: Profile[];
+  videos: Video[];
+}
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ProfileImportStep {
+  action: ImportAction;
+  // The profile as it appears in the import file
+  profile: Profile;
+  // Matched existing profile, for update and skip
+  existingId: number | null;
+  // Import-file id of an earlier profile with the same key
+  duplicateOf: number | null;
+  // Fields to write, for update
+  changes: Partial<Profile>;
+}
+
+export interface VideoImportStep {
+  action: ImportAction;
+  video: Video;
+  existingId: number | null;
+  changes: Partial<Video>;
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  profiles: ProfileImportStep[];
+  videos: VideoImportStep[];
+  // Videos whose profileId matches no profile in the import file
+  orphanedVideos: Video[];
+  // Rows deleted before importing (replace only)
+  removedProfileCount: number;
+  removedVideoCount: number;
+}
+
+export interface ImportSummary {
+  strategy: ImportStrategy;
+  profilesCreated: number;
+  profilesUpdated: number;
+  profilesSkipped: number;
+  videosCreated: number;
+  videosUpdated: number;
+  videosSkipped: number;
+  videosOrphaned: number;
+  profilesRemoved: number;
+  videosRemoved: number;
+  // Records dropped by validation before planning
+  invalidRecords: number;
+}
+
+export function isImportStrategy(value: unknown): value is ImportStrategy {
+  return typeof value === 'string' && (IMPORT_STRATEGIES as readonly string[]).includes(value);
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+export function profileKey(profile: Pick<Profile, 'name' | 'channelLink'>): string {
+  const link = normalizeText(profile.channelLink).replace(/\/+$/, '');
+  return link ? `link:${link}` : `name:${normalizeText(profile.name)}`;
+}
+
+export function videoKey(ownerKey: string, video: Pick<Video, 'title' | 'scheduleDate'>): string {
+  const date = parseISO(video.scheduleDate);
+  const day = isValid(date) ? format(date, 'yyyy-MM-dd') : video.scheduleDate;
+  return `${ownerKey}|${normalizeText(video.title)}|${day}`;
+}
+
+/**
+ * Fields a merge copies from an imported video onto its local match
+ * File fields are only taken when the local video has no file of its own,
+ * and the status only when the state machine allows the move
+ */
+function videoMergeChanges(existing: Video, incoming: Video): Partial<Video> {
+  const changes: Partial<Video> = {
+    title: incoming.title,
+    description: incoming.description,
+    scheduleDate: incoming.scheduleDate,
+    scheduleTimeZone: incoming.scheduleTimeZone ?? null,
+    duration: incoming.duration,
+    uploadedDate: incoming.uploadedDate,
+    youtubeLink: incoming.youtubeLink
+  };
+
+  if (isVideoStatus(incoming.status) && canTransition(existing.status, incoming.status)) {
+    changes.status = incoming.status;
+  }
+
+  if (!existing.filePath && incoming.filePath) {
+    Object.assign(changes, {
+      filePath: incoming.filePath,
+      fileName: incoming.fileName,
+      fileSize: incoming.fileSize,
+      originalFilePath: incoming.originalFilePath,
+      originalFileSize: incoming.originalFileSize,
+      isFileUploaded: incoming.isFileUploaded,
+      isPlaceholder: incoming.isPlaceholder
+    });
+  }
+  if (!existing.thumbnailPath && incoming.thumbnailPath) {
+    changes.thumbnailPath = incoming.thumbnailPath;
+  }
+
+  return changes;
+}
+
+/**
+ * Work out what importing the given data would do, without changing anything
+ */
+export function planImport(existing: ImportData, incoming: ImportData, strategy: ImportStrategy): ImportPlan {
+  const replacing = strategy === 'replace';
+  const existingProfiles = replacing ? [] : existing.profiles;
+  const existingVideos = replacing ? [] : existing.videos;
+
+  // Natural key -> existing profile
+  const profilesByKey = new Map(existingProfiles.map(p => [profileKey(p), p]));
+  // Natural key -> import-file id of the first profile with that key
+  const incomingProfileKeys = new Map<string, number>();
+  // Import-file profile id -> natural key
+  const ownerKeys = new Map<number, string>();
+
+  const profiles: ProfileImportStep[] = incoming.profiles.map(profile => {
+    const key = profileKey(profile);
+    ownerKeys.set(profile.id, key);
+
+    const duplicateOf = incomingProfileKeys.get(key);
+    if (duplicateOf !== undefined) {
+      return { action: 'skip', profile, existingId: null, duplicateOf, changes: {} };
+    }
+    incomingProfileKeys.set(key, profile.id);
+
+    const match = profilesByKey.get(key);
+    if (!match) {
+      return { action: 'create', profile, existingId: null, duplicateOf: null, changes: {} };
+    }
+    if (strategy === 'merge') {
+      const changes = {
+        name: profile.name,
+        channelName: profile.channelName,
+        channelLink: profile.channelLink,
+        dailyPushLimit: profile.dailyPushLimit,
+        pushResetPolicy: profile.pushResetPolicy,
+        pushResetTimeZone: profile.pushResetTimeZone
+      };
+      return { action: 'update', profile, existingId: match.id, duplicateOf: null, changes };
+    }
+    return { action: 'skip', profile, existingId: match.id, duplicateOf: null, changes: {} };
+  });
+
+  const existingOwnerKeys = new Map(existingProfiles.map(p => [p.id, profileKey(p)]));
+  const videosByKey = new Map<string, Video>();
+  for (const video of existingVideos) {
+    const ownerKey = existingOwnerKeys.get(video.profileId);
+    if (ownerKey) videosByKey.set(videoKey(ownerKey, video), video);
+  }
+
+  const orphanedVideos: Video[] = [];
+  const seenVideoKeys = new Set<string>();
+  const videos: VideoImportStep[] = [];
+  for (const video of incoming.videos) {
+    const ownerKey = ownerKeys.get(video.profileId);
+    if (!ownerKey) {
+      orphanedVideos.push(video);
+      continue;
+    }
+
+    const key = videoKey(ownerKey, video);
+    if (seenVideoKeys.has(key)) {
+      videos.push({ action: 'skip', video, existingId: null, changes: {} });
+      continue;
+    }
+    seenVideoKeys.add(key);
+
+    const match = videosByKey.get(key);
+    if (!match) {
+      videos.push({ action: 'create', video, existingId: null, changes: {} });
+    } else if (strategy === 'merge') {
+      videos.push({ action: 'update', video, existingId: match.id, changes: videoMergeChanges(match, video) });
+    } else {
+      videos.push({ action: 'skip', video, existingId: match.id, changes: {} });
+    }
+  }
+
+  return {
+    strategy,
+    profiles,
+    videos,
+    orphanedVideos,
+    removedProfileCount: replacing ? existing.profiles.length : 0,
+    removedVideoCount: replacing ? existing.videos.length : 0
+  };
+}
+
+/**
+ * Count the steps of a plan by action
+ * @param invalidRecords Records rejected before the plan was made
+ */
+export function summarizeImportPlan(plan: ImportPlan, invalidRecords = 0): ImportSummary {
+  const count = <T extends { action: ImportAction }>(steps: T[], action: ImportAction) =>
+    steps.filter(step => step.action === action).length;
+
+  return {
+    strategy: plan.strategy,
+    profilesCreated: count(plan.profiles, 'create'),
+    profilesUpdated: count(plan.profiles, 'update'),
+    profilesSkipped: count(plan.profiles, 'skip'),
+    videosCreated: count(plan.videos, 'create'),
+    videosUpdated: count(plan.videos, 'update'),
+    videosSkipped: count(plan.videos, 'skip'),
+    videosOrphaned: plan.orphanedVideos.length,
+    profilesRemoved: plan.removedProfileCount,
+    videosRemoved: plan.removedVideoCount,
+    invalidRecords
+  };
+}
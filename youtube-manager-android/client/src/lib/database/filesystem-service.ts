@@ -1,7 +1,39 @@
 import { Filesystem, Directory, ReadFileOptions, WriteFileOptions, FileInfo } from '@capacitor/filesystem';
+import { Capacitor } from '@capacitor/core';
 import { Device } from '@capacitor/device';
 import { FileOpener } from '@capacitor-community/file-opener';
 
+// Default block size for chunked copies (must be a multiple of 3 so each
+// base64 chunk decodes on its own without padding in the middle of a file)
+const DEFAULT_COPY_CHUNK_SIZE = 3 * 1024 * 1024;
+
+export interface CopyProgress {
+  bytesCopied: number;
+  totalBytes: number;
+}
+
+export interface ChunkedCopyOptions {
+  // Block size in bytes
+  chunkSize?: number;
+  // Called after every block is written
+  onProgress?: (progress: CopyProgress) => void;
+  // Abort the copy; the partial destination file is removed
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown when a chunked copy is cancelled or produces a bad file
+ */
+export class FileCopyError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'cancelled' | 'size-mismatch' | 'io'
+  ) {
+    super(message);
+    this.name = 'FileCopyError';
+  }
+}
+
 /**
  * Service for interacting with the device file system
  * Uses Capacitor Filesystem plugin for native operations
@@ -95,6 +127,22 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Append data to a file, creating it if needed
+   */
+  async appendFile(path: string, data: string | Uint8Array): Promise<void> {
+    try {
+      await Filesystem.appendFile({
+        path,
+        data: data instanceof Uint8Array ? this.arrayBufferToBase64(data) : data,
+        directory: Directory.Documents
+      });
+    } catch (error) {
+      console.error(`Error appending to file ${path}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Read a file
    */
@@ -130,20 +178,101 @@ export class FileSystemService {
 
   /**
    * Copy a file from source to destination
+   * Streams the file in fixed-size blocks so large videos never have to
+   * fit in memory, then verifies the destination size matches the source
    */
-  async copyFile(source: string, destination: string): Promise<string> {
+  async copyFile(source: string, destination: string, options: ChunkedCopyOptions = {}): Promise<string> {
+    const { onProgress, signal } = options;
+    // Round the block size up to a multiple of 3 (see DEFAULT_COPY_CHUNK_SIZE)
+    const chunkSize = Math.ceil((options.chunkSize || DEFAULT_COPY_CHUNK_SIZE) / 3) * 3;
+    
     try {
-      // Read the source file
-      const fileData = await this.readFile(source);
+      const totalBytes = await this.getFileSize(source);
+      
+      if (signal?.aborted) {
+        throw new FileCopyError('Copy cancelled', 'cancelled');
+      }
+      
+      // Ensure the destination directory exists
+      const dirPath = destination.split('/').slice(0, -1).join('/');
+      if (dirPath) {
+        await this.createDirectory(dirPath);
+      }
+      
+      if (this.isNative) {
+        await this.copyInChunks(source, destination, chunkSize, totalBytes, options);
+      } else {
+        // Chunked reads are native only, so the web build copies in one block
+        const fileData = await this.readFile(source);
+        await this.writeFile(destination, fileData);
+        onProgress?.({ bytesCopied: totalBytes, totalBytes });
+      }
+      
+      // Verify the copy before handing it back
+      const copiedBytes = await this.getFileSize(destination);
+      if (copiedBytes !== totalBytes) {
+        await this.deleteFile(destination).catch(() => undefined);
+        throw new FileCopyError(
+          `Copied file size ${copiedBytes} does not match source size ${totalBytes}`,
+          'size-mismatch'
+        );
+      }
       
-      // Write to destination
-      return this.writeFile(destination, fileData);
+      return this.getFileUri(destination);
     } catch (error) {
       console.error(`Error copying file from ${source} to ${destination}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Read a file one block at a time
+   * The next block is only read when the caller asks for it, so a slow
+   * consumer never has more than one block in memory
+   */
+  async *readFileChunks(path: string, chunkSize = DEFAULT_COPY_CHUNK_SIZE): AsyncGenerator<Uint8Array> {
+    if (!this.isNative) {
+      // Ranged reads are native only, so the web build reads in one block
+      yield this.base64ToBytes(await this.readFile(path));
+      return;
+    }
+    
+    const totalBytes = await this.getFileSize(path);
+    const uri = await this.getFileUri(path);
+    let offset = 0;
+    while (offset < totalBytes) {
+      const block = await this.readFileRange(uri, offset, Math.min(chunkSize, totalBytes - offset));
+      // The file shrank while it was being read
+      if (block.length === 0) return;
+      offset += block.length;
+      yield block;
+    }
+  }
+
+  /**
+   * Read the first bytes of a file without loading the whole file
+   */
+  async readFileHead(path: string, byteCount: number): Promise<Uint8Array> {
+    try {
+      const uri = await this.getFileUri(path);
+      return await this.readFileRange(uri, 0, byteCount);
+    } catch (error) {
+      console.error(`Error reading head of ${path}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the size of a file in bytes
+   */
+  async getFileSize(path: string): Promise<number> {
+    const result = await Filesystem.stat({
+      path,
+      directory: Directory.Documents
+    });
+    return result.size;
+  }
+
   /**
    * Check if a file exists
    */
@@ -215,6 +344,104 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Read a byte range of a file
+   * Uses a ranged request against the WebView's local file server and
+   * stops reading as soon as enough bytes have arrived
+   */
+  private async readFileRange(uri: string, start: number, byteCount: number, signal?: AbortSignal): Promise<Uint8Array> {
+    const response = await fetch(Capacitor.convertFileSrc(uri), {
+      headers: { Range: `bytes=${start}-${start + byteCount - 1}` },
+      signal
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to read ${uri}: ${response.status}`);
+    }
+    // A server that ignores the range sends the file from its first byte
+    if (start > 0 && response.status !== 206) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`Ranged reads are not supported for ${uri}`);
+    }
+    
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return new Uint8Array(await response.arrayBuffer()).slice(0, byteCount);
+    }
+    
+    const range = new Uint8Array(byteCount);
+    let received = 0;
+    while (received < byteCount) {
+      const { done, value } = await reader.read();
+      if (done || !value) break;
+      const take = Math.min(value.length, byteCount - received);
+      range.set(value.subarray(0, take), received);
+      received += take;
+    }
+    
+    // The server may send more than asked for, so stop the transfer here
+    await reader.cancel().catch(() => undefined);
+    return range.slice(0, received);
+  }
+
+  /**
+   * Copy the source one block at a time, appending each block to the destination
+   * The next block is only read once the previous one is written, so a
+   * single block is in memory however slow the disk is
+   */
+  private async copyInChunks(
+    source: string,
+    destination: string,
+    chunkSize: number,
+    totalBytes: number,
+    { onProgress, signal }: ChunkedCopyOptions
+  ): Promise<void> {
+    const uri = await this.getFileUri(source);
+    let bytesCopied = 0;
+    
+    try {
+      do {
+        if (signal?.aborted) {
+          throw new FileCopyError('Copy cancelled', 'cancelled');
+        }
+        
+        let block: Uint8Array;
+        try {
+          block = await this.readFileRange(uri, bytesCopied, Math.min(chunkSize, totalBytes - bytesCopied) || chunkSize, signal);
+        } catch (error) {
+          if (signal?.aborted) throw new FileCopyError('Copy cancelled', 'cancelled');
+          throw new FileCopyError(`Error reading ${source}: ${error}`, 'io');
+        }
+        
+        // Also creates the destination when the source is empty
+        const data = this.arrayBufferToBase64(block);
+        if (bytesCopied === 0) {
+          await Filesystem.writeFile({ path: destination, data, directory: Directory.Documents, recursive: true });
+        } else if (block.length > 0) {
+          await Filesystem.appendFile({ path: destination, data, directory: Directory.Documents });
+        }
+        
+        // A short block means the file ended early; the size check in copyFile reports it
+        if (block.length === 0) break;
+        bytesCopied += block.length;
+        onProgress?.({ bytesCopied, totalBytes });
+      } while (bytesCopied < totalBytes);
+    } catch (error) {
+      // Never leave a truncated copy behind
+      await this.deleteFile(destination).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private base64ToBytes(data: string): Uint8Array {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
   /**
    * Helper method to convert array buffer to base64
    */
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { ImportData, planImport } from './data-import';
+import { buildImportReport, ImportFormatError, validateImportData } from './import-report';
+
+function report(existing: ImportData, raw: unknown, strategy: 'merge' | 'replace' | 'skip-existing' = 'merge') {
+  const validated = validateImportData(raw);
+  return buildImportReport(existing, validated, planImport(existing, validated.data, strategy));
+}
+
+const empty: ImportData = { profiles: [], videos: [] };
+
+describe('validateImportData', () => {
+  it('rejects a file without profiles and videos arrays', () => {
+    expect(() => validateImportData({ profiles: [] })).toThrow(ImportFormatError);
+    expect(() => validateImportData('not an export')).toThrow(ImportFormatError);
+  });
+
+  it('keeps valid records and reports invalid ones with their reasons', () => {
+    const validated = validateImportData({
+      profiles: [makeProfile({ id: 1 }), { id: 2, name: ' ', channelName: '', channelLink: '' }],
+      videos: [
+        makeVideo({ id: 1 }),
+        { ...makeVideo({ id: 2, title: 'Bad date' }), scheduleDate: 'tomorrow' },
+        { ...makeVideo({ id: 3, title: 'Bad status' }), status: 'uploaded' }
+      ]
+    });
+
+    expect(validated.data.profiles).toHaveLength(1);
+    expect(validated.data.videos).toHaveLength(1);
+    expect(validated.profileIndexes).toEqual([0]);
+    expect(validated.videoIndexes).toEqual([0]);
+    expect(validated.invalid).toEqual([
+      expect.objectContaining({ kind: 'profile', index: 1, label: '#2', reasons: ['name: Name is required'] }),
+      expect.objectContaining({ kind: 'video', index: 1, label: 'Bad date', reasons: ['scheduleDate: Not a valid date'] }),
+      expect.objectContaining({ kind: 'video', index: 2, label: 'Bad status', reasons: [expect.stringMatching(/^status: /)] })
+    ]);
+  });
+
+  it('upgrades records from older exports', () => {
+    const { pushResetPolicy, pushResetTimeZone, ...oldProfile } = makeProfile();
+    const validated = validateImportData({
+      profiles: [oldProfile],
+      videos: [{ ...makeVideo(), scheduleDate: '2026-03-02', isFileUploaded: 1, isPlaceholder: 0 }]
+    });
+
+    expect(validated.data.profiles[0]).toMatchObject({ pushResetPolicy: null, pushResetTimeZone: null });
+    expect(validated.data.videos[0]).toMatchObject({ scheduleDate: '2026-03-02T09:00', isFileUploaded: true, isPlaceholder: false });
+  });
+});
+
+describe('buildImportReport', () => {
+  const existing: ImportData = {
+    profiles: [makeProfile({ id: 1, name: 'Cooking', channelLink: 'https://youtube.com/@cooking' })],
+    videos: [makeVideo({ id: 10, profileId: 1, title: 'Pasta', scheduleDate: '2026-03-02T17:00' })]
+  };
+
+  it('counts new, duplicate, conflicting and invalid records', () => {
+    const result = report(existing, {
+      profiles: [makeProfile({ id: 5, name: 'Cooking', channelLink: 'https://youtube.com/@cooking' })],
+      videos: [
+        makeVideo({ id: 50, profileId: 5, title: 'Pasta', scheduleDate: '2026-03-02T17:00' }),
+        makeVideo({ id: 51, profileId: 5, title: 'Soup', scheduleDate: '2026-03-03T17:00', description: 'Changed' }),
+        makeVideo({ id: 52, profileId: 5, title: 'Soup', scheduleDate: '2026-03-03T18:00' }),
+        makeVideo({ id: 53, profileId: 6, title: 'Orphan' }),
+        { title: 'No fields' }
+      ]
+    });
+
+    expect(result.counts).toEqual({ new: 1, duplicate: 3, conflicting: 0, invalid: 2 });
+    expect(result.entries.map(entry => [entry.kind, entry.index, entry.category])).toEqual([
+      ['profile', 0, 'duplicate'],
+      ['video', 0, 'duplicate'],
+      ['video', 2, 'duplicate'],
+      ['video', 3, 'invalid'],
+      ['video', 4, 'invalid']
+    ]);
+  });
+
+  it('explains how a conflicting record differs', () => {
+    const result = report(existing, {
+      profiles: [makeProfile({ id: 5, name: 'Cooking', channelLink: 'https://youtube.com/@cooking', dailyPushLimit: 3 })],
+      videos: [makeVideo({ id: 50, profileId: 5, title: 'Pasta', scheduleDate: '2026-03-02T19:00' })]
+    });
+
+    expect(result.entries).toEqual([
+      expect.objectContaining({ kind: 'profile', category: 'conflicting', reasons: ['dailyPushLimit differs (here: 10, import: 3)'] }),
+      expect.objectContaining({ kind: 'video', category: 'conflicting', reasons: ['scheduleDate differs (here: 2026-03-02T17:00, import: 2026-03-02T19:00)'] })
+    ]);
+  });
+
+  it('warns when a merge cannot apply an imported status', () => {
+    const result = report({ ...existing, videos: [{ ...existing.videos[0], status: 'completed' }] }, {
+      profiles: [existing.profiles[0]],
+      videos: [{ ...existing.videos[0], status: 'missed-schedule' }]
+    });
+
+    expect(result.entries[1].reasons).toContain('Status cannot change this way and will be kept');
+  });
+
+  it('reports everything as new when replacing, with what gets removed', () => {
+    const result = report(existing, existing, 'replace');
+
+    expect(result.counts).toEqual({ new: 2, duplicate: 0, conflicting: 0, invalid: 0 });
+    expect(result).toMatchObject({ removedProfileCount: 1, removedVideoCount: 1 });
+  });
+
+  it('reports an empty file as nothing to do', () => {
+    expect(report(existing, empty).counts).toEqual({ new: 0, duplicate: 0, conflicting: 0, invalid: 0 });
+  });
+});
@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import { isValid, parseISO } from 'date-fns';
+import { Profile, Video } from './schema';
+import { VIDEO_STATUSES } from './video-status';
+import { APP_SETTINGS } from '../config';
+import { PUSH_RESET_POLICIES } from './push-limit';
+import { isValidTimeZone } from '../scheduling/time-zone';
+import { normalizeScheduleDate } from '../scheduling/schedule-time';
+import { ImportData, ImportPlan, ImportStrategy } from './data-import';
+
+/**
+ * Dry-run report for imports
+ * Every record is validated with zod and run through planImport, so the
+ * user can see what an import would do before anything is written
+ */
+
+// Older exports store booleans as SQLite 0/1
+const sqliteBoolean = z.preprocess(
+  value => (value === 0 || value === 1 ? Boolean(value) : value),
+  z.boolean()
+);
+
+// Older exports hold only a day, which gets the default publish time
+const scheduleDateString = z.string()
+  .refine(value => isValid(parseISO(value)), 'Not a valid date')
+  .transform(normalizeScheduleDate);
+
+export const profileRecordSchema = z.object({
+  id: z.number().int(),
+  name: z.string().trim().min(1, 'Name is required'),
+  channelName: z.string(),
+  channelLink: z.string(),
+  dailyPushCount: z.number().int().nonnegative().default(0),
+  dailyPushLimit: z.number().int().min(1).default(APP_SETTINGS.DEFAULT_DAILY_PUSH_LIMIT),
+  lastPushReset: z.string().nullable().default(null),
+  // Exports from before reset policies existed have neither field
+  pushResetPolicy: z.enum(PUSH_RESET_POLICIES).nullable().default(null),
+  pushResetTimeZone: z.string().refine(isValidTimeZone, 'Not a valid time zone').nullable().default(null)
+});
+
+export const videoRecordSchema = z.object({
+  id: z.number().int(),
+  profileId: z.number().int(),
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().default(''),
+  filePath: z.string().nullable().default(null),
+  fileName: z.string().nullable().default(null),
+  fileSize: z.number().nonnegative().nullable().default(null),
+  originalFilePath: z.string().nullable().default(null),
+  originalFileSize: z.number().nonnegative().nullable().default(null),
+  thumbnailPath: z.string().nullable().default(null),
+  duration: z.string().nullable().default(null),
+  scheduleDate: scheduleDateString,
+  scheduleTimeZone: z.string().refine(isValidTimeZone, 'Not a valid time zone').nullable().optional(),
+  status: z.enum(VIDEO_STATUSES),
+  uploadedDate: z.string().nullable().default(null),
+  youtubeLink: z.string().nullable().default(null),
+  isFileUploaded: sqliteBoolean.default(false),
+  isPlaceholder: sqliteBoolean.default(false),
+  durationSeconds: z.number().nullable().optional(),
+  width: z.number().int().nullable().optional(),
+  height: z.number().int().nullable().optional(),
+  container: z.string().nullable().optional(),
+  codec: z.string().nullable().optional(),
+  bitrate: z.number().int().nullable().optional()
+});
+
+const importFileSchema = z.object({
+  profiles: z.array(z.unknown()),
+  videos: z.array(z.unknown())
+});
+
+export type ImportRecordKind = 'profile' | 'video';
+export type ImportRecordCategory = 'new' | 'duplicate' | 'conflicting' | 'invalid';
+
+export interface ImportReportEntry {
+  kind: ImportRecordKind;
+  // Position of the record in its array in the import file
+  index: number;
+  label: string;
+  category: ImportRecordCategory;
+  reasons: string[];
+}
+
+export interface ImportReport {
+  strategy: ImportStrategy;
+  counts: Record<ImportRecordCategory, number>;
+  // Rows the chosen strategy deletes before importing
+  removedProfileCount: number;
+  removedVideoCount: number;
+  // Every record that is not simply new
+  entries: ImportReportEntry[];
+}
+
+export interface ValidatedImport {
+  data: ImportData;
+  invalid: ImportReportEntry[];
+  // Import-file index of each valid record
+  profileIndexes: number[];
+  videoIndexes: number[];
+}
+
+/**
+ * Error thrown when a file is not an export at all
+ */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+function recordLabel(record: unknown, field: 'name' | 'title', index: number): string {
+  const value = record && typeof record === 'object' ? (record as Record<string, unknown>)[field] : undefined;
+  return typeof value === 'string' && value.trim() ? value : `#${index + 1}`;
+}
+
+function issueReasons(error: z.ZodError): string[] {
+  return error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+}
+
+/**
+ * Validate every record of an import file, keeping the valid ones
+ * @throws ImportFormatError if the file has no profiles/videos arrays
+ */
+export function validateImportData(raw: unknown): ValidatedImport {
+  const file = importFileSchema.safeParse(raw);
+  if (!file.success) {
+    throw new ImportFormatError('Invalid import file format: expected profiles and videos arrays');
+  }
+
+  const result: ValidatedImport = {
+    data: { profiles: [], videos: [] },
+    invalid: [],
+    profileIndexes: [],
+    videoIndexes: []
+  };
+
+  file.data.profiles.forEach((record, index) => {
+    const parsed = profileRecordSchema.safeParse(record);
+    if (parsed.success) {
+      result.data.profiles.push(parsed.data as Profile);
+      result.profileIndexes.push(index);
+    } else {
+      result.invalid.push({
+        kind: 'profile',
+        index,
+        label: recordLabel(record, 'name', index),
+        category: 'invalid',
+        reasons: issueReasons(parsed.error)
+      });
+    }
+  });
+
+  file.data.videos.forEach((record, index) => {
+    const parsed = videoRecordSchema.safeParse(record);
+    if (parsed.success) {
+      result.data.videos.push(parsed.data as Video);
+      result.videoIndexes.push(index);
+    } else {
+      result.invalid.push({
+        kind: 'video',
+        index,
+        label: recordLabel(record, 'title', index),
+        category: 'invalid',
+        reasons: issueReasons(parsed.error)
+      });
+    }
+  });
+
+  return result;
+}
+
+function differences<T>(local: T, incoming: T, fields: (keyof T)[]): string[] {
+  return fields
+    .filter(field => (local[field] ?? null) !== (incoming[field] ?? null))
+    .map(field => `${String(field)} differs (here: ${local[field] ?? 'none'}, import: ${incoming[field] ?? 'none'})`);
+}
+
+const PROFILE_COMPARED_FIELDS: (keyof Profile)[] = [
+  'name', 'channelName', 'dailyPushLimit', 'pushResetPolicy', 'pushResetTimeZone'
+];
+const VIDEO_COMPARED_FIELDS: (keyof Video)[] = [
+  'description', 'scheduleDate', 'status', 'uploadedDate', 'youtubeLink', 'duration'
+];
+
+/**
+ * Describe what importing the validated data with a strategy would do
+ */
+export function buildImportReport(existing: ImportData, validated: ValidatedImport, plan: ImportPlan): ImportReport {
+  const entries: ImportReportEntry[] = [...validated.invalid];
+  const profilesById = new Map(existing.profiles.map(p => [p.id, p]));
+  const videosById = new Map(existing.videos.map(v => [v.id, v]));
+
+  plan.profiles.forEach((step, i) => {
+    const base = { kind: 'profile' as const, index: validated.profileIndexes[i], label: step.profile.name };
+    if (step.duplicateOf !== null) {
+      entries.push({ ...base, category: 'duplicate', reasons: ['Appears more than once in the file'] });
+    } else if (step.existingId !== null) {
+      const reasons = differences(profilesById.get(step.existingId)!, step.profile, PROFILE_COMPARED_FIELDS);
+      entries.push(reasons.length > 0
+        ? { ...base, category: 'conflicting', reasons }
+        : { ...base, category: 'duplicate', reasons: ['Already exists'] });
+    }
+  });
+
+  const videoIndexOf = new Map(validated.data.videos.map((video, i) => [video, validated.videoIndexes[i]]));
+  plan.videos.forEach(step => {
+    const base = { kind: 'video' as const, index: videoIndexOf.get(step.video)!, label: step.video.title };
+    if (step.action === 'create') return;
+    if (step.existingId === null) {
+      entries.push({ ...base, category: 'duplicate', reasons: ['Appears more than once in the file'] });
+      return;
+    }
+    const reasons = differences(videosById.get(step.existingId)!, step.video, VIDEO_COMPARED_FIELDS);
+    if (step.action === 'update' && step.changes.status === undefined && reasons.some(r => r.startsWith('status'))) {
+      reasons.push('Status cannot change this way and will be kept');
+    }
+    entries.push(reasons.length > 0
+      ? { ...base, category: 'conflicting', reasons }
+      : { ...base, category: 'duplicate', reasons: ['Already exists'] });
+  });
+
+  plan.orphanedVideos.forEach(video => {
+    entries.push({
+      kind: 'video',
+      index: videoIndexOf.get(video)!,
+      label: video.title,
+      category: 'invalid',
+      reasons: [`profileId ${video.profileId} matches no profile in the file`]
+    });
+  });
+
+  const total = validated.data.profiles.length + validated.data.videos.length + validated.invalid.length;
+  const counts: Record<ImportRecordCategory, number> = { new: 0, duplicate: 0, conflicting: 0, invalid: 0 };
+  for (const entry of entries) {
+    counts[entry.category]++;
+  }
+  counts.new = total - entries.length;
+
+  return {
+    strategy: plan.strategy,
+    counts,
+    removedProfileCount: plan.removedProfileCount,
+    removedVideoCount: plan.removedVideoCount,
+    entries: entries.sort((a, b) => a.kind.localeCompare(b.kind) || a.index - b.index)
+  };
+}
@@ -0,0 +1,94 @@
+import { format, parseISO } from 'date-fns';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSqlJsConnection, SqlJsConnection } from '../../test/sqlite';
+import { getScheduleInstant } from '../scheduling/schedule-time';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations';
+import { sqliteService } from './sqlite-service';
+
+let connection: SqlJsConnection;
+
+// A database as it was left by the given schema version
+async function migrateTo(version: number): Promise<void> {
+  connection.database.exec(`
+    CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, appliedAt TEXT NOT NULL);
+  `);
+  for (const migration of MIGRATIONS.filter(m => m.version <= version)) {
+    migration.up.forEach(statement => connection.database.exec(statement));
+    connection.database.run('INSERT INTO schema_migrations VALUES (?, ?, ?)', [migration.version, migration.name, '2026-01-01 00:00:00']);
+  }
+}
+
+function insertVideo(scheduleDate: string): void {
+  connection.database.run(
+    "INSERT INTO videos (profileId, title, description, scheduleDate) VALUES (1, ?, '', ?)",
+    [scheduleDate, scheduleDate]
+  );
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  connection = await createSqlJsConnection();
+  Object.assign(sqliteService, { db: connection, _isInitialized: true });
+});
+
+describe('runMigrations', () => {
+  it('brings an empty database to the latest version', async () => {
+    const applied = await sqliteService.runMigrations();
+
+    expect(applied.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(await sqliteService.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    expect(await sqliteService.runMigrations()).toEqual([]);
+  });
+
+  it('rolls every pending migration back when one fails', async () => {
+    await migrateTo(6);
+    connection.database.exec('CREATE TABLE schedule_templates (id INTEGER)');
+
+    await expect(sqliteService.runMigrations()).rejects.toThrow(/Migration 8 \(schedule_templates\) failed/);
+
+    expect(await sqliteService.getSchemaVersion()).toBe(6);
+    expect(connection.select("SELECT name FROM pragma_table_info('videos') WHERE name = 'scheduleAt'")).toEqual([]);
+  });
+});
+
+describe('migration 7 (videos_schedule_time)', () => {
+  beforeEach(async () => {
+    await migrateTo(6);
+    connection.database.run("INSERT INTO profiles (name, channelName, channelLink) VALUES ('Main', '', '')");
+  });
+
+  // What each stored format must become: the device's wall clock to the minute
+  const wallClock = (utc: string) => format(parseISO(utc), "yyyy-MM-dd'T'HH:mm");
+  const cases: [string, string][] = [
+    ['2026-03-02', '2026-03-02T09:00'],
+    ['2026-03-02T17:30', '2026-03-02T17:30'],
+    ['2026-03-02T17:30:45', '2026-03-02T17:30'],
+    ['2026-03-02T17:30:45.123', '2026-03-02T17:30'],
+    ['2026-03-02 17:30', '2026-03-02T17:30'],
+    ['2026-03-02 17:30:45', '2026-03-02T17:30'],
+    ['2026-03-02T17:30:00Z', wallClock('2026-03-02T17:30:00Z')],
+    ['2026-03-02T17:30:00.000Z', wallClock('2026-03-02T17:30:00Z')],
+    ['2026-03-02T17:30:00+02:00', wallClock('2026-03-02T15:30:00Z')],
+    ['2026-03-02T17:30:00-05:00', wallClock('2026-03-02T22:30:00Z')]
+  ];
+
+  it.each(cases)('normalises %s', async (stored, expected) => {
+    insertVideo(stored);
+
+    await sqliteService.runMigrations();
+
+    const [row] = connection.select('SELECT scheduleDate, scheduleAt FROM videos');
+    expect(row).toEqual({
+      scheduleDate: expected,
+      scheduleAt: getScheduleInstant(expected, null).toISOString()
+    });
+  });
+
+  it('gives every parseable row a publish time', async () => {
+    cases.forEach(([stored]) => insertVideo(stored));
+
+    await sqliteService.runMigrations();
+
+    expect(connection.select('SELECT id FROM videos WHERE scheduleAt IS NULL')).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+import { CREATE_PROFILES_TABLE, CREATE_VIDEOS_TABLE } from './schema';
+
+/**
+ * Versioned schema migrations for the offline SQLite database
+ * Migrations are applied in ascending version order and each one is
+ * recorded in the schema_migrations table once it has been committed.
+ * Never edit a migration that has shipped - add a new one instead.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  // SQL statements executed in order inside a single transaction
+  up: string[];
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export const CREATE_SCHEMA_MIGRATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  appliedAt TEXT NOT NULL
+);
+`;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: [CREATE_PROFILES_TABLE, CREATE_VIDEOS_TABLE]
+  },
+  {
+    version: 2,
+    name: 'videos_status_check',
+    // SQLite cannot add a CHECK constraint in place, so rebuild the table
+    up: [
+      `CREATE TABLE videos_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        profileId INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        filePath TEXT,
+        fileName TEXT,
+        fileSize INTEGER,
+        originalFilePath TEXT,
+        originalFileSize INTEGER,
+        thumbnailPath TEXT,
+        duration TEXT,
+        scheduleDate TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'completed', 'missed-schedule')),
+        uploadedDate TEXT,
+        youtubeLink TEXT,
+        isFileUploaded INTEGER NOT NULL DEFAULT 0,
+        isPlaceholder INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY (profileId) REFERENCES profiles (id) ON DELETE CASCADE
+      );`,
+      `INSERT INTO videos_new (
+        id, profileId, title, description, filePath, fileName, fileSize,
+        originalFilePath, originalFileSize, thumbnailPath, duration,
+        scheduleDate, status, uploadedDate, youtubeLink, isFileUploaded, isPlaceholder
+      )
+      SELECT
+        id, profileId, title, description, filePath, fileName, fileSize,
+        originalFilePath, originalFileSize, thumbnailPath, duration,
+        scheduleDate,
+        CASE WHEN status IN ('pending', 'completed', 'missed-schedule') THEN status ELSE 'pending' END,
+        uploadedDate, youtubeLink, isFileUploaded, isPlaceholder
+      FROM videos;`,
+      'DROP TABLE videos;',
+      'ALTER TABLE videos_new RENAME TO videos;'
+    ]
+  },
+  {
+    version: 3,
+    name: 'videos_media_metadata',
+    up: [
+      'ALTER TABLE videos ADD COLUMN durationSeconds REAL;',
+      'ALTER TABLE videos ADD COLUMN width INTEGER;',
+      'ALTER TABLE videos ADD COLUMN height INTEGER;',
+      'ALTER TABLE videos ADD COLUMN container TEXT;',
+      'ALTER TABLE videos ADD COLUMN codec TEXT;',
+      'ALTER TABLE videos ADD COLUMN bitrate INTEGER;'
+    ]
+  },
+  {
+    version: 4,
+    name: 'profiles_daily_push_limit',
+    up: [
+      // 10 was APP_SETTINGS.DEFAULT_DAILY_PUSH_LIMIT when this migration shipped
+      'ALTER TABLE profiles ADD COLUMN dailyPushLimit INTEGER NOT NULL DEFAULT 10 CHECK (dailyPushLimit >= 1);'
+    ]
+  },
+  {
+    version: 5,
+    name: 'profiles_push_reset_policy',
+    up: [
+      "ALTER TABLE profiles ADD COLUMN pushResetPolicy TEXT CHECK (pushResetPolicy IN ('rolling-24h', 'local-midnight', 'timezone-midnight'));",
+      'ALTER TABLE profiles ADD COLUMN pushResetTimeZone TEXT;'
+    ]
+  },
+  {
+    version: 6,
+    name: 'push_events',
+    up: [
+      // videoId has no foreign key so history outlives deleted videos
+      `CREATE TABLE push_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        videoId INTEGER,
+        profileId INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ('push', 'revert', 'reset-limit')),
+        createdAt TEXT NOT NULL,
+        note TEXT,
+        FOREIGN KEY (profileId) REFERENCES profiles (id) ON DELETE CASCADE
+      );`,
+      'CREATE INDEX idx_push_events_profile ON push_events (profileId, createdAt);',
+      'CREATE INDEX idx_push_events_video ON push_events (videoId, createdAt);'
+    ]
+  },
+  {
+    version: 7,
+    name: 'videos_schedule_time',
+    up: [
+      'ALTER TABLE videos ADD COLUMN scheduleTimeZone TEXT;',
+      'ALTER TABLE videos ADD COLUMN scheduleAt TEXT;',
+      // Timestamps with Z or an offset become the device's wall clock
+      `UPDATE videos SET scheduleDate = strftime('%Y-%m-%dT%H:%M', scheduleDate, 'localtime')
+       WHERE scheduleDate GLOB '*Z' OR scheduleDate GLOB '*[+-][0-9][0-9]:[0-9][0-9]';`,
+      // 09:00 was APP_SETTINGS.DEFAULT_SCHEDULE_TIME when this migration shipped
+      "UPDATE videos SET scheduleDate = scheduleDate || 'T09:00' WHERE length(scheduleDate) = 10;",
+      // Seconds, milliseconds and a space instead of T are dropped to yyyy-MM-ddTHH:mm
+      `UPDATE videos SET scheduleDate = strftime('%Y-%m-%dT%H:%M', scheduleDate)
+       WHERE strftime('%Y-%m-%dT%H:%M', scheduleDate) IS NOT NULL;`,
+      // Existing rows are in the device's zone, which the 'utc' modifier converts from
+      "UPDATE videos SET scheduleAt = strftime('%Y-%m-%dT%H:%M:%fZ', scheduleDate, 'utc');",
+      'CREATE INDEX idx_videos_status_schedule_at ON videos (status, scheduleAt);'
+    ]
+  },
+  {
+    version: 8,
+    name: 'schedule_templates',
+    up: [
+      // weekdays is a comma-separated list of day numbers, 0 = Sunday
+      `CREATE TABLE schedule_templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        profileId INTEGER NOT NULL,
+        weekdays TEXT NOT NULL,
+        time TEXT NOT NULL,
+        timeZone TEXT,
+        isActive INTEGER NOT NULL DEFAULT 1,
+        FOREIGN KEY (profileId) REFERENCES profiles (id) ON DELETE CASCADE
+      );`,
+      'CREATE INDEX idx_schedule_templates_profile ON schedule_templates (profileId);'
+    ]
+  },
+  {
+    version: 9,
+    name: 'video_list_indexes',
+    up: [
+      // Per-profile lists filtered by status and ordered by schedule or upload date
+      'CREATE INDEX idx_videos_profile_status_schedule ON videos (profileId, status, scheduleDate);',
+      'CREATE INDEX idx_videos_profile_status_uploaded ON videos (profileId, status, uploadedDate);'
+    ]
+  },
+  {
+    version: 10,
+    name: 'video_schedule_date_index',
+    up: [
+      // Day lookups across every profile: today's videos and missed detection
+      'CREATE INDEX idx_videos_schedule_date ON videos (scheduleDate);'
+    ]
+  },
+  {
+    version: 11,
+    name: 'videos_revision',
+    up: [
+      'ALTER TABLE videos ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;',
+      'ALTER TABLE videos ADD COLUMN updatedAt TEXT;',
+      // When a row last changed is unknown, so existing rows start from now
+      "UPDATE videos SET updatedAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now');"
+    ]
+  }
+];
+
+/**
+ * Latest schema version known to this build of the app
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  0
+);
+
+/**
+ * Returns the migrations that still need to be applied, sorted by version
+ * @param appliedVersions Versions already recorded in schema_migrations
+ */
+export function getPendingMigrations(appliedVersions: number[]): Migration[] {
+  const applied = new Set(appliedVersions);
+  return MIGRATIONS
+    .filter(migration => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Error thrown when a migration fails; the database is rolled back
+ * to the state it was in before the migration run started
+ */
+export class MigrationError extends Error {
+  constructor(
+    public readonly migration: Migration,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Migration ${migration.version} (${migration.name}) failed: ` +
+      (cause instanceof Error ? cause.message : String(cause))
+    );
+    this.name = 'MigrationError';
+  }
+}
@@ -0,0 +1,166 @@
+import { format } from 'date-fns';
+import { Encoding } from '@capacitor/filesystem';
+import { APP_SETTINGS } from '../config';
+import { sqliteService } from './sqlite-service';
+import { filesystemService, ChunkedCopyOptions } from './filesystem-service';
+import { Video } from './schema';
+
+/**
+ * Placeholder-file mode
+ * Instead of copying large videos into the app's videos/ directory, a small
+ * stub is stored there and the video keeps a reference to the original file
+ * on the device. The original is copied in only when it is needed for a push.
+ */
+
+// Contents of the stub file written under videos/
+export interface PlaceholderStub {
+  type: 'placeholder';
+  originalFilePath: string;
+  originalFileSize: number;
+  createdAt: string;
+}
+
+export type PlaceholderCheckStatus = 'ok' | 'missing' | 'size-changed';
+
+export interface PlaceholderCheck {
+  videoId: number;
+  title: string;
+  originalFilePath: string | null;
+  status: PlaceholderCheckStatus;
+  expectedSize: number | null;
+  actualSize: number | null;
+}
+
+/**
+ * Error thrown when a placeholder's original file cannot be used
+ */
+export class PlaceholderOriginalError extends Error {
+  constructor(public readonly check: PlaceholderCheck) {
+    super(
+      check.status === 'missing'
+        ? `Original file for "${check.title}" was moved or deleted: ${check.originalFilePath}`
+        : `Original file for "${check.title}" has changed size since it was added`
+    );
+    this.name = 'PlaceholderOriginalError';
+  }
+}
+
+const STUB_SUFFIX = '.placeholder.json';
+
+export class PlaceholderService {
+  private static instance: PlaceholderService;
+
+  private constructor() {}
+
+  public static getInstance(): PlaceholderService {
+    if (!PlaceholderService.instance) {
+      PlaceholderService.instance = new PlaceholderService();
+    }
+    return PlaceholderService.instance;
+  }
+
+  /**
+   * Whether a file of the given size should be stored as a placeholder
+   * Files that already fit under MAX_PLACEHOLDER_SIZE are simply copied
+   */
+  shouldUsePlaceholder(fileSize: number | null): boolean {
+    return APP_SETTINGS.USE_PLACEHOLDER_FILES &&
+      fileSize !== null &&
+      fileSize > APP_SETTINGS.MAX_PLACEHOLDER_SIZE;
+  }
+
+  /**
+   * Write a stub for an original file under videos/
+   * @returns The stub path to store as the video's filePath
+   */
+  async createPlaceholder(originalFilePath: string, originalFileSize: number): Promise<string> {
+    const fileName = originalFilePath.split('/').pop() || `video_${Date.now()}.mp4`;
+    const stubPath = `videos/${fileName}${STUB_SUFFIX}`;
+    const stub: PlaceholderStub = {
+      type: 'placeholder',
+      originalFilePath,
+      originalFileSize,
+      createdAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss')
+    };
+
+    // Paths and names may hold any character, so write text rather than base64
+    await filesystemService.writeFile(stubPath, JSON.stringify(stub), { recursive: true, encoding: Encoding.UTF8 });
+    return stubPath;
+  }
+
+  /**
+   * Check that a placeholder video's original file is still where we left it
+   */
+  async checkOriginal(video: Video): Promise<PlaceholderCheck> {
+    const check: PlaceholderCheck = {
+      videoId: video.id,
+      title: video.title,
+      originalFilePath: video.originalFilePath,
+      status: 'ok',
+      expectedSize: video.originalFileSize,
+      actualSize: null
+    };
+
+    if (!video.originalFilePath) {
+      return { ...check, status: 'missing' };
+    }
+
+    try {
+      check.actualSize = await filesystemService.getFileSize(video.originalFilePath);
+    } catch {
+      return { ...check, status: 'missing' };
+    }
+
+    if (check.expectedSize !== null && check.actualSize !== check.expectedSize) {
+      return { ...check, status: 'size-changed' };
+    }
+    return check;
+  }
+
+  /**
+   * Check every placeholder video that has not been pushed yet
+   * @returns Only the videos whose original has moved, been deleted or changed
+   */
+  async findBrokenOriginals(): Promise<PlaceholderCheck[]> {
+    const videos = await sqliteService.getVideos();
+    const placeholders = videos.filter(video => video.isPlaceholder && video.status !== 'completed');
+    const checks = await Promise.all(placeholders.map(video => this.checkOriginal(video)));
+    return checks.filter(check => check.status !== 'ok');
+  }
+
+  /**
+   * Swap a placeholder for a full copy of its original file
+   * Used at push time, when the real file has to be available to share
+   * @throws PlaceholderOriginalError if the original is missing or changed
+   */
+  async restoreOriginal(videoId: number, copyOptions: ChunkedCopyOptions = {}): Promise<Video | undefined> {
+    const video = await sqliteService.getVideo(videoId);
+    if (!video || !video.isPlaceholder) {
+      return video;
+    }
+
+    const check = await this.checkOriginal(video);
+    if (check.status !== 'ok') {
+      throw new PlaceholderOriginalError(check);
+    }
+
+    const originalFilePath = video.originalFilePath!;
+    const fileName = originalFilePath.split('/').pop() || `video_${video.id}.mp4`;
+    const filePath = `videos/${fileName}`;
+    await filesystemService.copyFile(originalFilePath, filePath, copyOptions);
+
+    const stubPath = video.filePath;
+    const updated = await sqliteService.updateVideo(videoId, {
+      filePath,
+      fileSize: check.actualSize,
+      isPlaceholder: false
+    });
+
+    if (stubPath && stubPath !== filePath) {
+      await filesystemService.deleteFile(stubPath).catch(e => console.error('Error deleting placeholder stub:', e));
+    }
+    return updated;
+  }
+}
+
+export const placeholderService = PlaceholderService.getInstance();
@@ -0,0 +1,123 @@
+import { format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { makeProfile } from '../../test/fixtures';
+import { Profile } from './schema';
+import {
+  PushLimitReachedError,
+  assertPushAllowed,
+  getPushLimitState,
+  getPushWindowEnd,
+  isPushWindowExpired,
+  resolvePushResetPolicy
+} from './push-limit';
+
+// lastPushReset is stored in device-local time
+function localReset(instant: Date): string {
+  return format(instant, 'yyyy-MM-dd HH:mm:ss');
+}
+
+function profile(overrides: Partial<Profile> = {}): Profile {
+  return makeProfile({ channelLink: '', dailyPushLimit: 2, pushResetPolicy: 'rolling-24h', ...overrides });
+}
+
+describe('getPushWindowEnd', () => {
+  it('has no window without a reset time', () => {
+    expect(getPushWindowEnd(null, { type: 'rolling-24h' })).toBeNull();
+    expect(getPushWindowEnd('not a date', { type: 'rolling-24h' })).toBeNull();
+  });
+
+  it('ends 24 hours after the window started for rolling-24h', () => {
+    expect(getPushWindowEnd('2026-03-02 10:30:00', { type: 'rolling-24h' })).toEqual(new Date(2026, 2, 3, 10, 30));
+  });
+
+  it('ends at the next device midnight for local-midnight', () => {
+    expect(getPushWindowEnd('2026-03-02 23:59:00', { type: 'local-midnight' })).toEqual(new Date(2026, 2, 3));
+    expect(getPushWindowEnd('2026-03-02 00:00:00', { type: 'local-midnight' })).toEqual(new Date(2026, 2, 3));
+  });
+
+  it('ends at the next midnight in the zone for timezone-midnight', () => {
+    const policy = { type: 'timezone-midnight', timeZone: 'America/Los_Angeles' } as const;
+    // 12:00 PST
+    expect(getPushWindowEnd(localReset(new Date('2026-03-02T20:00:00Z')), policy))
+      .toEqual(new Date('2026-03-03T08:00:00Z'));
+    // Los Angeles moves to PDT on 2026-03-08, so that midnight is an hour earlier in UTC
+    expect(getPushWindowEnd(localReset(new Date('2026-03-08T20:00:00Z')), policy))
+      .toEqual(new Date('2026-03-09T07:00:00Z'));
+  });
+});
+
+describe('isPushWindowExpired', () => {
+  const policy = { type: 'rolling-24h' } as const;
+
+  it('is expired without a window', () => {
+    expect(isPushWindowExpired(null, policy)).toBe(true);
+  });
+
+  it('expires exactly when the window ends', () => {
+    const start = '2026-03-02 10:00:00';
+    expect(isPushWindowExpired(start, policy, new Date(2026, 2, 3, 9, 59, 59))).toBe(false);
+    expect(isPushWindowExpired(start, policy, new Date(2026, 2, 3, 10, 0, 0))).toBe(true);
+  });
+});
+
+describe('getPushLimitState', () => {
+  it('counts pushes inside the window', () => {
+    const state = getPushLimitState(
+      profile({ dailyPushCount: 1, lastPushReset: '2026-03-02 10:00:00' }),
+      new Date(2026, 2, 2, 18)
+    );
+    expect(state).toMatchObject({ dailyPushCount: 1, remaining: 1, resetsAt: new Date(2026, 2, 3, 10) });
+  });
+
+  it('starts again from zero once the window has passed', () => {
+    const state = getPushLimitState(
+      profile({ dailyPushCount: 2, lastPushReset: '2026-03-02 10:00:00' }),
+      new Date(2026, 2, 3, 10)
+    );
+    expect(state).toMatchObject({ dailyPushCount: 0, remaining: 2, resetsAt: null });
+  });
+});
+
+describe('assertPushAllowed', () => {
+  it('allows pushes under the limit', () => {
+    const full = profile({ dailyPushCount: 1, lastPushReset: '2026-03-02 10:00:00' });
+    expect(() => assertPushAllowed(full, new Date(2026, 2, 2, 12))).not.toThrow();
+  });
+
+  it('throws PushLimitReachedError at the limit until the window ends', () => {
+    const full = profile({ dailyPushCount: 2, lastPushReset: '2026-03-02 10:00:00' });
+    const now = new Date(2026, 2, 2, 12);
+
+    let error: unknown;
+    try {
+      assertPushAllowed(full, now);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(PushLimitReachedError);
+    expect(error).toMatchObject({
+      profileId: 1,
+      limit: 2,
+      resetsAt: new Date(2026, 2, 3, 10),
+      msUntilReset: 22 * 60 * 60 * 1000
+    });
+
+    expect(() => assertPushAllowed(full, new Date(2026, 2, 3, 10))).not.toThrow();
+  });
+});
+
+describe('resolvePushResetPolicy', () => {
+  it('uses the profile policy and zone', () => {
+    expect(resolvePushResetPolicy({ pushResetPolicy: 'timezone-midnight', pushResetTimeZone: 'Asia/Tokyo' }))
+      .toEqual({ type: 'timezone-midnight', timeZone: 'Asia/Tokyo' });
+  });
+
+  it('falls back to local midnight for an invalid zone', () => {
+    expect(resolvePushResetPolicy({ pushResetPolicy: 'timezone-midnight', pushResetTimeZone: 'Nowhere/Else' }))
+      .toEqual({ type: 'local-midnight' });
+  });
+
+  it('uses the app default without a profile policy', () => {
+    expect(resolvePushResetPolicy({ pushResetPolicy: null, pushResetTimeZone: null })).toEqual({ type: 'rolling-24h' });
+  });
+});
@@ -0,0 +1,153 @@
+import { addDays, addHours, formatDistanceStrict, isValid, parse, parseISO, startOfDay } from 'date-fns';
+import { Profile } from './schema';
+import { APP_SETTINGS } from '../config';
+import { fromWallClock, isValidTimeZone, toWallClock } from '../scheduling/time-zone';
+
+/**
+ * Daily push limit for a profile
+ * A profile may push dailyPushLimit videos per window. The window starts at
+ * lastPushReset (the first push after a reset, or a manual reset) and ends
+ * according to the reset policy; once it has passed the count starts again
+ * from zero.
+ *   rolling-24h:       PUSH_WINDOW_HOURS after the window started
+ *   local-midnight:    the next midnight on this device
+ *   timezone-midnight: the next midnight in an IANA time zone, e.g. to
+ *                      match YouTube's quota reset in America/Los_Angeles
+ */
+
+export const PUSH_WINDOW_HOURS = 24;
+
+export const PUSH_RESET_POLICIES = ['rolling-24h', 'local-midnight', 'timezone-midnight'] as const;
+export type PushResetPolicyType = typeof PUSH_RESET_POLICIES[number];
+
+export type PushResetPolicy =
+  | { type: 'rolling-24h' }
+  | { type: 'local-midnight' }
+  | { type: 'timezone-midnight', timeZone: string };
+
+// lastPushReset is stored in local time in this format
+const PUSH_RESET_FORMAT = 'yyyy-MM-dd HH:mm:ss';
+
+export interface PushLimitState {
+  profileId: number;
+  // Pushes in the current window; 0 once the window has passed
+  dailyPushCount: number;
+  dailyPushLimit: number;
+  remaining: number;
+  // When the current window ends, or null if no window is running
+  resetsAt: Date | null;
+  policy: PushResetPolicy;
+}
+
+/**
+ * Error thrown when a push would exceed the profile's daily limit
+ */
+export class PushLimitReachedError extends Error {
+  public readonly msUntilReset: number;
+
+  constructor(
+    public readonly profileId: number,
+    public readonly profileName: string,
+    public readonly limit: number,
+    public readonly resetsAt: Date,
+    now: Date = new Date()
+  ) {
+    super(`Daily push limit of ${limit} reached for ${profileName}; resets in ${formatDistanceStrict(resetsAt, now, { roundingMethod: 'floor' })}`);
+    this.name = 'PushLimitReachedError';
+    this.msUntilReset = Math.max(0, resetsAt.getTime() - now.getTime());
+  }
+}
+
+export function parsePushReset(lastPushReset: string | null): Date | null {
+  if (!lastPushReset) return null;
+  const local = parse(lastPushReset, PUSH_RESET_FORMAT, new Date());
+  if (isValid(local)) return local;
+  const iso = parseISO(lastPushReset);
+  return isValid(iso) ? iso : null;
+}
+
+export function isPushResetPolicyType(value: unknown): value is PushResetPolicyType {
+  return typeof value === 'string' && (PUSH_RESET_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * The policy a profile uses: its own if set, otherwise the app-wide default
+ * A time zone policy without a valid zone falls back to local midnight
+ */
+export function resolvePushResetPolicy(
+  profile: Pick<Profile, 'pushResetPolicy' | 'pushResetTimeZone'>
+): PushResetPolicy {
+  const type = profile.pushResetPolicy ?? APP_SETTINGS.PUSH_RESET_POLICY;
+  if (type === 'timezone-midnight') {
+    const timeZone = profile.pushResetTimeZone ?? APP_SETTINGS.PUSH_RESET_TIME_ZONE;
+    return timeZone && isValidTimeZone(timeZone)
+      ? { type, timeZone }
+      : { type: 'local-midnight' };
+  }
+  return { type };
+}
+
+/**
+ * The first midnight in a time zone after the given instant
+ */
+export function nextMidnightInTimeZone(after: Date, timeZone: string): Date {
+  const wallClock = toWallClock(after, timeZone);
+  return fromWallClock(
+    Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate() + 1),
+    timeZone
+  );
+}
+
+/**
+ * When the window that started at lastPushReset ends under a policy
+ */
+export function getPushWindowEnd(lastPushReset: string | null, policy: PushResetPolicy): Date | null {
+  const start = parsePushReset(lastPushReset);
+  if (!start) return null;
+
+  switch (policy.type) {
+    case 'rolling-24h':
+      return addHours(start, PUSH_WINDOW_HOURS);
+    case 'local-midnight':
+      return startOfDay(addDays(start, 1));
+    case 'timezone-midnight':
+      return nextMidnightInTimeZone(start, policy.timeZone);
+  }
+}
+
+/**
+ * Whether the push count should start again from zero
+ */
+export function isPushWindowExpired(
+  lastPushReset: string | null,
+  policy: PushResetPolicy,
+  now: Date = new Date()
+): boolean {
+  const end = getPushWindowEnd(lastPushReset, policy);
+  return end === null || now >= end;
+}
+
+export function getPushLimitState(profile: Profile, now: Date = new Date()): PushLimitState {
+  const policy = resolvePushResetPolicy(profile);
+  const expired = isPushWindowExpired(profile.lastPushReset, policy, now);
+  const dailyPushCount = expired ? 0 : profile.dailyPushCount;
+  return {
+    profileId: profile.id,
+    dailyPushCount,
+    dailyPushLimit: profile.dailyPushLimit,
+    remaining: Math.max(0, profile.dailyPushLimit - dailyPushCount),
+    resetsAt: expired ? null : getPushWindowEnd(profile.lastPushReset, policy),
+    policy
+  };
+}
+
+/**
+ * Throw a PushLimitReachedError unless the profile may push another video
+ */
+export function assertPushAllowed(profile: Profile, now: Date = new Date()): void {
+  const state = getPushLimitState(profile, now);
+  if (state.remaining > 0) return;
+
+  // Limits are at least 1, so a full profile always has a running window
+  throw new PushLimitReachedError(profile.id, profile.name, state.dailyPushLimit, state.resetsAt!, now);
+}
@@ -4,15 +4,30 @@
  * but adapted for SQLite
  */
 
+import { VideoStatus } from './video-status';
+import type { PushResetPolicyType } from './push-limit';
+
+export type { VideoStatus } from './video-status';
+
 export interface Profile {
   id: number;
   name: string;
   channelName: string;
   channelLink: string;
   dailyPushCount: number;
+  // Pushes allowed per window, see push-limit.ts
+  dailyPushLimit: number;
   lastPushReset: string | null;
+  // Reset policy override; null uses APP_SETTINGS.PUSH_RESET_POLICY
+  pushResetPolicy: PushResetPolicyType | null;
+  // IANA time zone for the 'timezone-midnight' policy
+  pushResetTimeZone: string | null;
 }
 
+// Profile fields accepted on create; the push limit settings default from config
+type ProfileDefaults = 'dailyPushLimit' | 'pushResetPolicy' | 'pushResetTimeZone';
+export type NewProfile = Omit<Profile, 'id' | ProfileDefaults> & Partial<Pick<Profile, ProfileDefaults>>;
+
 export interface Video {
   id: number;
   profileId: number;
@@ -25,15 +40,80 @@ export interface Video {
   originalFileSize: number | null;
   thumbnailPath: string | null;
   duration: string | null;
+  // Wall-clock publish time, yyyy-MM-ddTHH:mm, see scheduling/schedule-time.ts
   scheduleDate: string;
-  status: string;
+  // IANA zone of scheduleDate; null for the device's zone
+  scheduleTimeZone?: string | null;
+  // scheduleDate as a UTC ISO timestamp, derived on write
+  scheduleAt?: string | null;
+  status: VideoStatus;
   uploadedDate: string | null;
   youtubeLink: string | null;
   isFileUploaded: boolean;
   isPlaceholder: boolean;
+  // Bumped by every update, for calendar exports
+  revision?: number;
+  // UTC ISO timestamp of the last create or update
+  updatedAt?: string | null;
+  // Media metadata filled in by probing the attached file
+  durationSeconds?: number | null;
+  width?: number | null;
+  height?: number | null;
+  container?: string | null;
+  codec?: string | null;
+  bitrate?: number | null;
+}
+
+// Video fields accepted on create; without a scheduleDate the video takes
+// its profile's next free template slot
+export type NewVideo = Omit<Video, 'id' | 'scheduleDate'> & { scheduleDate?: string | null };
+
+// Per-profile video totals, computed in SQL
+export interface ProfileVideoStats {
+  profileId: number;
+  pendingCount: number;
+  missedCount: number;
+  completedCount: number;
+  // Most recent uploadedDate of a completed video
+  lastUploadedDate: string | null;
+  // Earliest scheduleDate of a pending video
+  nextScheduleDate: string | null;
+}
+
+// Recurring publish slot for a profile, e.g. Mon/Wed/Fri at 17:00
+export interface ScheduleTemplate {
+  id: number;
+  profileId: number;
+  // Days of the week, 0 = Sunday ... 6 = Saturday
+  weekdays: number[];
+  // HH:mm wall-clock time
+  time: string;
+  // IANA zone of the time; null for the device's zone
+  timeZone: string | null;
+  isActive: boolean;
 }
 
-// SQL statements for creating tables
+export type NewScheduleTemplate = Omit<ScheduleTemplate, 'id' | 'timeZone' | 'isActive'> &
+  Partial<Pick<ScheduleTemplate, 'timeZone' | 'isActive'>>;
+
+export const PUSH_EVENT_ACTIONS = ['push', 'revert', 'reset-limit'] as const;
+export type PushEventAction = typeof PUSH_EVENT_ACTIONS[number];
+
+// One row of push history; reset-limit events have no video
+export interface PushEvent {
+  id: number;
+  videoId: number | null;
+  profileId: number;
+  action: PushEventAction;
+  // ISO timestamp
+  createdAt: string;
+  note: string | null;
+}
+
+export type NewPushEvent = Omit<PushEvent, 'id' | 'createdAt' | 'note'> & Partial<Pick<PushEvent, 'createdAt' | 'note'>>;
+
+// SQL statements for creating the initial (version 1) tables
+// Later schema changes are applied through migrations.ts
 export const CREATE_PROFILES_TABLE = `
 CREATE TABLE IF NOT EXISTS profiles (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { SqlJsConnection, useTestDatabase } from '../../test/sqlite';
+import { Profile, Video } from './schema';
+import { sqliteService } from './sqlite-service';
+import { InvalidStatusTransitionError } from './video-status';
+
+let connection: SqlJsConnection;
+
+async function addProfile(overrides: Partial<Profile> = {}): Promise<Profile> {
+  const { id, ...profile } = makeProfile(overrides);
+  return sqliteService.createProfile(profile);
+}
+
+async function addVideo(overrides: Partial<Video>): Promise<Video> {
+  const { id, ...video } = makeVideo(overrides);
+  return sqliteService.createVideo(video);
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  connection = await useTestDatabase();
+  await addProfile();
+  await addProfile({ name: 'Other', channelLink: 'https://youtube.com/@other' });
+});
+
+describe('SQLiteService.getScheduledVideoCountsByDate', () => {
+  it('counts the profile pending videos per day from the given date', async () => {
+    await addVideo({ scheduleDate: '2026-03-09T20:00' });
+    await addVideo({ scheduleDate: '2026-03-10T09:00' });
+    await addVideo({ scheduleDate: '2026-03-10T21:00' });
+    await addVideo({ scheduleDate: '2026-03-12T00:00' });
+    await addVideo({ scheduleDate: '2026-03-12T10:00', status: 'completed' });
+    await addVideo({ scheduleDate: '2026-03-12T11:00', status: 'missed-schedule' });
+    await addVideo({ scheduleDate: '2026-03-12T12:00', profileId: 2 });
+
+    const counts = await sqliteService.getScheduledVideoCountsByDate(1, new Date(2026, 2, 10, 15, 30));
+
+    expect(counts).toEqual({ '2026-03-10': 2, '2026-03-12': 1 });
+  });
+});
+
+describe('SQLiteService.rescheduleVideos', () => {
+  it('moves missed videos to pending at the new time', async () => {
+    const video = await addVideo({ scheduleDate: '2026-03-01T09:00', scheduleTimeZone: 'Asia/Tokyo', status: 'missed-schedule' });
+
+    const updated = await sqliteService.rescheduleVideos([
+      { videoId: video.id, scheduleDate: '2026-03-11T09:00', scheduleTimeZone: 'Asia/Tokyo' }
+    ]);
+
+    expect(updated).toBe(1);
+    expect(await sqliteService.getVideo(video.id)).toMatchObject({
+      status: 'pending',
+      scheduleDate: '2026-03-11T09:00',
+      scheduleTimeZone: 'Asia/Tokyo',
+      scheduleAt: '2026-03-11T00:00:00.000Z'
+    });
+  });
+
+  it('leaves videos that are not missed alone', async () => {
+    const pending = await addVideo({ scheduleDate: '2026-03-01T09:00' });
+    const missed = await addVideo({ scheduleDate: '2026-03-01T10:00', status: 'missed-schedule' });
+
+    const updated = await sqliteService.rescheduleVideos([
+      { videoId: pending.id, scheduleDate: '2026-03-11T09:00', scheduleTimeZone: null },
+      { videoId: missed.id, scheduleDate: '2026-03-11T10:00', scheduleTimeZone: null }
+    ]);
+
+    expect(updated).toBe(1);
+    expect((await sqliteService.getVideo(pending.id))?.scheduleDate).toBe('2026-03-01T09:00');
+  });
+
+  it('rolls back every move when one fails', async () => {
+    const first = await addVideo({ scheduleDate: '2026-03-01T09:00', status: 'missed-schedule' });
+    const second = await addVideo({ scheduleDate: '2026-03-01T10:00', status: 'missed-schedule' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(sqliteService.rescheduleVideos([
+      { videoId: first.id, scheduleDate: '2026-03-11T09:00', scheduleTimeZone: null },
+      { videoId: second.id, scheduleDate: 'not a date', scheduleTimeZone: null }
+    ])).rejects.toThrow('Invalid schedule date');
+
+    expect(await sqliteService.getVideo(first.id)).toMatchObject({ status: 'missed-schedule', scheduleDate: '2026-03-01T09:00' });
+    expect(connection.select("SELECT COUNT(*) AS count FROM videos WHERE status = 'pending'")[0].count).toBe(0);
+  });
+});
+
+describe('SQLiteService.updateVideo status', () => {
+  it('applies an allowed transition', async () => {
+    const video = await addVideo({});
+
+    expect(await sqliteService.updateVideo(video.id, { status: 'completed' })).toMatchObject({ status: 'completed' });
+  });
+
+  it('refuses an illegal transition and leaves the row unchanged', async () => {
+    const video = await addVideo({ status: 'completed', title: 'Before' });
+
+    await expect(sqliteService.updateVideo(video.id, { status: 'missed-schedule', title: 'After' }))
+      .rejects.toBeInstanceOf(InvalidStatusTransitionError);
+    expect(await sqliteService.getVideo(video.id)).toMatchObject({ status: 'completed', title: 'Before' });
+  });
+
+  it('has a CHECK constraint behind the state machine', () => {
+    expect(() => connection.database.run(
+      "INSERT INTO videos (profileId, title, description, scheduleDate, status) VALUES (1, 'x', '', '2026-03-01T09:00', 'archived')"
+    )).toThrow(/CHECK constraint failed/);
+  });
+});
+
+describe('SQLiteService video revisions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts a new video at revision 0', async () => {
+    const video = await addVideo({});
+
+    expect(await sqliteService.getVideo(video.id)).toMatchObject({ revision: 0, updatedAt: '2026-03-01T08:00:00.000Z' });
+  });
+
+  it('bumps the revision and change time on every update', async () => {
+    const video = await addVideo({});
+
+    vi.setSystemTime(new Date('2026-03-01T09:30:00Z'));
+    await sqliteService.updateVideo(video.id, { title: 'Renamed' });
+    await sqliteService.updateVideo(video.id, { scheduleDate: '2026-03-05T17:00' });
+
+    expect(await sqliteService.getVideo(video.id)).toMatchObject({ revision: 2, updatedAt: '2026-03-01T09:30:00.000Z' });
+  });
+
+  it('counts reschedules and missed detection as changes', async () => {
+    const video = await addVideo({ scheduleDate: '2026-02-27T09:00' });
+
+    await sqliteService.markMissedVideos(new Date(2026, 2, 1));
+    await sqliteService.rescheduleVideos([{ videoId: video.id, scheduleDate: '2026-03-04T09:00', scheduleTimeZone: null }]);
+
+    expect(await sqliteService.getVideo(video.id)).toMatchObject({ status: 'pending', revision: 2 });
+  });
+
+  it('leaves the revision alone when nothing changes', async () => {
+    const video = await addVideo({});
+
+    await sqliteService.updateVideo(video.id, {});
+
+    expect(await sqliteService.getVideo(video.id)).toMatchObject({ revision: 0 });
+  });
+});
+
+describe('SQLiteService.markMissedVideos', () => {
+  it('marks pending videos whose publish time has passed, in their own zone', async () => {
+    // 09:00 in Tokyo is 00:00 UTC
+    const tokyo = await addVideo({ scheduleDate: '2026-03-02T09:00', scheduleTimeZone: 'Asia/Tokyo' });
+    const later = await addVideo({ scheduleDate: '2026-03-02T09:00', scheduleTimeZone: 'UTC' });
+    await addVideo({ scheduleDate: '2026-03-01T09:00', status: 'completed', scheduleTimeZone: 'UTC' });
+
+    const missed = await sqliteService.markMissedVideos(new Date('2026-03-02T08:59:00Z'));
+
+    expect(missed.map(video => video.id)).toEqual([tokyo.id]);
+    expect(await sqliteService.getVideo(tokyo.id)).toMatchObject({ status: 'missed-schedule', scheduleDate: '2026-03-02T09:00' });
+    expect(await sqliteService.getVideo(later.id)).toMatchObject({ status: 'pending' });
+  });
+
+  it('marks a video the moment its publish time passes, not only on the next day', async () => {
+    const video = await addVideo({ scheduleDate: '2026-03-02T09:00', scheduleTimeZone: 'UTC' });
+
+    expect(await sqliteService.markMissedVideos(new Date('2026-03-02T09:00:00Z'))).toEqual([]);
+    expect((await sqliteService.markMissedVideos(new Date('2026-03-02T09:01:00Z'))).map(v => v.id)).toEqual([video.id]);
+  });
+});
@@ -1,7 +1,34 @@
 import { CapacitorSQLite, SQLiteConnection, SQLiteDBConnection } from '@capacitor-community/sqlite';
 import { Device } from '@capacitor/device';
-import { Profile, Video, CREATE_PROFILES_TABLE, CREATE_VIDEOS_TABLE } from './schema';
-import { format, parse, isValid } from 'date-fns';
+import {
+  NewProfile,
+  NewPushEvent,
+  NewScheduleTemplate,
+  Profile,
+  ProfileVideoStats,
+  PushEvent,
+  ScheduleTemplate,
+  Video,
+  VideoStatus
+} from './schema';
+import {
+  AppliedMigration,
+  CREATE_SCHEMA_MIGRATIONS_TABLE,
+  LATEST_SCHEMA_VERSION,
+  MigrationError,
+  getPendingMigrations
+} from './migrations';
+import { InvalidStatusTransitionError, assertStatusTransition } from './video-status';
+import { ImportPlan } from './data-import';
+import { DEFAULT_PAGE_SIZE, VideoPage, VideoQuery, buildVideoQuerySql, encodeVideoCursor } from './video-query';
+import { assertPushAllowed, isPushWindowExpired, resolvePushResetPolicy } from './push-limit';
+import { getScheduleInstant, normalizeScheduleDate } from '../scheduling/schedule-time';
+import { NoFreeSlotError, ScheduleSlot, findNextFreeSlot } from '../scheduling/schedule-templates';
+import { APP_SETTINGS } from '../config';
+import { format, parse } from 'date-fns';
+
+// SET clause every video UPDATE appends; the parameter is the change time
+const TOUCH_VIDEO = 'revision = revision + 1, updatedAt = ?';
 
 export class SQLiteService {
   private static instance: SQLiteService;
@@ -9,7 +36,7 @@ export class SQLiteService {
   private db!: SQLiteDBConnection;
   private _isInitialized = false;
   private DB_NAME = 'youtube_planner.db';
-  private DB_VERSION = 1;
+  private DB_VERSION = LATEST_SCHEMA_VERSION;
   
   public get isInitialized(): boolean {
     return this._isInitialized;
@@ -39,8 +66,8 @@ export class SQLiteService {
         await this.initializeWeb();
       }
 
-      // Create database schema
-      await this.createTables();
+      // Bring the database schema up to date
+      await this.runMigrations();
       
       this._isInitialized = true;
       console.log('SQLite database initialized successfully');
@@ -108,19 +135,61 @@ export class SQLiteService {
     }
   }
 
-  private async createTables(): Promise<void> {
-    try {
-      // Create the profiles table
-      await this.db.execute(CREATE_PROFILES_TABLE);
-      
-      // Create the videos table
-      await this.db.execute(CREATE_VIDEOS_TABLE);
-      
-      console.log('Database schema created successfully');
-    } catch (error) {
-      console.error('Error creating database schema:', error);
-      throw error;
+  /**
+   * Apply all pending schema migrations
+   * Pending migrations run inside a single transaction so a failure
+   * rolls the database back to the state it was in before the run
+   * @returns The migrations that were applied during this run
+   */
+  public async runMigrations(): Promise<AppliedMigration[]> {
+    await this.db.execute(CREATE_SCHEMA_MIGRATIONS_TABLE);
+
+    const appliedVersions = await this.getAppliedMigrationVersions();
+    const pending = getPendingMigrations(appliedVersions);
+    if (pending.length === 0) {
+      return [];
     }
+
+    const applied: AppliedMigration[] = [];
+    await this.db.beginTransaction();
+
+    for (const migration of pending) {
+      try {
+        for (const statement of migration.up) {
+          await this.db.execute(statement, false);
+        }
+
+        const appliedAt = format(new Date(), 'yyyy-MM-dd HH:mm:ss');
+        await this.db.run(
+          'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+          [migration.version, migration.name, appliedAt],
+          false
+        );
+        applied.push({ version: migration.version, name: migration.name, appliedAt });
+      } catch (error) {
+        await this.db.rollbackTransaction().catch(e => console.error('Error rolling back migrations:', e));
+        const migrationError = new MigrationError(migration, error);
+        console.error(migrationError.message);
+        throw migrationError;
+      }
+    }
+
+    await this.db.commitTransaction();
+    console.log(`Applied ${applied.length} database migration(s), schema is at version ${LATEST_SCHEMA_VERSION}`);
+    return applied;
+  }
+
+  /**
+   * Get the current schema version (0 for a database with no migrations applied)
+   */
+  async getSchemaVersion(): Promise<number> {
+    const result = await this.db.query('SELECT MAX(version) AS version FROM schema_migrations');
+    return result.values?.[0]?.version ?? 0;
+  }
+
+  private async getAppliedMigrationVersions(): Promise<number[]> {
+    const result = await this.db.query('SELECT version FROM schema_migrations ORDER BY version ASC');
+    return (result.values || []).map(row => row.version);
   }
 
   // Profile methods
@@ -139,27 +208,40 @@ export class SQLiteService {
     return this.mapProfileResult(result.values[0]);
   }
 
-  async createProfile(profile: Omit<Profile, 'id'>): Promise<Profile> {
+  /**
+   * @param transaction false when called inside an explicit transaction
+   */
+  async createProfile(profile: NewProfile, transaction = true): Promise<Profile> {
     const query = `
-      INSERT INTO profiles (name, channelName, channelLink, dailyPushCount, lastPushReset)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO profiles (name, channelName, channelLink, dailyPushCount, dailyPushLimit, lastPushReset,
+        pushResetPolicy, pushResetTimeZone)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
+    const dailyPushLimit = profile.dailyPushLimit ?? APP_SETTINGS.DEFAULT_DAILY_PUSH_LIMIT;
+    const pushResetPolicy = profile.pushResetPolicy ?? null;
+    const pushResetTimeZone = profile.pushResetTimeZone ?? null;
     const result = await this.db.run(query, [
       profile.name,
       profile.channelName,
       profile.channelLink,
       profile.dailyPushCount || 0,
-      profile.lastPushReset || null
-    ]);
+      dailyPushLimit,
+      profile.lastPushReset || null,
+      pushResetPolicy,
+      pushResetTimeZone
+    ], transaction);
     
     return {
-      id: result.lastId!,
-      ...profile
+      id: result.changes!.lastId!,
+      ...profile,
+      dailyPushLimit,
+      pushResetPolicy,
+      pushResetTimeZone
     };
   }
 
-  async updateProfile(id: number, profile: Partial<Profile>): Promise<Profile | undefined> {
+  async updateProfile(id: number, profile: Partial<Profile>, transaction = true): Promise<Profile | undefined> {
     // Build the update query dynamically based on which fields are being updated
     const fields: string[] = [];
     const values: any[] = [];
@@ -184,11 +266,26 @@ export class SQLiteService {
       values.push(profile.dailyPushCount);
     }
     
+    if (profile.dailyPushLimit !== undefined) {
+      fields.push('dailyPushLimit = ?');
+      values.push(profile.dailyPushLimit);
+    }
+    
     if (profile.lastPushReset !== undefined) {
       fields.push('lastPushReset = ?');
       values.push(profile.lastPushReset);
     }
     
+    if (profile.pushResetPolicy !== undefined) {
+      fields.push('pushResetPolicy = ?');
+      values.push(profile.pushResetPolicy);
+    }
+    
+    if (profile.pushResetTimeZone !== undefined) {
+      fields.push('pushResetTimeZone = ?');
+      values.push(profile.pushResetTimeZone);
+    }
+    
     if (fields.length === 0) {
       return this.getProfile(id);
     }
@@ -196,7 +293,7 @@ export class SQLiteService {
     const query = `UPDATE profiles SET ${fields.join(', ')} WHERE id = ?`;
     values.push(id);
     
-    await this.db.run(query, values);
+    await this.db.run(query, values, transaction);
     
     return this.getProfile(id);
   }
@@ -207,36 +304,273 @@ export class SQLiteService {
     return result.changes !== undefined && result.changes > 0;
   }
 
-  async incrementProfilePushCount(profileId: number): Promise<Profile | undefined> {
+  /**
+   * @param transaction false when called inside an explicit transaction
+   */
+  async incrementProfilePushCount(profileId: number, now: Date = new Date(), transaction = true): Promise<Profile | undefined> {
     const profile = await this.getProfile(profileId);
     if (!profile) return undefined;
     
-    // Check if we need to reset the count (if 24 hours have passed)
-    const shouldReset = profile.lastPushReset ? 
-      this.has24HoursPassed(new Date(profile.lastPushReset)) : 
-      true;
-    
-    if (shouldReset) {
-      // Reset count and update last reset time
-      const now = new Date();
+    // Start a new window if the previous one has passed under the profile's reset policy
+    if (isPushWindowExpired(profile.lastPushReset, resolvePushResetPolicy(profile), now)) {
       return this.updateProfile(profileId, { 
         dailyPushCount: 1,
         lastPushReset: format(now, 'yyyy-MM-dd HH:mm:ss')
-      });
+      }, transaction);
     } else {
       // Increment the count
       return this.updateProfile(profileId, { 
         dailyPushCount: profile.dailyPushCount + 1 
-      });
+      }, transaction);
+    }
+  }
+
+  /**
+   * Mark a video as pushed, count it against its profile's daily limit and
+   * log a push event, in one transaction
+   * @throws PushLimitReachedError if the profile has no pushes left
+   */
+  async recordVideoPush(
+    videoId: number,
+    changes: Partial<Video>,
+    now: Date = new Date(),
+    note: string | null = null
+  ): Promise<Video | undefined> {
+    await this.db.beginTransaction();
+    try {
+      const video = await this.getVideo(videoId);
+      if (!video) {
+        await this.db.rollbackTransaction();
+        return undefined;
+      }
+      
+      // Checked next to the counter update so two quick pushes cannot both pass
+      const profile = await this.getProfile(video.profileId);
+      if (profile) {
+        assertPushAllowed(profile, now);
+      }
+      
+      await this.updateVideo(videoId, { ...changes, status: 'completed' }, false);
+      if (profile) {
+        await this.incrementProfilePushCount(profile.id, now, false);
+      }
+      await this.recordPushEvent({
+        videoId,
+        profileId: video.profileId,
+        action: 'push',
+        createdAt: now.toISOString(),
+        note
+      }, false);
+      await this.db.commitTransaction();
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back push:', e));
+      throw error;
+    }
+    
+    return this.getVideo(videoId);
+  }
+
+  /**
+   * Move a pushed video back to pending and log a revert event, in one transaction
+   * The push still counts against the daily limit
+   */
+  async revertVideoPush(
+    videoId: number,
+    changes: Partial<Video>,
+    now: Date = new Date(),
+    note: string | null = null
+  ): Promise<Video | undefined> {
+    const video = await this.getVideo(videoId);
+    if (!video) return undefined;
+    
+    await this.db.beginTransaction();
+    try {
+      await this.updateVideo(videoId, { ...changes, status: 'pending' }, false);
+      await this.recordPushEvent({
+        videoId,
+        profileId: video.profileId,
+        action: 'revert',
+        createdAt: now.toISOString(),
+        note
+      }, false);
+      await this.db.commitTransaction();
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back revert:', e));
+      throw error;
     }
+    
+    return this.getVideo(videoId);
   }
 
-  async resetProfilePushCount(profileId: number): Promise<Profile | undefined> {
+  async resetProfilePushCount(profileId: number, note: string | null = null): Promise<Profile | undefined> {
+    const profile = await this.getProfile(profileId);
+    if (!profile) return undefined;
+    
     const now = new Date();
-    return this.updateProfile(profileId, {
-      dailyPushCount: 0,
-      lastPushReset: format(now, 'yyyy-MM-dd HH:mm:ss')
-    });
+    await this.db.beginTransaction();
+    try {
+      await this.updateProfile(profileId, {
+        dailyPushCount: 0,
+        lastPushReset: format(now, 'yyyy-MM-dd HH:mm:ss')
+      }, false);
+      await this.recordPushEvent({
+        videoId: null,
+        profileId,
+        action: 'reset-limit',
+        createdAt: now.toISOString(),
+        note
+      }, false);
+      await this.db.commitTransaction();
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back push count reset:', e));
+      throw error;
+    }
+    
+    return this.getProfile(profileId);
+  }
+
+  // Push history methods
+  /**
+   * @param transaction false when called inside an explicit transaction
+   */
+  async recordPushEvent(event: NewPushEvent, transaction = true): Promise<PushEvent> {
+    const query = `
+      INSERT INTO push_events (videoId, profileId, action, createdAt, note)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+    
+    const createdAt = event.createdAt ?? new Date().toISOString();
+    const note = event.note ?? null;
+    const result = await this.db.run(query, [
+      event.videoId,
+      event.profileId,
+      event.action,
+      createdAt,
+      note
+    ], transaction);
+    
+    return {
+      id: result.changes!.lastId!,
+      ...event,
+      createdAt,
+      note
+    };
+  }
+
+  /**
+   * A profile's push history, newest first
+   * @param limit Maximum number of events to return; all when omitted
+   */
+  async getPushEventsByProfile(profileId: number, limit?: number): Promise<PushEvent[]> {
+    const query = `SELECT * FROM push_events WHERE profileId = ? ORDER BY createdAt DESC, id DESC${limit ? ' LIMIT ?' : ''}`;
+    const result = await this.db.query(query, limit ? [profileId, limit] : [profileId]);
+    return this.mapPushEventResults(result.values || []);
+  }
+
+  /**
+   * A video's push history, newest first
+   */
+  async getPushEventsByVideo(videoId: number): Promise<PushEvent[]> {
+    const query = 'SELECT * FROM push_events WHERE videoId = ? ORDER BY createdAt DESC, id DESC';
+    const result = await this.db.query(query, [videoId]);
+    return this.mapPushEventResults(result.values || []);
+  }
+
+  // Schedule template methods
+  async getScheduleTemplates(profileId: number): Promise<ScheduleTemplate[]> {
+    const query = 'SELECT * FROM schedule_templates WHERE profileId = ? ORDER BY time ASC, id ASC';
+    const result = await this.db.query(query, [profileId]);
+    return this.mapScheduleTemplateResults(result.values || []);
+  }
+
+  async getScheduleTemplate(id: number): Promise<ScheduleTemplate | undefined> {
+    const query = 'SELECT * FROM schedule_templates WHERE id = ?';
+    const result = await this.db.query(query, [id]);
+    if (!result.values || result.values.length === 0) {
+      return undefined;
+    }
+    return this.mapScheduleTemplateResult(result.values[0]);
+  }
+
+  async createScheduleTemplate(template: NewScheduleTemplate): Promise<ScheduleTemplate> {
+    const query = `
+      INSERT INTO schedule_templates (profileId, weekdays, time, timeZone, isActive)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+    
+    const timeZone = template.timeZone ?? null;
+    const isActive = template.isActive ?? true;
+    const result = await this.db.run(query, [
+      template.profileId,
+      template.weekdays.join(','),
+      template.time,
+      timeZone,
+      isActive ? 1 : 0
+    ]);
+    
+    return {
+      id: result.changes!.lastId!,
+      ...template,
+      timeZone,
+      isActive
+    };
+  }
+
+  async updateScheduleTemplate(id: number, template: Partial<ScheduleTemplate>): Promise<ScheduleTemplate | undefined> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    
+    if (template.weekdays !== undefined) {
+      fields.push('weekdays = ?');
+      values.push(template.weekdays.join(','));
+    }
+    
+    if (template.time !== undefined) {
+      fields.push('time = ?');
+      values.push(template.time);
+    }
+    
+    if (template.timeZone !== undefined) {
+      fields.push('timeZone = ?');
+      values.push(template.timeZone);
+    }
+    
+    if (template.isActive !== undefined) {
+      fields.push('isActive = ?');
+      values.push(template.isActive ? 1 : 0);
+    }
+    
+    if (fields.length > 0) {
+      values.push(id);
+      await this.db.run(`UPDATE schedule_templates SET ${fields.join(', ')} WHERE id = ?`, values);
+    }
+    
+    return this.getScheduleTemplate(id);
+  }
+
+  async deleteScheduleTemplate(id: number): Promise<boolean> {
+    const result = await this.db.run('DELETE FROM schedule_templates WHERE id = ?', [id]);
+    return (result.changes?.changes ?? 0) > 0;
+  }
+
+  /**
+   * The earliest slot of a profile's templates that none of its other
+   * pending videos holds
+   * @param excludeVideoId A video whose own slot counts as free
+   * @throws NoFreeSlotError if the profile has no active templates or no free slot
+   */
+  async findNextFreeSlot(profileId: number, now: Date = new Date(), excludeVideoId?: number): Promise<ScheduleSlot> {
+    const templates = await this.getScheduleTemplates(profileId);
+    const taken = await this.db.query(
+      "SELECT scheduleAt FROM videos WHERE profileId = ? AND status = 'pending' AND scheduleAt > ? AND id != ?",
+      [profileId, now.toISOString(), excludeVideoId ?? -1]
+    );
+    
+    const slot = findNextFreeSlot(templates, (taken.values || []).map(row => row.scheduleAt), now);
+    if (!slot) {
+      throw new NoFreeSlotError(profileId, templates.some(t => t.isActive));
+    }
+    return slot;
   }
 
   // Video methods
@@ -252,19 +586,236 @@ export class SQLiteService {
     return this.mapVideoResults(result.values || []);
   }
 
-  async getVideosByStatus(status: string): Promise<Video[]> {
+  async getVideosByStatus(status: VideoStatus): Promise<Video[]> {
     const query = 'SELECT * FROM videos WHERE status = ? ORDER BY scheduleDate DESC';
     const result = await this.db.query(query, [status]);
     return this.mapVideoResults(result.values || []);
   }
 
+  /**
+   * Videos matching a query's filters, in its sort order
+   */
+  async queryVideos(query: VideoQuery): Promise<Video[]> {
+    const { where, params, orderBy } = buildVideoQuerySql(query);
+    const result = await this.db.query(`SELECT * FROM videos ${where} ${orderBy}`, params);
+    return this.mapVideoResults(result.values || []);
+  }
+
+  /**
+   * One page of the videos matching a query
+   * Reads one row more than the page size to learn whether another page follows
+   */
+  async queryVideoPage(query: VideoQuery): Promise<VideoPage<Video>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const { where, params, orderBy, sortExpression } = buildVideoQuerySql(query);
+    const result = await this.db.query(
+      `SELECT *, ${sortExpression} AS sortValue FROM videos ${where} ${orderBy} LIMIT ?`,
+      [...params, limit + 1]
+    );
+    
+    const rows = result.values || [];
+    const last = rows.length > limit ? rows[limit - 1] : null;
+    return {
+      items: this.mapVideoResults(rows.slice(0, limit)),
+      nextCursor: last ? encodeVideoCursor(last.sortValue ?? null, last.id) : null
+    };
+  }
+
+  /**
+   * Video counts and upload dates per profile, for overviews that would
+   * otherwise load every video
+   */
+  async getVideoStats(): Promise<ProfileVideoStats[]> {
+    const query = `
+      SELECT profileId,
+        SUM(status = 'pending') AS pendingCount,
+        SUM(status = 'missed-schedule') AS missedCount,
+        SUM(status = 'completed') AS completedCount,
+        MAX(CASE WHEN status = 'completed' THEN uploadedDate END) AS lastUploadedDate,
+        MIN(CASE WHEN status = 'pending' THEN scheduleDate END) AS nextScheduleDate
+      FROM videos
+      GROUP BY profileId
+    `;
+    const result = await this.db.query(query);
+    return (result.values || []).map(row => ({
+      profileId: row.profileId,
+      pendingCount: row.pendingCount ?? 0,
+      missedCount: row.missedCount ?? 0,
+      completedCount: row.completedCount ?? 0,
+      lastUploadedDate: row.lastUploadedDate ?? null,
+      nextScheduleDate: row.nextScheduleDate ?? null
+    }));
+  }
+
   async getVideosByDate(date: Date): Promise<Video[]> {
     const dateString = format(date, 'yyyy-MM-dd');
-    const query = 'SELECT * FROM videos WHERE date(scheduleDate) = ? ORDER BY scheduleDate ASC';
-    const result = await this.db.query(query, [dateString]);
+    // scheduleDate starts with its yyyy-MM-dd day, so a string range selects the
+    // day and, unlike date(scheduleDate), can use the scheduleDate indexes
+    const query = 'SELECT * FROM videos WHERE scheduleDate >= ? AND scheduleDate < ? ORDER BY scheduleAt ASC, id ASC';
+    const result = await this.db.query(query, [dateString, `${dateString}~`]);
     return this.mapVideoResults(result.values || []);
   }
 
+  /**
+   * Pending videos whose publish time has arrived, and the next one still to come
+   * @param profileId Only look at this profile's videos; all profiles when omitted
+   */
+  async getDueVideos(now: Date = new Date(), profileId?: number): Promise<{ due: Video[]; next: Video | null }> {
+    const nowString = now.toISOString();
+    const profileFilter = profileId !== undefined ? ' AND profileId = ?' : '';
+    const params = profileId !== undefined ? [nowString, profileId] : [nowString];
+    
+    const dueResult = await this.db.query(
+      `SELECT * FROM videos WHERE status = 'pending' AND scheduleAt <= ?${profileFilter} ORDER BY scheduleAt ASC, id ASC`,
+      params
+    );
+    const nextResult = await this.db.query(
+      `SELECT * FROM videos WHERE status = 'pending' AND scheduleAt > ?${profileFilter} ORDER BY scheduleAt ASC, id ASC LIMIT 1`,
+      params
+    );
+    
+    const next = nextResult.values?.[0];
+    return {
+      due: this.mapVideoResults(dueResult.values || []),
+      next: next ? this.mapVideoResult(next) : null
+    };
+  }
+
+  /**
+   * Count a profile's pending videos per day, starting from a given date
+   * @returns Map of yyyy-MM-dd to the number of videos scheduled that day
+   */
+  async getScheduledVideoCountsByDate(profileId: number, fromDate: Date): Promise<Record<string, number>> {
+    const query = `
+      SELECT date(scheduleDate) AS day, COUNT(*) AS count
+      FROM videos
+      WHERE profileId = ? AND status = 'pending' AND scheduleDate >= ?
+      GROUP BY date(scheduleDate)
+    `;
+    const result = await this.db.query(query, [profileId, format(fromDate, 'yyyy-MM-dd')]);
+    const counts: Record<string, number> = {};
+    for (const row of result.values || []) {
+      counts[row.day] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Move missed videos to new schedule dates and back to pending in one transaction
+   * @returns Number of videos that were updated
+   */
+  async rescheduleVideos(
+    assignments: { videoId: number; scheduleDate: string; scheduleTimeZone: string | null }[]
+  ): Promise<number> {
+    if (assignments.length === 0) return 0;
+
+    let updated = 0;
+    await this.db.beginTransaction();
+    try {
+      for (const assignment of assignments) {
+        // Only missed videos may be moved back to pending by a reschedule
+        const scheduleDate = normalizeScheduleDate(assignment.scheduleDate);
+        const scheduleAt = getScheduleInstant(scheduleDate, assignment.scheduleTimeZone).toISOString();
+        const result = await this.db.run(
+          `UPDATE videos SET scheduleDate = ?, scheduleAt = ?, status = 'pending', ${TOUCH_VIDEO}
+           WHERE id = ? AND status = 'missed-schedule'`,
+          [scheduleDate, scheduleAt, new Date().toISOString(), assignment.videoId],
+          false
+        );
+        updated += result.changes?.changes ?? 0;
+      }
+      await this.db.commitTransaction();
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back reschedule:', e));
+      throw error;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Move every pending video whose publish time has passed to missed-schedule
+   * The original scheduleDate is left untouched
+   * @returns The videos that were changed, as they were before the update
+   */
+  async markMissedVideos(now: Date): Promise<Video[]> {
+    const nowIso = now.toISOString();
+    const where = "status = 'pending' AND scheduleAt < ?";
+
+    await this.db.beginTransaction();
+    try {
+      const result = await this.db.query(
+        `SELECT * FROM videos WHERE ${where} ORDER BY scheduleAt ASC`,
+        [nowIso]
+      );
+      const missed = this.mapVideoResults(result.values || []);
+
+      if (missed.length > 0) {
+        await this.db.run(
+          `UPDATE videos SET status = 'missed-schedule', ${TOUCH_VIDEO} WHERE ${where}`,
+          [nowIso, nowIso],
+          false
+        );
+      }
+
+      await this.db.commitTransaction();
+      return missed;
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back missed detection:', e));
+      throw error;
+    }
+  }
+
+  /**
+   * Carry out an import plan in a single transaction
+   * Import-file profile ids are remapped to the ids of created or matched rows
+   * @returns The videos deleted by a replace, so their files can be removed
+   */
+  async applyImportPlan(plan: ImportPlan): Promise<Video[]> {
+    const removedVideos = plan.strategy === 'replace' ? await this.getVideos() : [];
+
+    await this.db.beginTransaction();
+    try {
+      if (plan.strategy === 'replace') {
+        await this.db.run('DELETE FROM videos', [], false);
+        await this.db.run('DELETE FROM profiles', [], false);
+      }
+
+      // Import-file profile id -> id in this database
+      const profileIds = new Map<number, number>();
+      for (const step of plan.profiles) {
+        if (step.duplicateOf !== null) {
+          profileIds.set(step.profile.id, profileIds.get(step.duplicateOf)!);
+        } else if (step.action === 'create') {
+          const { id, ...profile } = step.profile;
+          const created = await this.createProfile(profile, false);
+          profileIds.set(id, created.id);
+        } else {
+          if (step.action === 'update') {
+            await this.updateProfile(step.existingId!, step.changes, false);
+          }
+          profileIds.set(step.profile.id, step.existingId!);
+        }
+      }
+
+      for (const step of plan.videos) {
+        if (step.action === 'create') {
+          const { id, ...video } = step.video;
+          await this.createVideo({ ...video, profileId: profileIds.get(video.profileId)! }, false);
+        } else if (step.action === 'update') {
+          await this.updateVideo(step.existingId!, step.changes, false);
+        }
+      }
+
+      await this.db.commitTransaction();
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back import:', e));
+      throw error;
+    }
+
+    return removedVideos;
+  }
+
   async getVideo(id: number): Promise<Video | undefined> {
     const query = 'SELECT * FROM videos WHERE id = ?';
     const result = await this.db.query(query, [id]);
@@ -274,16 +825,24 @@ export class SQLiteService {
     return this.mapVideoResult(result.values[0]);
   }
 
-  async createVideo(video: Omit<Video, 'id'>): Promise<Video> {
+  /**
+   * @param transaction false when called inside an explicit transaction
+   */
+  async createVideo(video: Omit<Video, 'id'>, transaction = true): Promise<Video> {
     const query = `
       INSERT INTO videos (
         profileId, title, description, filePath, fileName, fileSize,
         originalFilePath, originalFileSize, thumbnailPath, duration,
-        scheduleDate, status, uploadedDate, youtubeLink, isFileUploaded, isPlaceholder
+        scheduleDate, scheduleTimeZone, scheduleAt, status, uploadedDate, youtubeLink, isFileUploaded, isPlaceholder,
+        durationSeconds, width, height, container, codec, bitrate, updatedAt
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
+    const scheduleDate = normalizeScheduleDate(video.scheduleDate);
+    const scheduleTimeZone = video.scheduleTimeZone ?? null;
+    const scheduleAt = getScheduleInstant(scheduleDate, scheduleTimeZone).toISOString();
+    const updatedAt = new Date().toISOString();
     const result = await this.db.run(query, [
       video.profileId,
       video.title,
@@ -295,21 +854,89 @@ export class SQLiteService {
       video.originalFileSize || null,
       video.thumbnailPath || null,
       video.duration || null,
-      video.scheduleDate,
+      scheduleDate,
+      scheduleTimeZone,
+      scheduleAt,
       video.status || 'pending',
       video.uploadedDate || null,
       video.youtubeLink || null,
       video.isFileUploaded ? 1 : 0,
-      video.isPlaceholder ? 1 : 0
-    ]);
+      video.isPlaceholder ? 1 : 0,
+      video.durationSeconds ?? null,
+      video.width ?? null,
+      video.height ?? null,
+      video.container ?? null,
+      video.codec ?? null,
+      video.bitrate ?? null,
+      updatedAt
+    ], transaction);
     
     return {
-      id: result.lastId!,
-      ...video
+      id: result.changes!.lastId!,
+      ...video,
+      scheduleDate,
+      scheduleTimeZone,
+      scheduleAt,
+      revision: 0,
+      updatedAt
     };
   }
 
-  async updateVideo(id: number, video: Partial<Video>): Promise<Video | undefined> {
+  /**
+   * Create a video in its profile's next free template slot
+   * The slot lookup and insert share a transaction so two quick creates
+   * cannot take the same slot
+   * @throws NoFreeSlotError if the profile has no free slot
+   */
+  async createVideoInNextFreeSlot(
+    video: Omit<Video, 'id' | 'scheduleDate' | 'scheduleTimeZone' | 'scheduleAt'>,
+    now: Date = new Date()
+  ): Promise<Video> {
+    await this.db.beginTransaction();
+    try {
+      const slot = await this.findNextFreeSlot(video.profileId, now);
+      const created = await this.createVideo({
+        ...video,
+        scheduleDate: slot.scheduleDate,
+        scheduleTimeZone: slot.scheduleTimeZone
+      }, false);
+      await this.db.commitTransaction();
+      return created;
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back slot assignment:', e));
+      throw error;
+    }
+  }
+
+  /**
+   * Move a pending video to its profile's next free template slot
+   * @throws NoFreeSlotError if the profile has no free slot
+   */
+  async assignVideoToNextFreeSlot(videoId: number, now: Date = new Date()): Promise<Video | undefined> {
+    const video = await this.getVideo(videoId);
+    if (!video) return undefined;
+    if (video.status === 'completed') {
+      throw new InvalidStatusTransitionError(videoId, video.status, 'pending');
+    }
+
+    await this.db.beginTransaction();
+    try {
+      const slot = await this.findNextFreeSlot(video.profileId, now, videoId);
+      await this.db.run(
+        `UPDATE videos SET scheduleDate = ?, scheduleTimeZone = ?, scheduleAt = ?, status = 'pending', ${TOUCH_VIDEO} WHERE id = ?`,
+        [slot.scheduleDate, slot.scheduleTimeZone, slot.scheduleAt, new Date().toISOString(), videoId],
+        false
+      );
+      await this.db.commitTransaction();
+    } catch (error) {
+      await this.db.rollbackTransaction().catch(e => console.error('Error rolling back slot assignment:', e));
+      throw error;
+    }
+    
+    return this.getVideo(videoId);
+  }
+
+  async updateVideo(id: number, video: Partial<Video>, transaction = true): Promise<Video | undefined> {
     // Build the update query dynamically based on which fields are being updated
     const fields: string[] = [];
     const values: any[] = [];
@@ -364,12 +991,22 @@ export class SQLiteService {
       values.push(video.duration);
     }
     
-    if (video.scheduleDate !== undefined) {
-      fields.push('scheduleDate = ?');
-      values.push(video.scheduleDate);
+    // scheduleAt follows whichever of scheduleDate and scheduleTimeZone changed
+    if (video.scheduleDate !== undefined || video.scheduleTimeZone !== undefined) {
+      const current = await this.getVideo(id);
+      if (current) {
+        const scheduleDate = normalizeScheduleDate(video.scheduleDate ?? current.scheduleDate);
+        const scheduleTimeZone = video.scheduleTimeZone !== undefined ? video.scheduleTimeZone : current.scheduleTimeZone ?? null;
+        fields.push('scheduleDate = ?', 'scheduleTimeZone = ?', 'scheduleAt = ?');
+        values.push(scheduleDate, scheduleTimeZone, getScheduleInstant(scheduleDate, scheduleTimeZone).toISOString());
+      }
     }
     
     if (video.status !== undefined) {
+      const current = await this.getVideo(id);
+      if (current) {
+        assertStatusTransition(id, current.status, video.status);
+      }
       fields.push('status = ?');
       values.push(video.status);
     }
@@ -394,14 +1031,47 @@ export class SQLiteService {
       values.push(video.isPlaceholder ? 1 : 0);
     }
     
+    if (video.durationSeconds !== undefined) {
+      fields.push('durationSeconds = ?');
+      values.push(video.durationSeconds);
+    }
+    
+    if (video.width !== undefined) {
+      fields.push('width = ?');
+      values.push(video.width);
+    }
+    
+    if (video.height !== undefined) {
+      fields.push('height = ?');
+      values.push(video.height);
+    }
+    
+    if (video.container !== undefined) {
+      fields.push('container = ?');
+      values.push(video.container);
+    }
+    
+    if (video.codec !== undefined) {
+      fields.push('codec = ?');
+      values.push(video.codec);
+    }
+    
+    if (video.bitrate !== undefined) {
+      fields.push('bitrate = ?');
+      values.push(video.bitrate);
+    }
+    
     if (fields.length === 0) {
       return this.getVideo(id);
     }
     
+    fields.push(TOUCH_VIDEO);
+    values.push(new Date().toISOString());
+    
     const query = `UPDATE videos SET ${fields.join(', ')} WHERE id = ?`;
     values.push(id);
     
-    await this.db.run(query, values);
+    await this.db.run(query, values, transaction);
     
     return this.getVideo(id);
   }
@@ -424,7 +1094,36 @@ export class SQLiteService {
       channelName: p.channelName,
       channelLink: p.channelLink,
       dailyPushCount: p.dailyPushCount,
-      lastPushReset: p.lastPushReset
+      dailyPushLimit: p.dailyPushLimit ?? APP_SETTINGS.DEFAULT_DAILY_PUSH_LIMIT,
+      lastPushReset: p.lastPushReset,
+      pushResetPolicy: p.pushResetPolicy ?? null,
+      pushResetTimeZone: p.pushResetTimeZone ?? null
+    };
+  }
+
+  private mapPushEventResults(events: any[]): PushEvent[] {
+    return events.map(e => ({
+      id: e.id,
+      videoId: e.videoId ?? null,
+      profileId: e.profileId,
+      action: e.action,
+      createdAt: e.createdAt,
+      note: e.note ?? null
+    }));
+  }
+
+  private mapScheduleTemplateResults(templates: any[]): ScheduleTemplate[] {
+    return templates.map(t => this.mapScheduleTemplateResult(t));
+  }
+
+  private mapScheduleTemplateResult(t: any): ScheduleTemplate {
+    return {
+      id: t.id,
+      profileId: t.profileId,
+      weekdays: String(t.weekdays).split(',').filter(Boolean).map(Number),
+      time: t.time,
+      timeZone: t.timeZone ?? null,
+      isActive: Boolean(t.isActive)
     };
   }
 
@@ -446,29 +1145,24 @@ export class SQLiteService {
       thumbnailPath: v.thumbnailPath,
       duration: v.duration,
       scheduleDate: v.scheduleDate,
+      scheduleTimeZone: v.scheduleTimeZone ?? null,
+      scheduleAt: v.scheduleAt ?? null,
       status: v.status,
       uploadedDate: v.uploadedDate,
       youtubeLink: v.youtubeLink,
       isFileUploaded: Boolean(v.isFileUploaded),
-      isPlaceholder: Boolean(v.isPlaceholder)
+      isPlaceholder: Boolean(v.isPlaceholder),
+      durationSeconds: v.durationSeconds ?? null,
+      width: v.width ?? null,
+      height: v.height ?? null,
+      container: v.container ?? null,
+      codec: v.codec ?? null,
+      bitrate: v.bitrate ?? null,
+      revision: v.revision ?? 0,
+      updatedAt: v.updatedAt ?? null
     };
   }
 
-  /**
-   * Checks if 24 hours have passed since a given date
-   * @param lastResetDate The date to check against
-   * @returns boolean indicating if 24 hours have passed
-   */
-  private has24HoursPassed(lastResetDate: Date): boolean {
-    if (!isValid(lastResetDate)) return true;
-    
-    const now = new Date();
-    const diffMs = now.getTime() - lastResetDate.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-    
-    return diffHours >= 24;
-  }
-
   // Close database connection
   async closeConnection(): Promise<void> {
     try {
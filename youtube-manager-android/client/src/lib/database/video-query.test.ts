@@ -0,0 +1,177 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { useTestDatabase } from '../../test/sqlite';
+import { sqliteService } from './sqlite-service';
+import {
+  SORT_DIRECTIONS,
+  VIDEO_SORT_FIELDS,
+  VideoQuery,
+  VideoQueryError,
+  buildVideoQuerySql,
+  decodeVideoCursor,
+  encodeVideoCursor,
+  parseVideoQuery
+} from './video-query';
+
+// id, profileId, title, scheduleDate, status, uploadedDate, filePath, fileSize, originalFileSize, isPlaceholder, durationSeconds
+const VIDEOS: [number, number, string, string, string, string | null, string | null, number | null, number | null, number, number | null][] = [
+  [1, 1, 'alpha', '2026-03-01T09:00', 'completed', '2026-03-01 09:05:00', 'videos/1.mp4', 500, null, 0, 60],
+  [2, 1, 'Beta', '2026-03-01T18:00', 'completed', '2026-03-01 18:02:00', 'videos/2.mp4', 300, null, 0, 60],
+  [3, 1, 'beta', '2026-03-02T09:00', 'missed-schedule', null, null, null, null, 0, null],
+  [4, 1, 'Gamma', '2026-03-02T09:00', 'pending', null, 'videos/4.mp4', 10, 900, 1, 120.5],
+  [5, 1, 'Ünïcödé', '2026-03-03T12:00', 'pending', null, 'videos/5.mp4', 300, null, 0, 45],
+  [6, 2, 'delta', '2026-03-03T12:00', 'pending', null, null, null, null, 0, null],
+  [7, 2, 'epsilon', '2026-03-04T08:00', 'completed', '2026-03-04 08:00:00', 'videos/7.mp4', 300, null, 0, 60],
+  [8, 2, 'Zeta', '2026-03-05T23:59', 'pending', null, 'videos/8.mp4', 5, 300, 1, null],
+  [9, 2, 'eta', '2026-03-06T00:00', 'pending', null, '', null, null, 0, 10],
+  [10, 2, 'theta', '2026-03-06T00:00', 'pending', null, 'videos/10.mp4', 700, null, 0, 60]
+];
+
+async function queryIds(query: VideoQuery): Promise<number[]> {
+  return (await sqliteService.queryVideos(query)).map(video => video.id);
+}
+
+async function queryPage(query: VideoQuery, limit: number): Promise<{ ids: number[], nextCursor: string | null }> {
+  const page = await sqliteService.queryVideoPage({ ...query, limit });
+  return { ids: page.items.map(video => video.id), nextCursor: page.nextCursor };
+}
+
+async function pageThrough(query: VideoQuery, limit: number): Promise<number[][]> {
+  const pages: number[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await queryPage({ ...query, cursor }, limit);
+    pages.push(page.ids);
+    cursor = page.nextCursor;
+  } while (cursor && pages.length <= VIDEOS.length);
+  return pages;
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  const { database: db } = await useTestDatabase();
+  db.run("INSERT INTO profiles (id, name, channelName, channelLink) VALUES (1, 'One', 'One', ''), (2, 'Two', 'Two', '')");
+  for (const video of VIDEOS) {
+    db.run(
+      `INSERT INTO videos (id, profileId, title, description, scheduleDate, status, uploadedDate, filePath, fileSize,
+        originalFileSize, isPlaceholder, durationSeconds) VALUES (?, ?, ?, '', ?, ?, ?, ?, ?, ?, ?, ?)`,
+      video
+    );
+  }
+});
+
+describe('video cursors', () => {
+  it.each([
+    ['2026-03-01T09:00', 4],
+    ['Ünïcödé "quoted", /slashed/', 5],
+    [120.5, 6],
+    [0, 7],
+    [null, 8]
+  ])('round-trips %j', (sortValue, id) => {
+    expect(decodeVideoCursor(encodeVideoCursor(sortValue, id))).toEqual({ sortValue, id });
+  });
+
+  it.each(['', 'not base64!', btoa('[1]'), btoa(encodeURIComponent('["a", 1.5]')), btoa(encodeURIComponent('[{}, 1]'))])(
+    'rejects %j',
+    cursor => {
+      expect(() => decodeVideoCursor(cursor)).toThrow(VideoQueryError);
+    }
+  );
+});
+
+describe('buildVideoQuerySql', () => {
+  it('sorts by schedule date, newest first, by default', async () => {
+    expect(await queryIds({})).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+  });
+
+  it('puts rows without a sort value last in either direction', async () => {
+    expect(await queryIds({ sortBy: 'uploadedDate', sortDirection: 'asc' })).toEqual([1, 2, 7, 3, 4, 5, 6, 8, 9, 10]);
+    expect(await queryIds({ sortBy: 'uploadedDate', sortDirection: 'desc' })).toEqual([7, 2, 1, 10, 9, 8, 6, 5, 4, 3]);
+  });
+
+  it('sorts titles without regard to case', async () => {
+    expect((await queryIds({ sortBy: 'title', sortDirection: 'asc' })).slice(0, 4)).toEqual([1, 2, 3, 6]);
+  });
+
+  it('sizes placeholders by their original file', async () => {
+    expect(await queryIds({ sortBy: 'fileSize', sortDirection: 'desc' })).toEqual([4, 10, 1, 8, 7, 5, 2, 9, 6, 3]);
+  });
+
+  it('filters by whole schedule days', async () => {
+    expect(await queryIds({ from: '2026-03-02', to: '2026-03-05', sortDirection: 'asc' })).toEqual([3, 4, 5, 6, 7, 8]);
+  });
+
+  it('filters by status, profile, file and placeholder', async () => {
+    expect(await queryIds({ status: 'pending', profileId: 2, sortDirection: 'asc' })).toEqual([6, 8, 9, 10]);
+    expect(await queryIds({ file: 'missing', sortDirection: 'asc' })).toEqual([3, 6, 9]);
+    expect(await queryIds({ file: 'attached', placeholder: 'original', sortDirection: 'asc' })).toEqual([1, 2, 5, 7, 10]);
+    expect(await queryIds({ placeholder: 'placeholder', sortDirection: 'asc' })).toEqual([4, 8]);
+  });
+
+  it('keeps the caller parameters in the order of the placeholders', () => {
+    const { where, params } = buildVideoQuerySql({ status: 'pending', profileId: 3, from: '2026-01-01', to: '2026-01-31' });
+    expect(where).toBe('WHERE status = ? AND profileId = ? AND scheduleDate >= ? AND scheduleDate < ?');
+    expect(params).toEqual(['pending', 3, '2026-01-01', '2026-01-31~']);
+  });
+
+  describe.each(VIDEO_SORT_FIELDS.flatMap(sortBy => SORT_DIRECTIONS.map(sortDirection => ({ sortBy, sortDirection }))))(
+    'paging by $sortBy $sortDirection',
+    query => {
+      it.each([1, 3, 4, 10])('matches the full list with %i rows per page', async limit => {
+        const pages = await pageThrough(query, limit);
+
+        expect(pages.flat()).toEqual(await queryIds(query));
+        expect(pages.slice(0, -1).every(page => page.length === limit)).toBe(true);
+      });
+
+      it('pages a filtered list', async () => {
+        const filtered: VideoQuery = { ...query, status: 'pending' };
+        expect((await pageThrough(filtered, 2)).flat()).toEqual(await queryIds(filtered));
+      });
+    }
+  );
+
+  it('has no next page once the last row has been read', async () => {
+    expect((await queryPage({}, VIDEOS.length)).nextCursor).toBeNull();
+  });
+});
+
+describe('parseVideoQuery', () => {
+  it('reads query string values', () => {
+    const cursor = encodeVideoCursor('2026-03-01T09:00', 1);
+    expect(parseVideoQuery({
+      status: 'pending',
+      profileId: '2',
+      sortBy: 'title',
+      sortDirection: 'asc',
+      from: '2026-03-01',
+      to: '',
+      file: 'attached',
+      placeholder: 'original',
+      limit: '50',
+      cursor
+    })).toEqual({
+      status: 'pending',
+      profileId: 2,
+      sortBy: 'title',
+      sortDirection: 'asc',
+      from: '2026-03-01',
+      file: 'attached',
+      placeholder: 'original',
+      limit: 50,
+      cursor
+    });
+  });
+
+  it.each([
+    { status: 'done' },
+    { profileId: 'one' },
+    { sortBy: 'views' },
+    { sortDirection: 'up' },
+    { from: '03/01/2026' },
+    { limit: '0' },
+    { limit: '1000' },
+    { cursor: 'garbage' }
+  ])('rejects %o', raw => {
+    expect(() => parseVideoQuery(raw)).toThrow(VideoQueryError);
+  });
+});
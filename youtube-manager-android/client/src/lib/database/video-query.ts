@@ -0,0 +1,246 @@
+import { VideoStatus, isVideoStatus } from './video-status';
+
+/**
+ * Sorting, filtering and paging of video lists
+ * A VideoQuery is turned into a WHERE and ORDER BY clause for
+ * sqliteService.queryVideos, so lists are filtered by SQLite rather than
+ * loaded whole and filtered in memory. Pages are keyset-paged: the cursor
+ * holds the sort value and id of the last row of the previous page, so a
+ * page costs the same however deep into the list it is.
+ */
+
+export const VIDEO_SORT_FIELDS = ['scheduleDate', 'uploadedDate', 'title', 'fileSize', 'duration'] as const;
+export type VideoSortField = typeof VIDEO_SORT_FIELDS[number];
+
+export const SORT_DIRECTIONS = ['asc', 'desc'] as const;
+export type SortDirection = typeof SORT_DIRECTIONS[number];
+
+// attached: the video has a file on the device; missing: it has none yet
+export const FILE_FILTERS = ['any', 'attached', 'missing'] as const;
+export type FileFilter = typeof FILE_FILTERS[number];
+
+// placeholder: the file is a stub for an original kept elsewhere
+export const PLACEHOLDER_FILTERS = ['any', 'placeholder', 'original'] as const;
+export type PlaceholderFilter = typeof PLACEHOLDER_FILTERS[number];
+
+// Sort and filter choices a user makes for a list
+export interface VideoListOptions {
+  sortBy: VideoSortField;
+  sortDirection: SortDirection;
+  // yyyy-MM-dd schedule days, inclusive; null for no bound
+  from: string | null;
+  to: string | null;
+  file: FileFilter;
+  placeholder: PlaceholderFilter;
+}
+
+export interface VideoQuery extends Partial<VideoListOptions> {
+  status?: VideoStatus;
+  profileId?: number;
+  // Page size, for queryVideoPage
+  limit?: number;
+  // nextCursor of the previous page; the first page when omitted
+  cursor?: string | null;
+}
+
+export interface VideoPage<T> {
+  items: T[];
+  // Cursor of the following page; null on the last page
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 200;
+
+// Position after which a page starts
+interface VideoCursor {
+  sortValue: string | number | null;
+  id: number;
+}
+
+export const DEFAULT_VIDEO_LIST_OPTIONS: VideoListOptions = {
+  sortBy: 'scheduleDate',
+  sortDirection: 'desc',
+  from: null,
+  to: null,
+  file: 'any',
+  placeholder: 'any'
+};
+
+// SQL for each sort field; placeholders are sized by their original file
+const SORT_EXPRESSIONS: Record<VideoSortField, string> = {
+  scheduleDate: 'scheduleDate',
+  uploadedDate: 'uploadedDate',
+  title: 'title COLLATE NOCASE',
+  fileSize: 'CASE WHEN isPlaceholder = 1 THEN originalFileSize ELSE fileSize END',
+  duration: 'durationSeconds'
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Error thrown when a list query has a value it does not understand
+ */
+export class VideoQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VideoQueryError';
+  }
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+/**
+ * Read a VideoQuery from request query parameters, where every value may be a string
+ * @throws VideoQueryError for unknown or malformed values
+ */
+export function parseVideoQuery(raw: Record<string, unknown>): VideoQuery {
+  const query: VideoQuery = {};
+
+  if (raw.status !== undefined) {
+    if (!isVideoStatus(raw.status)) throw new VideoQueryError(`Invalid status: ${raw.status}`);
+    query.status = raw.status;
+  }
+  if (raw.profileId !== undefined) {
+    const profileId = Number(raw.profileId);
+    if (!Number.isInteger(profileId)) throw new VideoQueryError(`Invalid profileId: ${raw.profileId}`);
+    query.profileId = profileId;
+  }
+  if (raw.sortBy !== undefined) {
+    if (!isOneOf(VIDEO_SORT_FIELDS, raw.sortBy)) throw new VideoQueryError(`Invalid sortBy: ${raw.sortBy}`);
+    query.sortBy = raw.sortBy;
+  }
+  if (raw.sortDirection !== undefined) {
+    if (!isOneOf(SORT_DIRECTIONS, raw.sortDirection)) throw new VideoQueryError(`Invalid sortDirection: ${raw.sortDirection}`);
+    query.sortDirection = raw.sortDirection;
+  }
+  for (const bound of ['from', 'to'] as const) {
+    const value = raw[bound];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' || !DAY_PATTERN.test(value)) throw new VideoQueryError(`Invalid ${bound}: ${value}`);
+    query[bound] = value;
+  }
+  if (raw.file !== undefined) {
+    if (!isOneOf(FILE_FILTERS, raw.file)) throw new VideoQueryError(`Invalid file filter: ${raw.file}`);
+    query.file = raw.file;
+  }
+  if (raw.placeholder !== undefined) {
+    if (!isOneOf(PLACEHOLDER_FILTERS, raw.placeholder)) throw new VideoQueryError(`Invalid placeholder filter: ${raw.placeholder}`);
+    query.placeholder = raw.placeholder;
+  }
+  if (raw.limit !== undefined) {
+    const limit = Number(raw.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new VideoQueryError(`Invalid limit: ${raw.limit} (1 to ${MAX_PAGE_SIZE})`);
+    }
+    query.limit = limit;
+  }
+  if (raw.cursor !== undefined && raw.cursor !== null && raw.cursor !== '') {
+    if (typeof raw.cursor !== 'string') throw new VideoQueryError(`Invalid cursor: ${raw.cursor}`);
+    decodeVideoCursor(raw.cursor);
+    query.cursor = raw.cursor;
+  }
+
+  return query;
+}
+
+/**
+ * Opaque cursor for the position after a row
+ */
+export function encodeVideoCursor(sortValue: string | number | null, id: number): string {
+  return btoa(encodeURIComponent(JSON.stringify([sortValue, id])));
+}
+
+/**
+ * @throws VideoQueryError if the cursor was not made by encodeVideoCursor
+ */
+export function decodeVideoCursor(cursor: string): VideoCursor {
+  try {
+    const [sortValue, id] = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (Number.isInteger(id) && (sortValue === null || ['string', 'number'].includes(typeof sortValue))) {
+      return { sortValue, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new VideoQueryError(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * The WHERE and ORDER BY clauses for a query
+ * Rows without a value for the sort field come last in either direction,
+ * and id breaks ties so the order is stable and a cursor is exact.
+ * @returns sortExpression is the SQL of the sort value, to select for the next cursor
+ */
+export function buildVideoQuerySql(query: VideoQuery): {
+  where: string;
+  params: (string | number)[];
+  orderBy: string;
+  sortExpression: string;
+} {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.status !== undefined) {
+    conditions.push('status = ?');
+    params.push(query.status);
+  }
+  if (query.profileId !== undefined) {
+    conditions.push('profileId = ?');
+    params.push(query.profileId);
+  }
+  // scheduleDate starts with its yyyy-MM-dd day, so a string range matches whole days
+  if (query.from) {
+    conditions.push('scheduleDate >= ?');
+    params.push(query.from);
+  }
+  if (query.to) {
+    conditions.push('scheduleDate < ?');
+    params.push(`${query.to}~`);
+  }
+  if (query.file === 'attached') {
+    conditions.push("filePath IS NOT NULL AND filePath != ''");
+  } else if (query.file === 'missing') {
+    conditions.push("(filePath IS NULL OR filePath = '')");
+  }
+  if (query.placeholder === 'placeholder') {
+    conditions.push('isPlaceholder = 1');
+  } else if (query.placeholder === 'original') {
+    conditions.push('isPlaceholder = 0');
+  }
+
+  const sortBy = query.sortBy ?? DEFAULT_VIDEO_LIST_OPTIONS.sortBy;
+  const direction = (query.sortDirection ?? DEFAULT_VIDEO_LIST_OPTIONS.sortDirection).toUpperCase();
+  const expression = SORT_EXPRESSIONS[sortBy];
+
+  // Rows after the cursor in (value IS NULL, value, id) order
+  if (query.cursor) {
+    const cursor = decodeVideoCursor(query.cursor);
+    const after = direction === 'ASC' ? '>' : '<';
+    if (cursor.sortValue === null) {
+      conditions.push(`((${expression}) IS NULL AND id ${after} ?)`);
+      params.push(cursor.id);
+    } else {
+      conditions.push(
+        `((${expression}) IS NULL OR ${expression} ${after} ? OR (${expression} = ? AND id ${after} ?))`
+      );
+      params.push(cursor.sortValue, cursor.sortValue, cursor.id);
+    }
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+    orderBy: `ORDER BY (${expression}) IS NULL, ${expression} ${direction}, id ${direction}`,
+    sortExpression: expression
+  };
+}
+
+/**
+ * Whether any filter narrows the list, for showing an active filter button
+ */
+export function hasActiveFilters(options: VideoListOptions): boolean {
+  return options.from !== null || options.to !== null || options.file !== 'any' || options.placeholder !== 'any';
+}
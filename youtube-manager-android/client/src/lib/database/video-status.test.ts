@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InvalidStatusTransitionError,
+  VIDEO_STATUSES,
+  assertStatusTransition,
+  canTransition,
+  isVideoStatus
+} from './video-status';
+
+describe('canTransition', () => {
+  it.each([
+    ['pending', 'completed'],
+    ['completed', 'pending'],
+    ['pending', 'missed-schedule'],
+    ['missed-schedule', 'pending']
+  ] as const)('allows %s to %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    ['completed', 'missed-schedule'],
+    ['missed-schedule', 'completed']
+  ] as const)('refuses %s to %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it.each(VIDEO_STATUSES)('allows %s to stay as it is', status => {
+    expect(canTransition(status, status)).toBe(true);
+  });
+});
+
+describe('assertStatusTransition', () => {
+  it('throws a typed error for an illegal move', () => {
+    expect(() => assertStatusTransition(4, 'completed', 'missed-schedule')).toThrow(
+      expect.objectContaining({ name: 'InvalidStatusTransitionError', videoId: 4, from: 'completed', to: 'missed-schedule' })
+    );
+  });
+
+  it('throws for a status that does not exist', () => {
+    expect(() => assertStatusTransition(4, 'pending', 'archived')).toThrow(InvalidStatusTransitionError);
+    expect(isVideoStatus('archived')).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Video status state machine shared by the database layer and the UI
+ *
+ *   pending ──────────► completed        (push to YouTube)
+ *   completed ────────► pending          (revert upload)
+ *   pending ──────────► missed-schedule  (schedule date passed)
+ *   missed-schedule ──► pending          (reschedule)
+ */
+
+export const VIDEO_STATUSES = ['pending', 'completed', 'missed-schedule'] as const;
+
+export type VideoStatus = typeof VIDEO_STATUSES[number];
+
+export const VIDEO_STATUS_TRANSITIONS: Record<VideoStatus, readonly VideoStatus[]> = {
+  'pending': ['completed', 'missed-schedule'],
+  'completed': ['pending'],
+  'missed-schedule': ['pending']
+};
+
+export function isVideoStatus(value: unknown): value is VideoStatus {
+  return typeof value === 'string' && (VIDEO_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a video may move from one status to another
+ * Staying in the same status is always allowed
+ */
+export function canTransition(from: VideoStatus, to: VideoStatus): boolean {
+  return from === to || VIDEO_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Error thrown when an update would move a video through an illegal transition
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly videoId: number,
+    public readonly from: VideoStatus,
+    public readonly to: string
+  ) {
+    super(`Video ${videoId} cannot move from '${from}' to '${to}'`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+/**
+ * Throw an InvalidStatusTransitionError unless the transition is allowed
+ */
+export function assertStatusTransition(videoId: number, from: VideoStatus, to: string): asserts to is VideoStatus {
+  if (!isVideoStatus(to) || !canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(videoId, from, to);
+  }
+}
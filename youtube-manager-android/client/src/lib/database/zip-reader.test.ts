@@ -0,0 +1,124 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { ZipFormatError, ZipReader, zipSource } from './zip-reader';
+import { ZipWriter, crc32 } from './zip-writer';
+
+async function writeZip(entries: [string, Uint8Array[]][]): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  const zip = new ZipWriter(async bytes => { parts.push(bytes.slice()); });
+  for (const [name, chunks] of entries) {
+    await zip.addFile(name, chunks);
+  }
+  await zip.close();
+  return concat(parts);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+async function readAll(reader: ZipReader, name: string, chunkSize?: number): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of reader.readEntry(reader.getEntry(name)!, chunkSize)) {
+    chunks.push(chunk);
+  }
+  return new TextDecoder().decode(concat(chunks));
+}
+
+// A one-entry archive with a deflated entry, as other zip tools write them
+function deflatedZip(name: string, text: string): Uint8Array {
+  const content = new TextEncoder().encode(text);
+  const data = deflateRawSync(content);
+  const nameBytes = new TextEncoder().encode(name);
+  const crc = crc32(0, content);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(4, 20, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, content.length, true);
+  local.setUint16(26, nameBytes.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, content.length, true);
+  central.setUint16(28, nameBytes.length, true);
+
+  const directoryOffset = 30 + nameBytes.length + data.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, directoryOffset, true);
+
+  return concat([
+    new Uint8Array(local.buffer), nameBytes, new Uint8Array(data),
+    new Uint8Array(central.buffer), nameBytes, new Uint8Array(end.buffer)
+  ]);
+}
+
+describe('ZipReader', () => {
+  it('reads back what ZipWriter wrote, in blocks', async () => {
+    const archive = await writeZip([
+      ['data.json', [new TextEncoder().encode('{"a":'), new TextEncoder().encode('1}')]],
+      ['videos/ünïcödé.mp4', [new TextEncoder().encode('0123456789')]],
+      ['empty.txt', []]
+    ]);
+    const reader = await ZipReader.open(zipSource(archive));
+
+    expect(await readAll(reader, 'data.json')).toBe('{"a":1}');
+    expect(await readAll(reader, 'videos/ünïcödé.mp4', 3)).toBe('0123456789');
+    expect(await readAll(reader, 'empty.txt')).toBe('');
+    expect(reader.getEntry('missing')).toBeUndefined();
+  });
+
+  it('reads from a Blob', async () => {
+    const archive = await writeZip([['notes.txt', [new TextEncoder().encode('hello')]]]);
+    const reader = await ZipReader.open(zipSource(new Blob([archive])));
+
+    expect(await readAll(reader, 'notes.txt', 2)).toBe('hello');
+  });
+
+  it('reads deflated entries', async () => {
+    const text = 'compressible '.repeat(1000);
+    const reader = await ZipReader.open(zipSource(deflatedZip('notes.txt', text)));
+
+    expect(reader.getEntry('notes.txt')?.method).toBe(8);
+    expect(await readAll(reader, 'notes.txt', 100)).toBe(text);
+  });
+
+  it('reads the ZIP64 end records ZipWriter adds for many entries', async () => {
+    const entries: [string, Uint8Array[]][] = [];
+    for (let i = 0; i < 0xffff; i++) {
+      entries.push([`${i}`, []]);
+    }
+    entries.push(['last.txt', [new TextEncoder().encode('found')]]);
+    const reader = await ZipReader.open(zipSource(await writeZip(entries)));
+
+    expect(await readAll(reader, 'last.txt')).toBe('found');
+  });
+
+  it('rejects data that is not a zip archive', async () => {
+    await expect(ZipReader.open(zipSource(new TextEncoder().encode('not a zip file at all, just text')))).rejects.toBeInstanceOf(ZipFormatError);
+  });
+
+  it('detects a corrupt entry by its CRC', async () => {
+    const archive = await writeZip([['notes.txt', [new TextEncoder().encode('hello world')]]]);
+    const reader = await ZipReader.open(zipSource(archive));
+    archive[archive.indexOf('h'.charCodeAt(0), 30)] ^= 0xff;
+
+    await expect(readAll(reader, 'notes.txt')).rejects.toThrow('notes.txt is corrupt');
+  });
+});
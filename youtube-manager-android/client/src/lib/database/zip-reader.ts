@@ -0,0 +1,277 @@
+import { crc32 } from './zip-writer';
+
+/**
+ * Streaming zip reader
+ * Reads the central directory from the end of an archive, then one entry at
+ * a time in blocks, so an archive of any size is read without holding it in
+ * memory. Understands the ZIP64 records ZipWriter adds past 4 GB, and stored
+ * or deflated entries, so archives repacked by other tools still open.
+ */
+
+// Random access to the bytes of an archive
+export interface ZipSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Error thrown when an archive is not a zip file or an entry is corrupt
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const STORED = 0;
+const DEFLATED = 8;
+const END_RECORD_SIZE = 22;
+const DEFAULT_READ_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * A ZipSource over an archive held in a Blob (such as a picked File) or in memory
+ * Blobs are read a slice at a time, so a File is never loaded whole
+ */
+export function zipSource(data: Blob | ArrayBuffer | Uint8Array): ZipSource {
+  if (data instanceof Blob) {
+    return {
+      size: data.size,
+      read: async (offset, length) => new Uint8Array(await data.slice(offset, offset + length).arrayBuffer())
+    };
+  }
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return {
+    size: bytes.length,
+    read: async (offset, length) => bytes.subarray(offset, offset + length)
+  };
+}
+
+// Little-endian reads from a record
+class RecordReader {
+  private view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(offset, true);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(offset, true);
+  }
+
+  u64(offset: number): number {
+    return this.u32(offset) + this.u32(offset + 4) * 0x100000000;
+  }
+
+  text(offset: number, length: number): string {
+    return new TextDecoder().decode(this.bytes.subarray(offset, offset + length));
+  }
+}
+
+/**
+ * Inflate raw deflate data as it arrives
+ */
+async function* inflate(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  // Feed the input while the output is read; each write waits for room
+  const feeding = (async () => {
+    try {
+      for await (const chunk of chunks) {
+        await writer.write(chunk);
+      }
+      await writer.close();
+    } catch (error) {
+      await writer.abort(error).catch(() => undefined);
+    }
+  })();
+
+  let done = false;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (result.value) yield result.value;
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel().catch(() => undefined);
+    }
+    await feeding;
+  }
+}
+
+export class ZipReader {
+  private constructor(
+    private readonly source: ZipSource,
+    private readonly entries: Map<string, ZipEntry>
+  ) {}
+
+  /**
+   * Read an archive's central directory
+   * @throws ZipFormatError if the source is not a zip archive
+   */
+  static async open(source: ZipSource): Promise<ZipReader> {
+    const { count, directorySize, directoryOffset } = await ZipReader.readEndRecord(source);
+    if (directoryOffset + directorySize > source.size) {
+      throw new ZipFormatError('Zip central directory is truncated');
+    }
+
+    const directory = new RecordReader(await source.read(directoryOffset, directorySize));
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > directory.length || directory.u32(offset) !== 0x02014b50) {
+        throw new ZipFormatError('Zip central directory is corrupt');
+      }
+      const nameLength = directory.u16(offset + 28);
+      const extraLength = directory.u16(offset + 30);
+      const commentLength = directory.u16(offset + 32);
+      const entry: ZipEntry = {
+        name: directory.text(offset + 46, nameLength),
+        method: directory.u16(offset + 10),
+        crc: directory.u32(offset + 16),
+        compressedSize: directory.u32(offset + 20),
+        size: directory.u32(offset + 24),
+        localHeaderOffset: directory.u32(offset + 42)
+      };
+      ZipReader.applyZip64Extra(entry, directory, offset + 46 + nameLength, extraLength);
+      entries.set(entry.name, entry);
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipReader(source, entries);
+  }
+
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entries.get(name);
+  }
+
+  /**
+   * An entry's contents, one block at a time; the CRC and size are checked at the end
+   * @throws ZipFormatError if the entry is corrupt or uses an unsupported compression method
+   */
+  async *readEntry(entry: ZipEntry, chunkSize = DEFAULT_READ_CHUNK_SIZE): AsyncGenerator<Uint8Array> {
+    if (entry.method !== STORED && entry.method !== DEFLATED) {
+      throw new ZipFormatError(`${entry.name} uses unsupported compression method ${entry.method}`);
+    }
+
+    const header = new RecordReader(await this.source.read(entry.localHeaderOffset, 30));
+    if (header.length < 30 || header.u32(0) !== 0x04034b50) {
+      throw new ZipFormatError(`${entry.name} has no local header`);
+    }
+    const dataOffset = entry.localHeaderOffset + 30 + header.u16(26) + header.u16(28);
+    if (dataOffset + entry.compressedSize > this.source.size) {
+      throw new ZipFormatError(`${entry.name} is truncated`);
+    }
+
+    const source = this.source;
+    const raw = (async function* () {
+      for (let offset = 0; offset < entry.compressedSize; offset += chunkSize) {
+        yield await source.read(dataOffset + offset, Math.min(chunkSize, entry.compressedSize - offset));
+      }
+    })();
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of entry.method === DEFLATED ? inflate(raw) : raw) {
+      crc = crc32(crc, chunk);
+      size += chunk.length;
+      yield chunk;
+    }
+    if (crc !== entry.crc || size !== entry.size) {
+      throw new ZipFormatError(`${entry.name} is corrupt`);
+    }
+  }
+
+  /**
+   * An entry's whole contents, for small entries such as JSON
+   */
+  async readEntryBytes(entry: ZipEntry): Promise<Uint8Array> {
+    const bytes = new Uint8Array(entry.size);
+    let offset = 0;
+    for await (const chunk of this.readEntry(entry)) {
+      if (offset + chunk.length > bytes.length) {
+        throw new ZipFormatError(`${entry.name} is corrupt`);
+      }
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+
+  private static async readEndRecord(source: ZipSource): Promise<{ count: number, directorySize: number, directoryOffset: number }> {
+    // The end record is the last thing in the file, before a comment of up to 64 KB
+    const tailStart = Math.max(0, source.size - END_RECORD_SIZE - MAX_16);
+    const tail = new RecordReader(await source.read(tailStart, source.size - tailStart));
+    let end = -1;
+    for (let i = tail.length - END_RECORD_SIZE; i >= 0; i--) {
+      if (tail.u32(i) === 0x06054b50) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new ZipFormatError('Not a zip archive');
+    }
+
+    // A ZIP64 locator sits right before the end record
+    if (end >= 20 && tail.u32(end - 20) === 0x07064b50) {
+      const zip64End = new RecordReader(await source.read(tail.u64(end - 12), 56));
+      if (zip64End.length < 56 || zip64End.u32(0) !== 0x06064b50) {
+        throw new ZipFormatError('Zip64 end record is corrupt');
+      }
+      return {
+        count: zip64End.u64(32),
+        directorySize: zip64End.u64(40),
+        directoryOffset: zip64End.u64(48)
+      };
+    }
+
+    return {
+      count: tail.u16(end + 10),
+      directorySize: tail.u32(end + 12),
+      directoryOffset: tail.u32(end + 16)
+    };
+  }
+
+  // Values that did not fit in 32 bits are in the ZIP64 extra field, in this order
+  private static applyZip64Extra(entry: ZipEntry, record: RecordReader, start: number, length: number): void {
+    for (let offset = start; offset + 4 <= start + length;) {
+      const id = record.u16(offset);
+      const size = record.u16(offset + 2);
+      if (id === 0x0001) {
+        let field = offset + 4;
+        for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+          if (entry[key] === MAX_32 && field + 8 <= offset + 4 + size) {
+            entry[key] = record.u64(field);
+            field += 8;
+          }
+        }
+        return;
+      }
+      offset += 4 + size;
+    }
+  }
+}
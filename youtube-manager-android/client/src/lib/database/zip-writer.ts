@@ -0,0 +1,242 @@
+/**
+ * Streaming zip writer
+ * Entries are stored uncompressed and written a block at a time through a
+ * sink, so an archive of any size is built without holding a file in
+ * memory. Sizes and CRCs follow each entry in a data descriptor, and ZIP64
+ * records are added once an entry or the archive passes 4 GB.
+ */
+
+export type ZipSink = (bytes: Uint8Array) => Promise<void>;
+
+interface ZipEntryRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+// Version 4.5: ZIP64
+const VERSION = 45;
+// Bit 3: sizes and CRC in a data descriptor; bit 11: UTF-8 names
+const FLAGS = 0x0808;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Continue a CRC-32 over more bytes; start with 0
+ */
+export function crc32(crc: number, bytes: Uint8Array): number {
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+// Little-endian record builder
+class RecordBuilder {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number): this {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.view.setUint32(this.offset, value >>> 0, true);
+    this.offset += 4;
+    return this;
+  }
+
+  u64(value: number): this {
+    return this.u32(value % 0x100000000).u32(Math.floor(value / 0x100000000));
+  }
+
+  raw(bytes: Uint8Array): this {
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.length;
+    return this;
+  }
+
+  build(): Uint8Array {
+    return this.bytes;
+  }
+}
+
+function dosTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export class ZipWriter {
+  private entries: ZipEntryRecord[] = [];
+  private bytesWritten = 0;
+  private closed = false;
+
+  constructor(private readonly sink: ZipSink) {}
+
+  /**
+   * Add an entry, writing each chunk as it arrives
+   * @returns The entry's size in bytes
+   */
+  async addFile(name: string, chunks: Iterable<Uint8Array> | AsyncIterable<Uint8Array>, modified = new Date()): Promise<number> {
+    if (this.closed) {
+      throw new Error('Zip archive is already closed');
+    }
+
+    const entry: ZipEntryRecord = {
+      name: new TextEncoder().encode(name),
+      crc: 0,
+      size: 0,
+      offset: this.bytesWritten,
+      ...dosTime(modified)
+    };
+
+    // Sizes are unknown until the data is written, so the local header has a
+    // ZIP64 field with zero sizes and the data descriptor has 8-byte sizes
+    await this.write(new RecordBuilder(30 + entry.name.length + 20)
+      .u32(0x04034b50)
+      .u16(VERSION)
+      .u16(FLAGS)
+      .u16(0)
+      .u16(entry.time)
+      .u16(entry.date)
+      .u32(0)
+      .u32(MAX_32)
+      .u32(MAX_32)
+      .u16(entry.name.length)
+      .u16(20)
+      .raw(entry.name)
+      .u16(0x0001)
+      .u16(16)
+      .u64(0)
+      .u64(0)
+      .build());
+
+    for await (const chunk of chunks) {
+      if (chunk.length === 0) continue;
+      entry.crc = crc32(entry.crc, chunk);
+      entry.size += chunk.length;
+      await this.write(chunk);
+    }
+
+    await this.write(new RecordBuilder(24)
+      .u32(0x08074b50)
+      .u32(entry.crc)
+      .u64(entry.size)
+      .u64(entry.size)
+      .build());
+
+    this.entries.push(entry);
+    return entry.size;
+  }
+
+  /**
+   * Write the central directory; no entries can be added afterwards
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    const directoryOffset = this.bytesWritten;
+    for (const entry of this.entries) {
+      await this.write(this.centralDirectoryRecord(entry));
+    }
+    const directorySize = this.bytesWritten - directoryOffset;
+
+    const needsZip64 = this.entries.length >= MAX_16 || directorySize >= MAX_32 || directoryOffset >= MAX_32;
+    if (needsZip64) {
+      const zip64EndOffset = this.bytesWritten;
+      await this.write(new RecordBuilder(56)
+        .u32(0x06064b50)
+        .u64(44)
+        .u16(VERSION)
+        .u16(VERSION)
+        .u32(0)
+        .u32(0)
+        .u64(this.entries.length)
+        .u64(this.entries.length)
+        .u64(directorySize)
+        .u64(directoryOffset)
+        .build());
+      await this.write(new RecordBuilder(20)
+        .u32(0x07064b50)
+        .u32(0)
+        .u64(zip64EndOffset)
+        .u32(1)
+        .build());
+    }
+
+    await this.write(new RecordBuilder(22)
+      .u32(0x06054b50)
+      .u16(0)
+      .u16(0)
+      .u16(needsZip64 ? MAX_16 : this.entries.length)
+      .u16(needsZip64 ? MAX_16 : this.entries.length)
+      .u32(needsZip64 ? MAX_32 : directorySize)
+      .u32(needsZip64 ? MAX_32 : directoryOffset)
+      .u16(0)
+      .build());
+  }
+
+  private centralDirectoryRecord(entry: ZipEntryRecord): Uint8Array {
+    // Values that do not fit in 32 bits move to the ZIP64 extra field, in this order
+    const zip64Values = [entry.size, entry.size, entry.offset].filter(value => value >= MAX_32);
+    const extraLength = zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0;
+
+    const record = new RecordBuilder(46 + entry.name.length + extraLength)
+      .u32(0x02014b50)
+      .u16(VERSION)
+      .u16(VERSION)
+      .u16(FLAGS)
+      .u16(0)
+      .u16(entry.time)
+      .u16(entry.date)
+      .u32(entry.crc)
+      .u32(Math.min(entry.size, MAX_32))
+      .u32(Math.min(entry.size, MAX_32))
+      .u16(entry.name.length)
+      .u16(extraLength)
+      .u16(0)
+      .u16(0)
+      .u16(0)
+      .u32(0)
+      .u32(Math.min(entry.offset, MAX_32))
+      .raw(entry.name);
+
+    if (extraLength > 0) {
+      record.u16(0x0001).u16(zip64Values.length * 8);
+      zip64Values.forEach(value => record.u64(value));
+    }
+    return record.build();
+  }
+
+  private async write(bytes: Uint8Array): Promise<void> {
+    await this.sink(bytes);
+    this.bytesWritten += bytes.length;
+  }
+}
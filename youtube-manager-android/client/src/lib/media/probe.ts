@@ -0,0 +1,182 @@
+import { createOffscreenVideo, releaseVideo, waitForVideoEvent } from './video-element';
+
+/**
+ * Video metadata probing
+ * Duration and resolution come from the WebView's decoder; the container
+ * and codec are worked out from the extension and the file's first bytes
+ */
+
+export type VideoContainer = 'mp4' | 'mov' | 'webm' | 'mkv' | 'avi';
+
+export interface VideoMetadata {
+  durationSeconds: number | null;
+  // Human readable duration, e.g. "4:05" or "1:02:33"
+  duration: string | null;
+  width: number | null;
+  height: number | null;
+  container: VideoContainer | null;
+  codec: string | null;
+  // Average bitrate in bits per second
+  bitrate: number | null;
+}
+
+// How much of the file to read for container and codec sniffing
+export const PROBE_HEAD_BYTES = 256 * 1024;
+
+const EXTENSION_CONTAINERS: Record<string, VideoContainer> = {
+  mp4: 'mp4',
+  m4v: 'mp4',
+  mov: 'mov',
+  webm: 'webm',
+  mkv: 'mkv',
+  avi: 'avi'
+};
+
+// Codec identifiers as they appear in each container, most specific first
+const MP4_CODECS: [string, string][] = [
+  ['avc1', 'h264'], ['avc3', 'h264'], ['hvc1', 'hevc'], ['hev1', 'hevc'],
+  ['av01', 'av1'], ['vp09', 'vp9'], ['mp4v', 'mpeg4']
+];
+const MATROSKA_CODECS: [string, string][] = [
+  ['V_MPEG4/ISO/AVC', 'h264'], ['V_MPEGH/ISO/HEVC', 'hevc'], ['V_AV1', 'av1'],
+  ['V_VP9', 'vp9'], ['V_VP8', 'vp8'], ['V_MPEG4/ISO', 'mpeg4']
+];
+const AVI_CODECS: [string, string][] = [
+  ['H264', 'h264'], ['h264', 'h264'], ['X264', 'h264'], ['HEVC', 'hevc'],
+  ['XVID', 'mpeg4'], ['DIVX', 'mpeg4'], ['DX50', 'mpeg4'], ['MJPG', 'mjpeg']
+];
+
+/**
+ * Work out the container from a file name's extension
+ */
+export function containerFromExtension(fileName: string): VideoContainer | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_CONTAINERS[extension] || null;
+}
+
+/**
+ * Identify the container from the magic bytes at the start of a file
+ * (mp4/mov "ftyp" box, webm/mkv EBML header, avi RIFF header)
+ */
+export function sniffContainer(head: Uint8Array): VideoContainer | null {
+  if (head.length >= 12 && readAscii(head, 4, 4) === 'ftyp') {
+    return readAscii(head, 8, 4) === 'qt  ' ? 'mov' : 'mp4';
+  }
+
+  if (head.length >= 4 && head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+    // The EBML DocType is near the start of the header
+    return indexOfAscii(head.subarray(0, 64), 'webm') >= 0 ? 'webm' : 'mkv';
+  }
+
+  if (head.length >= 12 && readAscii(head, 0, 4) === 'RIFF' && readAscii(head, 8, 4) === 'AVI ') {
+    return 'avi';
+  }
+
+  return null;
+}
+
+/**
+ * Best-effort codec detection by searching the file head for codec identifiers
+ * Returns null when the identifier is outside the sniffed range (e.g. a
+ * trailing moov box in mp4 files)
+ */
+export function sniffCodec(head: Uint8Array, container: VideoContainer | null): string | null {
+  const table = container === 'mp4' || container === 'mov'
+    ? MP4_CODECS
+    : container === 'webm' || container === 'mkv'
+      ? MATROSKA_CODECS
+      : container === 'avi'
+        ? AVI_CODECS
+        : null;
+  if (!table) return null;
+
+  for (const [identifier, codec] of table) {
+    if (indexOfAscii(head, identifier) >= 0) {
+      return codec;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read duration and resolution through an off-screen video element
+ * @param src A URL the WebView can load (e.g. from Capacitor.convertFileSrc)
+ */
+export async function readDecoderMetadata(
+  src: string,
+  timeoutMs?: number
+): Promise<{ durationSeconds: number | null; width: number | null; height: number | null }> {
+  const video = createOffscreenVideo();
+  video.preload = 'metadata';
+
+  try {
+    await waitForVideoEvent(video, 'loadedmetadata', timeoutMs, () => {
+      video.src = src;
+      video.load();
+    });
+
+    return {
+      durationSeconds: isFinite(video.duration) && video.duration > 0 ? video.duration : null,
+      width: video.videoWidth || null,
+      height: video.videoHeight || null
+    };
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+/**
+ * Combine the sniffed and decoded information into a metadata record
+ * Any part that cannot be determined is left as null
+ */
+export function buildVideoMetadata(
+  fileName: string,
+  fileSize: number | null,
+  head: Uint8Array | null,
+  decoded: { durationSeconds: number | null; width: number | null; height: number | null } | null
+): VideoMetadata {
+  const container = (head && sniffContainer(head)) || containerFromExtension(fileName);
+  const durationSeconds = decoded?.durationSeconds ?? null;
+
+  return {
+    durationSeconds,
+    duration: durationSeconds !== null ? formatDuration(durationSeconds) : null,
+    width: decoded?.width ?? null,
+    height: decoded?.height ?? null,
+    container,
+    codec: head ? sniffCodec(head, container) : null,
+    bitrate: fileSize && durationSeconds ? Math.round((fileSize * 8) / durationSeconds) : null
+  };
+}
+
+/**
+ * Format a number of seconds as m:ss or h:mm:ss
+ */
+export function formatDuration(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+  const ss = String(seconds).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${ss}`
+    : `${minutes}:${ss}`;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + length)));
+}
+
+function indexOfAscii(bytes: Uint8Array, needle: string): number {
+  const first = needle.charCodeAt(0);
+  outer:
+  for (let i = 0; i <= bytes.length - needle.length; i++) {
+    if (bytes[i] !== first) continue;
+    for (let j = 1; j < needle.length; j++) {
+      if (bytes[i + j] !== needle.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
@@ -0,0 +1,121 @@
+import { createOffscreenVideo, releaseVideo, waitForVideoEvent } from './video-element';
+
+/**
+ * Thumbnail extraction helpers
+ * Frames are captured with an off-screen <video> element and a canvas,
+ * which works in both the Android WebView and desktop browsers
+ */
+
+export interface ThumbnailOptions {
+  // Second of the video to capture (clamped to the video length)
+  captureSecond: number;
+  // Longest edge of the generated image in pixels
+  maxSize?: number;
+  // JPEG quality between 0 and 1
+  quality?: number;
+  // Give up on loading/seeking after this many milliseconds
+  timeoutMs?: number;
+}
+
+const DEFAULT_MAX_SIZE = 480;
+const DEFAULT_QUALITY = 0.8;
+const PLACEHOLDER_WIDTH = 480;
+const PLACEHOLDER_HEIGHT = 270;
+
+/**
+ * Capture a single frame of a video as a JPEG
+ * @param src A URL the WebView can load (e.g. from Capacitor.convertFileSrc)
+ * @returns Base64 encoded JPEG data without the data URL prefix
+ */
+export async function captureVideoFrame(src: string, options: ThumbnailOptions): Promise<string> {
+  const video = createOffscreenVideo();
+
+  try {
+    await waitForVideoEvent(video, 'loadedmetadata', options.timeoutMs, () => {
+      video.src = src;
+      video.load();
+    });
+
+    if (!video.videoWidth || !video.videoHeight) {
+      throw new Error('Video has no decodable frames');
+    }
+
+    // Seek to the requested second, or the middle of clips shorter than that
+    const duration = isFinite(video.duration) ? video.duration : 0;
+    const requested = Math.max(0, options.captureSecond);
+    const seekTarget = requested < duration ? requested : duration / 2;
+    await waitForVideoEvent(video, 'seeked', options.timeoutMs, () => {
+      video.currentTime = seekTarget;
+    });
+
+    const { width, height } = fitWithin(video.videoWidth, video.videoHeight, options.maxSize ?? DEFAULT_MAX_SIZE);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.drawImage(video, 0, 0, width, height);
+
+    return toJpegBase64(canvas, options.quality ?? DEFAULT_QUALITY);
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+/**
+ * Draw a generic placeholder thumbnail for videos that cannot be decoded
+ * @returns Base64 encoded JPEG data without the data URL prefix
+ */
+export function createPlaceholderThumbnail(label?: string): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = PLACEHOLDER_WIDTH;
+  canvas.height = PLACEHOLDER_HEIGHT;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  context.fillStyle = '#282828';
+  context.fillRect(0, 0, PLACEHOLDER_WIDTH, PLACEHOLDER_HEIGHT);
+
+  // Play button in the middle of the frame
+  const centerX = PLACEHOLDER_WIDTH / 2;
+  const centerY = PLACEHOLDER_HEIGHT / 2;
+  context.fillStyle = '#FF0000';
+  context.beginPath();
+  context.roundRect(centerX - 40, centerY - 28, 80, 56, 12);
+  context.fill();
+  context.fillStyle = '#FFFFFF';
+  context.beginPath();
+  context.moveTo(centerX - 10, centerY - 14);
+  context.lineTo(centerX + 16, centerY);
+  context.lineTo(centerX - 10, centerY + 14);
+  context.closePath();
+  context.fill();
+
+  if (label) {
+    context.fillStyle = '#AAAAAA';
+    context.font = '16px sans-serif';
+    context.textAlign = 'center';
+    context.fillText(label, centerX, PLACEHOLDER_HEIGHT - 24, PLACEHOLDER_WIDTH - 32);
+  }
+
+  return toJpegBase64(canvas, DEFAULT_QUALITY);
+}
+
+function toJpegBase64(canvas: HTMLCanvasElement, quality: number): string {
+  const dataUrl = canvas.toDataURL('image/jpeg', quality);
+  return dataUrl.substring(dataUrl.indexOf(',') + 1);
+}
+
+function fitWithin(width: number, height: number, maxSize: number): { width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale)
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { APP_SETTINGS } from '../config';
+import { AVI_HEAD, MKV_HEAD, MOV_HEAD, MP4_HEAD, TEXT_HEAD, WEBM_HEAD } from '../../test/media';
+import { VideoValidationError, assertValidVideoFile, validateVideoFile } from './validation';
+
+function codes(fileName: string, head: Uint8Array | null, fileSize: number | null = 1024) {
+  return validateVideoFile({ fileName, fileSize, head }).map(issue => issue.code);
+}
+
+describe('validateVideoFile', () => {
+  it.each([
+    ['clip.mp4', MP4_HEAD],
+    ['clip.MOV', MOV_HEAD],
+    ['clip.mov', MP4_HEAD],
+    ['clip.webm', WEBM_HEAD],
+    ['clip.mkv', MKV_HEAD],
+    ['clip.mkv', WEBM_HEAD],
+    ['clip.avi', AVI_HEAD]
+  ])('accepts %s with matching content', (fileName, head) => {
+    expect(codes(fileName, head)).toEqual([]);
+  });
+
+  it('rejects unsupported or missing extensions', () => {
+    expect(codes('clip.gif', MP4_HEAD)).toEqual(['unsupported-extension']);
+    expect(codes('clip', MP4_HEAD)).toEqual(['unsupported-extension']);
+  });
+
+  it('rejects content that is not a video', () => {
+    expect(codes('notes.mp4', TEXT_HEAD)).toEqual(['unrecognized-format']);
+  });
+
+  it('rejects content that does not match the extension', () => {
+    expect(codes('clip.mp4', WEBM_HEAD)).toEqual(['extension-mismatch']);
+    expect(codes('clip.avi', MKV_HEAD)).toEqual(['extension-mismatch']);
+  });
+
+  it('checks the size against MAX_VIDEO_FILE_SIZE', () => {
+    expect(codes('clip.mp4', MP4_HEAD, 0)).toEqual(['empty-file']);
+    expect(codes('clip.mp4', MP4_HEAD, APP_SETTINGS.MAX_VIDEO_FILE_SIZE)).toEqual([]);
+    expect(codes('clip.mp4', MP4_HEAD, APP_SETTINGS.MAX_VIDEO_FILE_SIZE + 1)).toEqual(['file-too-large']);
+  });
+
+  it('fails a file whose content or size could not be read', () => {
+    expect(codes('clip.mp4', null)).toEqual(['unreadable-file']);
+    expect(codes('clip.mp4', MP4_HEAD, null)).toEqual(['unreadable-file']);
+    expect(codes('clip.mp4', null, null)).toEqual(['unreadable-file', 'unreadable-file']);
+  });
+
+  it('reports every issue at once', () => {
+    expect(codes('clip.gif', TEXT_HEAD, 0)).toEqual(['unsupported-extension', 'unrecognized-format', 'empty-file']);
+  });
+});
+
+describe('assertValidVideoFile', () => {
+  it('throws the issues as a VideoValidationError', () => {
+    expect(() => assertValidVideoFile({ fileName: 'clip.gif', fileSize: 0, head: MP4_HEAD })).toThrow(
+      expect.objectContaining({
+        name: 'VideoValidationError',
+        fileName: 'clip.gif',
+        issues: [expect.objectContaining({ code: 'unsupported-extension' }), expect.objectContaining({ code: 'empty-file' })]
+      })
+    );
+    expect(() => assertValidVideoFile({ fileName: 'clip.mp4', fileSize: 10, head: MP4_HEAD })).not.toThrow();
+  });
+
+  it('is an Error the UI can tell apart', () => {
+    expect(new VideoValidationError('a.mp4', [])).toBeInstanceOf(Error);
+  });
+});
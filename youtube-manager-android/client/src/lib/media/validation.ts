@@ -0,0 +1,133 @@
+import { APP_SETTINGS } from '../config';
+import { VideoContainer, sniffContainer } from './probe';
+
+/**
+ * Import validation for video files
+ * Checks the extension against SUPPORTED_VIDEO_FORMATS, the magic bytes
+ * against the extension and the size against MAX_VIDEO_FILE_SIZE. A file
+ * whose content or size cannot be read fails, rather than skipping the check.
+ */
+
+export type VideoValidationCode =
+  | 'unsupported-extension'
+  | 'unrecognized-format'
+  | 'extension-mismatch'
+  | 'empty-file'
+  | 'file-too-large'
+  | 'unreadable-file';
+
+export interface VideoValidationIssue {
+  code: VideoValidationCode;
+  message: string;
+}
+
+export interface VideoFileCheck {
+  fileName: string;
+  // null when the size could not be read
+  fileSize: number | null;
+  // First bytes of the file; at least 12 are needed to identify the format.
+  // null when the file could not be read
+  head: Uint8Array | null;
+}
+
+// Number of leading bytes needed by sniffContainer
+export const VALIDATION_HEAD_BYTES = 64;
+
+// Containers whose magic bytes are accepted for each extension
+// (mp4 and mov share the ftyp box, webm and mkv share the EBML header)
+const COMPATIBLE_CONTAINERS: Record<string, VideoContainer[]> = {
+  mp4: ['mp4', 'mov'],
+  mov: ['mov', 'mp4'],
+  webm: ['webm', 'mkv'],
+  mkv: ['mkv', 'webm'],
+  avi: ['avi']
+};
+
+/**
+ * Error thrown when a file fails validation, carrying every issue found
+ */
+export class VideoValidationError extends Error {
+  constructor(
+    public readonly fileName: string,
+    public readonly issues: VideoValidationIssue[]
+  ) {
+    super(`${fileName}: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'VideoValidationError';
+  }
+}
+
+/**
+ * Validate a video file before it is imported
+ * @returns The list of problems found (empty when the file is acceptable)
+ */
+export function validateVideoFile({ fileName, fileSize, head }: VideoFileCheck): VideoValidationIssue[] {
+  const issues: VideoValidationIssue[] = [];
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const supported = APP_SETTINGS.SUPPORTED_VIDEO_FORMATS;
+
+  if (!supported.includes(extension)) {
+    issues.push({
+      code: 'unsupported-extension',
+      message: `Unsupported file type "${extension || 'none'}" (supported: ${supported.join(', ')})`
+    });
+  }
+
+  if (!head) {
+    issues.push({
+      code: 'unreadable-file',
+      message: 'File could not be read to check its format'
+    });
+  } else {
+    const container = sniffContainer(head);
+    if (!container) {
+      issues.push({
+        code: 'unrecognized-format',
+        message: 'File content is not a recognised video format'
+      });
+    } else if (supported.includes(extension) && !(COMPATIBLE_CONTAINERS[extension] || []).includes(container)) {
+      issues.push({
+        code: 'extension-mismatch',
+        message: `File content is ${container} but the extension is .${extension}`
+      });
+    }
+  }
+
+  if (fileSize === null) {
+    issues.push({
+      code: 'unreadable-file',
+      message: 'File size could not be read'
+    });
+  } else {
+    if (fileSize <= 0) {
+      issues.push({ code: 'empty-file', message: 'File is empty' });
+    } else if (fileSize > APP_SETTINGS.MAX_VIDEO_FILE_SIZE) {
+      issues.push({
+        code: 'file-too-large',
+        message: `File is ${formatBytes(fileSize)}, the limit is ${formatBytes(APP_SETTINGS.MAX_VIDEO_FILE_SIZE)}`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a file and throw a VideoValidationError if it has any issues
+ */
+export function assertValidVideoFile(check: VideoFileCheck): void {
+  const issues = validateVideoFile(check);
+  if (issues.length > 0) {
+    throw new VideoValidationError(check.fileName, issues);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
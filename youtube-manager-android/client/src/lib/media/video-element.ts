@@ -0,0 +1,61 @@
+/**
+ * Helpers for driving an off-screen <video> element
+ * Shared by thumbnail extraction and metadata probing
+ */
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Create a muted, detached video element suitable for decoding
+ */
+export function createOffscreenVideo(): HTMLVideoElement {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.crossOrigin = 'anonymous';
+  return video;
+}
+
+/**
+ * Detach the source so the decoder is released as soon as possible
+ */
+export function releaseVideo(video: HTMLVideoElement): void {
+  video.removeAttribute('src');
+  video.load();
+}
+
+/**
+ * Resolve once the element fires the given event, rejecting on error or timeout
+ * @param trigger Called after the listeners are attached
+ */
+export function waitForVideoEvent(
+  video: HTMLVideoElement,
+  eventName: 'loadedmetadata' | 'seeked',
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  trigger: () => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(eventName, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || `Video failed while waiting for ${eventName}`));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for ${eventName}`));
+    }, timeoutMs);
+
+    video.addEventListener(eventName, onEvent);
+    video.addEventListener('error', onError);
+    trigger();
+  });
+}
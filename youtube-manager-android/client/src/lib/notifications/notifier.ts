@@ -0,0 +1,101 @@
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications } from '@capacitor/local-notifications';
+
+/**
+ * Notifier abstraction for reminders
+ * ReminderService only talks to this interface, so the reminder logic runs
+ * the same against Android's local notifications and the in-memory notifier
+ * used in the browser and in tests.
+ */
+
+export interface ReminderNotification {
+  // 32-bit integer id, see reminder-plan.ts for the ranges in use
+  id: number;
+  title: string;
+  body: string;
+  at: Date;
+  extra?: Record<string, unknown>;
+}
+
+export interface Notifier {
+  // Whether notifications may be shown, asking the user if needed
+  requestPermission(): Promise<boolean>;
+  schedule(notifications: ReminderNotification[]): Promise<void>;
+  cancel(ids: number[]): Promise<void>;
+  // Ids of notifications scheduled but not yet shown
+  getPendingIds(): Promise<number[]>;
+}
+
+/**
+ * Notifier backed by @capacitor/local-notifications
+ */
+export class CapacitorNotifier implements Notifier {
+  async requestPermission(): Promise<boolean> {
+    const status = await LocalNotifications.checkPermissions();
+    if (status.display === 'granted') return true;
+    if (status.display === 'denied') return false;
+    const requested = await LocalNotifications.requestPermissions();
+    return requested.display === 'granted';
+  }
+
+  async schedule(notifications: ReminderNotification[]): Promise<void> {
+    if (notifications.length === 0) return;
+    await LocalNotifications.schedule({
+      notifications: notifications.map(n => ({
+        id: n.id,
+        title: n.title,
+        body: n.body,
+        extra: n.extra,
+        // Reminders should fire on time even in Doze mode
+        schedule: { at: n.at, allowWhileIdle: true }
+      }))
+    });
+  }
+
+  async cancel(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await LocalNotifications.cancel({ notifications: ids.map(id => ({ id })) });
+  }
+
+  async getPendingIds(): Promise<number[]> {
+    const { notifications } = await LocalNotifications.getPending();
+    return notifications.map(n => n.id);
+  }
+}
+
+/**
+ * Notifier that only keeps notifications in memory
+ * Used where there are no local notifications (the browser) and as a fake in tests
+ */
+export class MemoryNotifier implements Notifier {
+  readonly scheduled = new Map<number, ReminderNotification>();
+
+  constructor(private readonly permission = true) {}
+
+  async requestPermission(): Promise<boolean> {
+    return this.permission;
+  }
+
+  async schedule(notifications: ReminderNotification[]): Promise<void> {
+    for (const notification of notifications) {
+      this.scheduled.set(notification.id, notification);
+    }
+  }
+
+  async cancel(ids: number[]): Promise<void> {
+    for (const id of ids) {
+      this.scheduled.delete(id);
+    }
+  }
+
+  async getPendingIds(): Promise<number[]> {
+    return Array.from(this.scheduled.keys());
+  }
+}
+
+/**
+ * The notifier for the current platform
+ */
+export function createPlatformNotifier(): Notifier {
+  return Capacitor.isNativePlatform() ? new CapacitorNotifier() : new MemoryNotifier();
+}
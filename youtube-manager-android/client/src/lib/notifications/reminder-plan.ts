@@ -0,0 +1,139 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import { Profile, Video } from '../database/schema';
+import { ReminderNotification } from './notifier';
+
+/**
+ * Reminder planning
+ * Pure functions that turn the schedule into notifications; ReminderService
+ * hands the result to a Notifier. Notification ids are split into ranges so
+ * a resync can tell its own notifications apart:
+ *   video reminders: the video id
+ *   daily digests:   DIGEST_ID_BASE + days since 1970-01-01
+ *   missed alert:    MISSED_ALERT_ID
+ */
+
+export const DIGEST_ID_BASE = 1_000_000_000;
+export const MISSED_ALERT_ID = 2_000_000_000;
+
+export interface ReminderPlanOptions {
+  now: Date;
+  // HH:mm local time of the daily digest
+  digestTime: string;
+  // Days ahead to plan for, counting today
+  daysAhead: number;
+  // Most video reminders to keep scheduled; Android caps pending alarms
+  maxVideoReminders: number;
+}
+
+export interface MissedAlertVideo {
+  title: string;
+  profileId: number;
+}
+
+const EPOCH = new Date(1970, 0, 1);
+
+/**
+ * Whether a notification id belongs to the schedule reminders that a resync replaces
+ */
+export function isScheduleReminderId(id: number): boolean {
+  return id > 0 && id < MISSED_ALERT_ID;
+}
+
+function publishTime(video: Video): Date | null {
+  if (!video.scheduleAt) return null;
+  const date = parseISO(video.scheduleAt);
+  return isValid(date) ? date : null;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Digest line such as "3 videos due across 2 channels"
+ */
+export function describeDueVideos(videos: Pick<Video, 'profileId'>[]): string {
+  const channels = new Set(videos.map(v => v.profileId)).size;
+  return `${plural(videos.length, 'video')} due across ${plural(channels, 'channel')}`;
+}
+
+/**
+ * One reminder at the publish time of each upcoming pending video, plus a
+ * morning digest for every day in the window that has videos due
+ */
+export function planReminders(
+  videos: Video[],
+  profiles: Profile[],
+  options: ReminderPlanOptions
+): ReminderNotification[] {
+  const { now } = options;
+  const profilesById = new Map(profiles.map(p => [p.id, p]));
+  const windowEnd = startOfDay(addDays(now, options.daysAhead));
+
+  const upcoming = videos
+    .filter(video => video.status === 'pending')
+    .map(video => ({ video, at: publishTime(video) }))
+    .filter((entry): entry is { video: Video; at: Date } => entry.at !== null && entry.at < windowEnd)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const notifications: ReminderNotification[] = upcoming
+    .filter(entry => entry.at > now)
+    .slice(0, options.maxVideoReminders)
+    .map(({ video, at }) => {
+      const profile = profilesById.get(video.profileId);
+      return {
+        id: video.id,
+        title: `Time to upload: ${video.title}`,
+        body: profile
+          ? `Scheduled for ${format(at, 'HH:mm')} on ${profile.channelName || profile.name}`
+          : `Scheduled for ${format(at, 'HH:mm')}`,
+        at,
+        extra: { type: 'video', videoId: video.id }
+      };
+    });
+
+  // Group by the device's calendar day, which is when the digest fires
+  const byDay = new Map<string, Video[]>();
+  for (const { video, at } of upcoming) {
+    const day = format(at, 'yyyy-MM-dd');
+    byDay.set(day, [...(byDay.get(day) || []), video]);
+  }
+
+  const [digestHour, digestMinute] = options.digestTime.split(':').map(Number);
+  byDay.forEach((dayVideos, day) => {
+    const at = parseISO(day);
+    at.setHours(digestHour, digestMinute, 0, 0);
+    if (at <= now) return;
+
+    const titles = dayVideos.slice(0, 3).map(v => v.title);
+    const more = dayVideos.length - titles.length;
+    notifications.push({
+      id: DIGEST_ID_BASE + differenceInCalendarDays(at, EPOCH),
+      title: describeDueVideos(dayVideos),
+      body: more > 0 ? `${titles.join(', ')} and ${more} more` : titles.join(', '),
+      at,
+      extra: { type: 'digest', day }
+    });
+  });
+
+  return notifications;
+}
+
+/**
+ * Alert for videos that were just marked as missed
+ * @param at When to show it; shortly after now so it is not dropped as past
+ */
+export function planMissedAlert(missed: MissedAlertVideo[], at: Date): ReminderNotification | null {
+  if (missed.length === 0) return null;
+
+  const channels = new Set(missed.map(v => v.profileId)).size;
+  return {
+    id: MISSED_ALERT_ID,
+    title: `${plural(missed.length, 'video')} missed ${missed.length === 1 ? 'its' : 'their'} upload date`,
+    body: missed.length === 1
+      ? `"${missed[0].title}" was not pushed. Open the Today tab to reschedule it.`
+      : `Across ${plural(channels, 'channel')}. Open the Today tab to reschedule them.`,
+    at,
+    extra: { type: 'missed' }
+  };
+}
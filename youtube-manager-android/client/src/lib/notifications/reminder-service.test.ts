@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { APP_SETTINGS } from '../config';
+import { sqliteService } from '../database/sqlite-service';
+import { Video } from '../database/schema';
+import { MemoryNotifier } from './notifier';
+import { MISSED_ALERT_ID } from './reminder-plan';
+import { reminderService } from './reminder-service';
+
+const NOW = new Date(2026, 2, 2, 7, 0);
+
+const PROFILE = makeProfile({ channelLink: '' });
+
+function video(id: number, at: Date, status: Video['status'] = 'pending'): Video {
+  return makeVideo({ id, scheduleDate: '', scheduleAt: at.toISOString(), status });
+}
+
+describe('ReminderService', () => {
+  let notifier: MemoryNotifier;
+  let getVideosByStatus: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    notifier = new MemoryNotifier();
+    reminderService.setNotifier(notifier);
+    getVideosByStatus = vi.spyOn(sqliteService, 'getVideosByStatus').mockResolvedValue([
+      video(1, new Date(2026, 2, 2, 12, 0)),
+      video(2, new Date(2026, 2, 2, 18, 30)),
+      // Already past, so only counted in the digest
+      video(3, new Date(2026, 2, 2, 6, 0)),
+      // Beyond REMINDER_DAYS_AHEAD
+      video(4, new Date(2026, 2, 20, 12, 0))
+    ]);
+    vi.spyOn(sqliteService, 'getProfiles').mockResolvedValue([PROFILE]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('syncReminders', () => {
+    it('schedules a reminder per upcoming video and a digest per day', async () => {
+      await reminderService.syncReminders();
+
+      const scheduled = Array.from(notifier.scheduled.values());
+      expect(scheduled.filter(n => n.extra?.type === 'video')).toEqual([
+        expect.objectContaining({ id: 1, title: 'Time to upload: Video 1', body: 'Scheduled for 12:00 on Main channel', at: new Date(2026, 2, 2, 12, 0) }),
+        expect.objectContaining({ id: 2, title: 'Time to upload: Video 2', at: new Date(2026, 2, 2, 18, 30) })
+      ]);
+      expect(scheduled.filter(n => n.extra?.type === 'digest')).toEqual([
+        expect.objectContaining({ title: '3 videos due across 1 channel', body: 'Video 3, Video 1, Video 2', at: new Date(2026, 2, 2, 8, 0) })
+      ]);
+    });
+
+    it('replaces earlier schedule reminders but keeps the missed alert', async () => {
+      await notifier.schedule([
+        { id: 99, title: 'Stale', body: '', at: new Date(2026, 2, 3) },
+        { id: MISSED_ALERT_ID, title: 'Missed', body: '', at: new Date(2026, 2, 2, 7, 1) }
+      ]);
+
+      await reminderService.syncReminders();
+
+      expect(notifier.scheduled.has(99)).toBe(false);
+      expect(notifier.scheduled.has(MISSED_ALERT_ID)).toBe(true);
+      expect(notifier.scheduled.has(1)).toBe(true);
+    });
+
+    it('collapses a burst of requests into one resync', async () => {
+      const requests = [reminderService.syncReminders(), reminderService.syncReminders(), reminderService.syncReminders()];
+      await Promise.all(requests);
+
+      expect(getVideosByStatus).toHaveBeenCalledTimes(1);
+      expect(getVideosByStatus).toHaveBeenCalledWith('pending');
+    });
+
+    it('resyncs again when asked after a resync has finished', async () => {
+      await reminderService.syncReminders();
+      getVideosByStatus.mockResolvedValue([]);
+      await reminderService.syncReminders();
+
+      expect(getVideosByStatus).toHaveBeenCalledTimes(2);
+      expect(notifier.scheduled.size).toBe(0);
+    });
+
+    it('schedules nothing without notification permission', async () => {
+      notifier = new MemoryNotifier(false);
+      reminderService.setNotifier(notifier);
+
+      await reminderService.syncReminders();
+
+      expect(getVideosByStatus).not.toHaveBeenCalled();
+      expect(notifier.scheduled.size).toBe(0);
+    });
+
+    it('logs errors instead of throwing them', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      getVideosByStatus.mockRejectedValue(new Error('database is closed'));
+
+      await expect(reminderService.syncReminders()).resolves.toBeUndefined();
+      expect(consoleError).toHaveBeenCalledWith('Error syncing reminders:', expect.any(Error));
+    });
+
+    it('does nothing when reminders are turned off', async () => {
+      APP_SETTINGS.REMINDERS_ENABLED = false;
+      try {
+        await reminderService.syncReminders();
+      } finally {
+        APP_SETTINGS.REMINDERS_ENABLED = true;
+      }
+
+      expect(getVideosByStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyMissed', () => {
+    it('shows one alert shortly after now', async () => {
+      await reminderService.notifyMissed([{ title: 'Video 3', profileId: 1 }], NOW);
+
+      expect(Array.from(notifier.scheduled.values())).toEqual([
+        expect.objectContaining({
+          id: MISSED_ALERT_ID,
+          title: '1 video missed its upload date',
+          at: new Date(NOW.getTime() + 5000)
+        })
+      ]);
+    });
+
+    it('shows nothing when no videos were missed', async () => {
+      await reminderService.notifyMissed([], NOW);
+
+      expect(notifier.scheduled.size).toBe(0);
+    });
+  });
+});
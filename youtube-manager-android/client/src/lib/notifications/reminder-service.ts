@@ -0,0 +1,108 @@
+import { addSeconds } from 'date-fns';
+import { APP_SETTINGS } from '../config';
+import { sqliteService } from '../database/sqlite-service';
+import { Notifier, createPlatformNotifier } from './notifier';
+import { MissedAlertVideo, isScheduleReminderId, planMissedAlert, planReminders } from './reminder-plan';
+
+/**
+ * Reminder subsystem
+ * Keeps local notifications in step with the schedule: a reminder at each
+ * pending video's publish time, a daily digest and an alert when videos are
+ * marked as missed. Every change to the schedule triggers a full resync,
+ * which is cheap for the few weeks of videos that are planned.
+ */
+export class ReminderService {
+  private static instance: ReminderService;
+  private notifier: Notifier = createPlatformNotifier();
+  private permissionGranted: boolean | null = null;
+  // Resyncs run one after another so two quick edits cannot interleave
+  private syncQueue: Promise<void> = Promise.resolve();
+  // A resync that is waiting to start; later requests share it
+  private queuedSync: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ReminderService {
+    if (!ReminderService.instance) {
+      ReminderService.instance = new ReminderService();
+    }
+    return ReminderService.instance;
+  }
+
+  /**
+   * Swap the notifier, e.g. for a MemoryNotifier in tests
+   */
+  setNotifier(notifier: Notifier): void {
+    this.notifier = notifier;
+    this.permissionGranted = null;
+  }
+
+  private async hasPermission(): Promise<boolean> {
+    if (this.permissionGranted === null) {
+      this.permissionGranted = await this.notifier.requestPermission().catch(error => {
+        console.error('Error requesting notification permission:', error);
+        return false;
+      });
+    }
+    return this.permissionGranted;
+  }
+
+  /**
+   * Replace all scheduled reminders with ones for the current schedule
+   * Errors are logged rather than thrown, so a reminder failure never
+   * fails the edit that triggered it. Bursts of edits (e.g. a CSV import)
+   * collapse into one resync.
+   */
+  syncReminders(): Promise<void> {
+    if (!this.queuedSync) {
+      this.queuedSync = this.syncQueue.then(() => {
+        this.queuedSync = null;
+        return this.runSync(new Date());
+      });
+      this.syncQueue = this.queuedSync;
+    }
+    return this.queuedSync;
+  }
+
+  private async runSync(now: Date): Promise<void> {
+    if (!APP_SETTINGS.REMINDERS_ENABLED) return;
+    try {
+      if (!(await this.hasPermission())) return;
+
+      const [videos, profiles] = await Promise.all([
+        sqliteService.getVideosByStatus('pending'),
+        sqliteService.getProfiles()
+      ]);
+      const notifications = planReminders(videos, profiles, {
+        now,
+        digestTime: APP_SETTINGS.REMINDER_DIGEST_TIME,
+        daysAhead: APP_SETTINGS.REMINDER_DAYS_AHEAD,
+        maxVideoReminders: APP_SETTINGS.MAX_VIDEO_REMINDERS
+      });
+
+      const pending = await this.notifier.getPendingIds();
+      await this.notifier.cancel(pending.filter(isScheduleReminderId));
+      await this.notifier.schedule(notifications);
+    } catch (error) {
+      console.error('Error syncing reminders:', error);
+    }
+  }
+
+  /**
+   * Alert the user about videos that were just marked as missed
+   */
+  async notifyMissed(missed: MissedAlertVideo[], now: Date = new Date()): Promise<void> {
+    if (!APP_SETTINGS.REMINDERS_ENABLED) return;
+    try {
+      // Notifications scheduled in the past are dropped, so fire just after now
+      const alert = planMissedAlert(missed, addSeconds(now, 5));
+      if (!alert || !(await this.hasPermission())) return;
+      await this.notifier.schedule([alert]);
+    } catch (error) {
+      console.error('Error showing missed upload alert:', error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const reminderService = ReminderService.getInstance();
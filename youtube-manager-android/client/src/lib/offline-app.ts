@@ -4,6 +4,9 @@ import { Preferences } from '@capacitor/preferences';
 import { sqliteService } from './database/sqlite-service';
 import { filesystemService } from './database/filesystem-service';
 import { initializeOfflineCapabilities, setOfflineMode } from './api/api-switcher';
+import { offlineApiService, MissedScheduleSummary } from './api/offline-api-service';
+import { PlaceholderCheck } from './database/placeholder-service';
+import { reminderService } from './notifications/reminder-service';
 
 /**
  * Offline app initialization and lifecycle management
@@ -16,6 +19,36 @@ const APP_VERSION = '1.0.0';
 const APP_NAME = 'YouTube Schedule Manager';
 const DEFAULT_PROFILE_NAME = 'My YouTube Channel';
 
+// Listeners notified when the missed-schedule detection pass changes videos
+type MissedScheduleListener = (summary: MissedScheduleSummary) => void;
+const missedScheduleListeners = new Set<MissedScheduleListener>();
+
+/**
+ * Subscribe to missed-schedule detection results (e.g. to show a toast)
+ * @returns A function that removes the listener
+ */
+export function addMissedScheduleListener(listener: MissedScheduleListener): () => void {
+  missedScheduleListeners.add(listener);
+  return () => {
+    missedScheduleListeners.delete(listener);
+  };
+}
+
+// Listeners warned when placeholder videos lose their original file
+type PlaceholderWarningListener = (problems: PlaceholderCheck[]) => void;
+const placeholderWarningListeners = new Set<PlaceholderWarningListener>();
+
+/**
+ * Subscribe to warnings about placeholder originals that were moved or deleted
+ * @returns A function that removes the listener
+ */
+export function addPlaceholderWarningListener(listener: PlaceholderWarningListener): () => void {
+  placeholderWarningListeners.add(listener);
+  return () => {
+    placeholderWarningListeners.delete(listener);
+  };
+}
+
 // Initialize the native app functionality
 export async function initializeNativeApp(): Promise<void> {
   console.log('Initializing native app capabilities...');
@@ -41,6 +74,15 @@ export async function initializeNativeApp(): Promise<void> {
     // Check if this is first run and perform first-time setup if needed
     await checkFirstRun();
     
+    // Flag videos whose schedule date has passed
+    await runMissedScheduleDetection();
+    
+    // Warn about placeholder videos whose original file has gone
+    await runPlaceholderCheck();
+    
+    // Schedule reminders for upcoming videos (asks for notification permission)
+    await reminderService.syncReminders();
+    
     console.log('Native app initialization complete');
   } catch (error) {
     console.error('Error initializing native app:', error);
@@ -55,6 +97,15 @@ async function onAppForeground(): Promise<void> {
       await sqliteService.initialize();
     }
     
+    // The day may have changed while the app was in the background
+    await runMissedScheduleDetection();
+    
+    // Files may have been moved or deleted while the app was in the background
+    await runPlaceholderCheck();
+    
+    // Roll the digest window forward and drop reminders for missed videos
+    await reminderService.syncReminders();
+    
     // Perform any background data sync if needed
     // (This would be implemented if we wanted to sync with a cloud server)
   } catch (error) {
@@ -62,6 +113,35 @@ async function onAppForeground(): Promise<void> {
   }
 }
 
+// Mark overdue pending videos as missed and notify listeners of any changes
+async function runMissedScheduleDetection(): Promise<MissedScheduleSummary | null> {
+  try {
+    const summary = await offlineApiService.detectMissedSchedules();
+    if (summary.missedCount > 0) {
+      console.log(`Marked ${summary.missedCount} video(s) as missed`);
+      missedScheduleListeners.forEach(listener => listener(summary));
+      await reminderService.notifyMissed(summary.videos);
+    }
+    return summary;
+  } catch (error) {
+    console.error('Error detecting missed schedules:', error);
+    return null;
+  }
+}
+
+// Check placeholder originals and notify listeners of any problems
+async function runPlaceholderCheck(): Promise<void> {
+  try {
+    const problems = await offlineApiService.checkPlaceholderOriginals();
+    if (problems.length > 0) {
+      console.warn(`${problems.length} placeholder video(s) have a missing or changed original file`);
+      placeholderWarningListeners.forEach(listener => listener(problems));
+    }
+  } catch (error) {
+    console.error('Error checking placeholder originals:', error);
+  }
+}
+
 // Called when app enters the background
 async function onAppBackground(): Promise<void> {
   try {
@@ -116,8 +196,13 @@ async function checkFirstRun(): Promise<void> {
       
       if (storedVersion !== APP_VERSION) {
         console.log(`App updated from ${storedVersion} to ${APP_VERSION}`);
-        // Perform any version-specific migrations here
-        
+
+        // Apply any schema migrations shipped with the new version
+        // (a no-op if they already ran while the database was opened)
+        const applied = await sqliteService.runMigrations();
+        const schemaVersion = await sqliteService.getSchemaVersion();
+        console.log(`Database schema at version ${schemaVersion} (${applied.length} migration(s) applied)`);
+
         // Update stored app version
         await Preferences.set({
           key: 'app_version',
@@ -1,5 +1,7 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { API_BASE_URL, CAPACITOR_DEV_URL } from "./config";
+import { isOfflineMode } from "./api/api-switcher";
+import { handleOfflineRequest } from "./api/offline-routes";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -56,17 +58,35 @@ function getFullUrl(url: string): string {
   return url;
 }
 
+// Wrap an offline handler result in a Response so callers can treat
+// offline and server responses the same way
+function offlineResponse(result: unknown): Response {
+  return new Response(JSON.stringify(result ?? null), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // In offline mode API routes are served from the local database
+  if (url.startsWith('/api') && await isOfflineMode()) {
+    return offlineResponse(await handleOfflineRequest(method, url, data));
+  }
+  
   const fullUrl = getFullUrl(url);
   
+  // Files such as backup archives are sent as they are
+  const isFile = data instanceof Blob;
   const res = await fetch(fullUrl, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: isFile
+      ? { "Content-Type": data.type || "application/octet-stream" }
+      : data ? { "Content-Type": "application/json" } : {},
+    body: isFile ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -78,9 +98,19 @@ type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
-  ({ on401: unauthorizedBehavior }) =>
+  <T>({ on401: unauthorizedBehavior }: { on401: UnauthorizedBehavior }): QueryFunction<T> =>
   async ({ queryKey }) => {
-    const url = getFullUrl(queryKey[0] as string);
+    const path = queryKey[0] as string;
+    
+    // In offline mode API routes are served from the local database;
+    // an object in the second key position is treated as query parameters
+    if (path.startsWith('/api') && await isOfflineMode()) {
+      const params = queryKey[1];
+      const query = params && typeof params === 'object' ? params as Record<string, unknown> : {};
+      return await handleOfflineRequest('GET', path, undefined, query) as T;
+    }
+    
+    const url = getFullUrl(path);
     try {
       const res = await fetch(url, {
         credentials: "include",
@@ -109,6 +139,31 @@ export const getQueryFn: <T>(options: {
     }
   };
 
+/**
+ * Query function for a fixed path, with query parameters from the object in
+ * the second key position. The path is passed separately so a query can be
+ * keyed under its parent list, e.g. ['/api/videos', params, 'page'], and be
+ * invalidated along with it. For infinite queries the page param is sent as
+ * the cursor.
+ */
+export function getPathQueryFn<T>(path: string): QueryFunction<T, readonly unknown[], string | null | undefined> {
+  return async ({ queryKey, pageParam }) => {
+    const params = queryKey[1] && typeof queryKey[1] === 'object' ? queryKey[1] as Record<string, unknown> : {};
+    const query: Record<string, unknown> = pageParam ? { ...params, cursor: pageParam } : params;
+    
+    if (await isOfflineMode()) {
+      return await handleOfflineRequest('GET', path, undefined, query) as T;
+    }
+    
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== null && value !== undefined) search.set(key, String(value));
+    }
+    const res = await apiRequest('GET', search.toString() ? `${path}?${search}` : path);
+    return await res.json();
+  };
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -0,0 +1,82 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { APP_SETTINGS } from '../config';
+import { Video } from '../database/schema';
+import { getScheduleDay, getScheduleTime } from './schedule-time';
+
+/**
+ * Calendar view helpers
+ * Days are keyed by the yyyy-MM-dd part of a video's scheduleDate, which is
+ * the publish day in the video's own time zone.
+ */
+
+export const CALENDAR_VIEWS = ['month', 'week'] as const;
+export type CalendarView = typeof CALENDAR_VIEWS[number];
+
+// Weeks start on Monday
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Profile colours, assigned in profile order and reused when there are more profiles
+export const PROFILE_COLORS = ['#E53935', '#1E88E5', '#43A047', '#FB8C00', '#8E24AA', '#00ACC1', '#6D4C41', '#3949AB'];
+
+/**
+ * The days shown for a view: whole weeks covering the anchor's month, or the anchor's week
+ */
+export function getCalendarDays(anchor: Date, view: CalendarView): Date[] {
+  if (view === 'week') {
+    const start = startOfWeek(anchor, WEEK_OPTIONS);
+    return eachDayOfInterval({ start, end: addDays(start, 6) });
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS)
+  });
+}
+
+/**
+ * Move the anchor a number of months or weeks back or forward
+ */
+export function shiftCalendarAnchor(anchor: Date, view: CalendarView, step: number): Date {
+  return view === 'week' ? addWeeks(anchor, step) : addMonths(anchor, step);
+}
+
+export function toCalendarDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Videos per yyyy-MM-dd day, each day in publish order
+ */
+export function groupVideosByDay<T extends Pick<Video, 'id' | 'scheduleDate'>>(videos: T[]): Map<string, T[]> {
+  const byDay = new Map<string, T[]>();
+  const sorted = [...videos].sort((a, b) => a.scheduleDate.localeCompare(b.scheduleDate) || a.id - b.id);
+  for (const video of sorted) {
+    const day = getScheduleDay(video.scheduleDate);
+    byDay.set(day, [...(byDay.get(day) || []), video]);
+  }
+  return byDay;
+}
+
+/**
+ * The scheduleDate for moving a video to another day at the same time of day
+ */
+export function moveScheduleDate(scheduleDate: string, day: string): string {
+  return `${day}T${getScheduleTime(scheduleDate) ?? APP_SETTINGS.DEFAULT_SCHEDULE_TIME}`;
+}
+
+/**
+ * A profile's colour in the calendar
+ */
+export function getProfileColor(profileId: number, profileIds: number[]): string {
+  const index = profileIds.indexOf(profileId);
+  return PROFILE_COLORS[(index >= 0 ? index : profileId) % PROFILE_COLORS.length];
+}
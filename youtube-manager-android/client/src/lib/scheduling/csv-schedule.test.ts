@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { makeProfile } from '../../test/fixtures';
+import {
+  CsvScheduleError,
+  guessColumnMapping,
+  parseCsv,
+  parseScheduleDate,
+  parseScheduleTime,
+  previewCsvSchedule
+} from './csv-schedule';
+
+const profiles = [
+  makeProfile({ id: 1, name: 'Cooking', channelName: 'Chef Ana' }),
+  makeProfile({ id: 2, name: 'Travel', channelName: 'Away' })
+];
+const videoFiles = [{ name: 'Pasta.mp4', size: 2048 }];
+
+describe('parseCsv', () => {
+  it('handles quoted commas, newlines and doubled quotes', () => {
+    expect(parseCsv('title,description\r\n"Pasta, fresh","Line one\nsays ""hi"""\n')).toEqual([
+      ['title', 'description'],
+      ['Pasta, fresh', 'Line one\nsays "hi"']
+    ]);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFtitle\n\n , \nPasta')).toEqual([['title'], ['Pasta']]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognises header aliases in any case', () => {
+    expect(guessColumnMapping(['Channel Name', 'Video Title', 'Publish Date', 'TZ', 'Notes'])).toEqual({
+      profile: 0,
+      title: 1,
+      description: 4,
+      scheduleDate: 2,
+      scheduleTime: null,
+      timeZone: 3,
+      fileName: null
+    });
+  });
+});
+
+describe('parseScheduleDate', () => {
+  it('reads ISO dates and the chosen day order', () => {
+    expect(parseScheduleDate('2026-03-02')).toBe('2026-03-02');
+    expect(parseScheduleDate('02/03/2026', 'dd/MM/yyyy')).toBe('2026-03-02');
+    expect(parseScheduleDate('02/03/2026', 'MM/dd/yyyy')).toBe('2026-02-03');
+    expect(parseScheduleDate('2.3.2026', 'dd.MM.yyyy')).toBe('2026-03-02');
+  });
+
+  it('keeps a time given with the date', () => {
+    expect(parseScheduleDate('2026-03-02 9:30')).toBe('2026-03-02T09:30');
+    expect(parseScheduleDate('2026-03-02T14:30:00')).toBe('2026-03-02T14:30');
+  });
+
+  it('rejects dates that do not exist instead of rolling them over', () => {
+    expect(parseScheduleDate('2026-02-30')).toBeNull();
+    expect(parseScheduleDate('31/04/2026')).toBeNull();
+    expect(parseScheduleDate('next monday')).toBeNull();
+  });
+});
+
+describe('parseScheduleTime', () => {
+  it('pads the hour and rejects times out of range', () => {
+    expect(parseScheduleTime('9:05')).toBe('09:05');
+    expect(parseScheduleTime('24:00')).toBeNull();
+    expect(parseScheduleTime('12:60')).toBeNull();
+  });
+});
+
+describe('previewCsvSchedule', () => {
+  it('maps each row to a profile, schedule and file', () => {
+    const csv = [
+      'profile,title,description,date,time,timezone,file',
+      'cooking,Pasta,Fresh pasta,2026-03-02,17:00,Europe/Lisbon,pasta.MP4',
+      'Away,Lisbon,,02/03/2026 08:00,,,'
+    ].join('\n');
+
+    const { rows } = previewCsvSchedule(csv, { profiles, videoFiles });
+
+    expect(rows).toEqual([
+      {
+        row: 2,
+        title: 'Pasta',
+        description: 'Fresh pasta',
+        profileId: 1,
+        scheduleDate: '2026-03-02T17:00',
+        scheduleTimeZone: 'Europe/Lisbon',
+        fileName: 'pasta.MP4',
+        file: videoFiles[0],
+        errors: []
+      },
+      expect.objectContaining({ row: 3, profileId: 2, scheduleDate: '2026-03-02T08:00', scheduleTimeZone: null, file: null, errors: [] })
+    ]);
+  });
+
+  it('lists every problem with a row', () => {
+    const csv = 'profile,title,date,time,tz,file\nNobody,,someday,25:00,Mars/Base,missing.mp4';
+
+    const [row] = previewCsvSchedule(csv, { profiles, videoFiles }).rows;
+
+    expect(row.errors).toEqual([
+      'Title is empty',
+      'No profile named "Nobody"',
+      '"someday" is not a valid date',
+      '"25:00" is not a valid time',
+      '"Mars/Base" is not a valid time zone',
+      'No file named "missing.mp4" in videos/'
+    ]);
+  });
+
+  it('rejects a file without data rows or required columns', () => {
+    expect(() => previewCsvSchedule('profile,title,date\n', { profiles, videoFiles })).toThrow(CsvScheduleError);
+    expect(() => previewCsvSchedule('profile,date\nCooking,2026-03-02', { profiles, videoFiles }))
+      .toThrow('No column found for: title');
+  });
+
+  it('uses a mapping chosen by the user over the headers', () => {
+    const mapping = { profile: 2, title: 0, description: null, scheduleDate: 1, scheduleTime: null, timeZone: null, fileName: null };
+
+    const [row] = previewCsvSchedule('a,b,c\nPasta,2026-03-02,Cooking', { profiles, videoFiles, mapping }).rows;
+
+    expect(row).toMatchObject({ title: 'Pasta', profileId: 1, scheduleDate: '2026-03-02', errors: [] });
+  });
+});
@@ -0,0 +1,248 @@
+import { format, isValid, parse } from 'date-fns';
+import { Profile } from '../database/schema';
+import { isValidTimeZone } from './time-zone';
+
+/**
+ * CSV bulk schedule import
+ * Turns spreadsheet rows (profile, title, description, scheduleDate and
+ * optional time, time zone and file name) into videos ready for
+ * OfflineApiService.createVideo
+ */
+
+export type CsvScheduleField =
+  'profile' | 'title' | 'description' | 'scheduleDate' | 'scheduleTime' | 'timeZone' | 'fileName';
+
+// Column index for each field; all but profile, title and scheduleDate are optional
+export type CsvColumnMapping = Record<CsvScheduleField, number | null>;
+
+// Header names recognised for each field, compared case-insensitively
+const COLUMN_ALIASES: Record<CsvScheduleField, string[]> = {
+  profile: ['profile', 'channel', 'channelname', 'channel name', 'profile name'],
+  title: ['title', 'video title'],
+  description: ['description', 'desc', 'notes'],
+  scheduleDate: ['scheduledate', 'schedule date', 'date', 'publish date', 'upload date'],
+  scheduleTime: ['scheduletime', 'schedule time', 'time', 'publish time', 'upload time'],
+  timeZone: ['timezone', 'time zone', 'tz'],
+  fileName: ['filename', 'file name', 'file', 'video file']
+};
+
+const REQUIRED_FIELDS: CsvScheduleField[] = ['profile', 'title', 'scheduleDate'];
+
+// Date formats accepted in the scheduleDate column, tried in order
+export const CSV_DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy'] as const;
+export type CsvDateFormat = typeof CSV_DATE_FORMATS[number];
+
+export interface CsvVideoFile {
+  name: string;
+  size: number;
+}
+
+export interface CsvScheduleRow {
+  // 1-based row number in the file (the header is row 1), for error messages
+  row: number;
+  title: string;
+  description: string;
+  profileId: number | null;
+  // yyyy-MM-dd, or yyyy-MM-ddTHH:mm when the row has a time
+  scheduleDate: string | null;
+  // IANA zone of the time; null for the device's zone
+  scheduleTimeZone: string | null;
+  fileName: string | null;
+  // Matched file under videos/
+  file: CsvVideoFile | null;
+  errors: string[];
+}
+
+export interface CsvSchedulePreview {
+  mapping: CsvColumnMapping;
+  headers: string[];
+  rows: CsvScheduleRow[];
+}
+
+export interface CsvScheduleOptions {
+  profiles: Profile[];
+  // Files currently in videos/
+  videoFiles: CsvVideoFile[];
+  // Format for non-ISO dates, e.g. dd/MM/yyyy vs MM/dd/yyyy
+  dateFormat?: CsvDateFormat;
+  mapping?: CsvColumnMapping;
+}
+
+/**
+ * Error thrown when a CSV file cannot be used at all
+ */
+export class CsvScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvScheduleError';
+  }
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells with commas, newlines and doubled quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  // Excel puts a byte order mark in front of UTF-8 exports
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Work out which column holds which field from the header row
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping = {} as CsvColumnMapping;
+  for (const field of Object.keys(COLUMN_ALIASES) as CsvScheduleField[]) {
+    const index = normalized.findIndex(header => COLUMN_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  return mapping;
+}
+
+/**
+ * Parse a time of day such as 9:30, 14:30 or 14:30:00
+ * @returns HH:mm, or null if the value is not a time
+ */
+export function parseScheduleTime(value: string): string | null {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+/**
+ * Parse a schedule date, trying ISO first and then the chosen format
+ * A time after the date ("2024-05-01 14:30", "2024-05-01T14:30") is kept
+ * @returns yyyy-MM-dd or yyyy-MM-ddTHH:mm, or null if the value is not a date
+ */
+export function parseScheduleDate(value: string, dateFormat: CsvDateFormat = 'dd/MM/yyyy'): string | null {
+  const withTime = /^(.+?)[T ]+(\d{1,2}:\d{2}(?::\d{2})?)$/.exec(value.trim());
+  if (withTime) {
+    const day = parseScheduleDate(withTime[1], dateFormat);
+    const time = parseScheduleTime(withTime[2]);
+    return day && time ? `${day}T${time}` : null;
+  }
+  
+  const trimmed = value.trim();
+  // Spreadsheets often drop leading zeros, so also try d/M/yyyy style variants
+  const candidates = ['yyyy-MM-dd', dateFormat].flatMap(f => [f, f.replace('dd', 'd').replace('MM', 'M')]);
+  for (const candidate of candidates) {
+    const date = parse(trimmed, candidate, new Date());
+    // Reject partial matches such as 2024-13-45 rolling over into a later month
+    if (isValid(date) && format(date, candidate) === trimmed) {
+      return format(date, 'yyyy-MM-dd');
+    }
+  }
+  return null;
+}
+
+function findProfile(profiles: Profile[], value: string): Profile | undefined {
+  const wanted = value.trim().toLowerCase();
+  return profiles.find(p => p.name.trim().toLowerCase() === wanted) ||
+    profiles.find(p => p.channelName.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Map and validate every data row of a CSV file
+ * @throws CsvScheduleError if the file is empty or a required column is missing
+ */
+export function previewCsvSchedule(text: string, options: CsvScheduleOptions): CsvSchedulePreview {
+  const [headers, ...dataRows] = parseCsv(text);
+  if (!headers || dataRows.length === 0) {
+    throw new CsvScheduleError('The CSV file has no data rows');
+  }
+
+  const mapping = options.mapping || guessColumnMapping(headers);
+  const missing = REQUIRED_FIELDS.filter(field => mapping[field] === null);
+  if (missing.length > 0) {
+    throw new CsvScheduleError(`No column found for: ${missing.join(', ')}`);
+  }
+
+  const filesByName = new Map(options.videoFiles.map(file => [file.name.toLowerCase(), file]));
+  const cellOf = (cells: string[], field: CsvScheduleField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] || '').trim();
+  };
+
+  const rows = dataRows.map((cells, i): CsvScheduleRow => {
+    const errors: string[] = [];
+
+    const title = cellOf(cells, 'title');
+    if (!title) errors.push('Title is empty');
+
+    const profileValue = cellOf(cells, 'profile');
+    const profile = profileValue ? findProfile(options.profiles, profileValue) : undefined;
+    if (!profile) errors.push(profileValue ? `No profile named "${profileValue}"` : 'Profile is empty');
+
+    const dateValue = cellOf(cells, 'scheduleDate');
+    let scheduleDate = dateValue ? parseScheduleDate(dateValue, options.dateFormat) : null;
+    if (!scheduleDate) errors.push(dateValue ? `"${dateValue}" is not a valid date` : 'Schedule date is empty');
+    
+    // A separate time column overrides any time given with the date
+    const timeValue = cellOf(cells, 'scheduleTime');
+    const scheduleTime = timeValue ? parseScheduleTime(timeValue) : null;
+    if (timeValue && !scheduleTime) errors.push(`"${timeValue}" is not a valid time`);
+    if (scheduleDate && scheduleTime) scheduleDate = `${scheduleDate.slice(0, 10)}T${scheduleTime}`;
+    
+    const scheduleTimeZone = cellOf(cells, 'timeZone') || null;
+    if (scheduleTimeZone && !isValidTimeZone(scheduleTimeZone)) {
+      errors.push(`"${scheduleTimeZone}" is not a valid time zone`);
+    }
+
+    const fileName = cellOf(cells, 'fileName') || null;
+    const file = fileName ? filesByName.get(fileName.toLowerCase()) || null : null;
+    if (fileName && !file) errors.push(`No file named "${fileName}" in videos/`);
+
+    return {
+      row: i + 2,
+      title,
+      description: cellOf(cells, 'description'),
+      profileId: profile ? profile.id : null,
+      scheduleDate,
+      scheduleTimeZone,
+      fileName,
+      file,
+      errors
+    };
+  });
+
+  return { mapping, headers, rows };
+}
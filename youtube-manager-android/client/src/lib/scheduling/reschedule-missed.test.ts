@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { makeVideo } from '../../test/fixtures';
+import { planMissedReschedule } from './reschedule-missed';
+
+function missed(id: number, scheduleDate: string, scheduleTimeZone: string | null = null) {
+  return makeVideo({ id, scheduleDate, scheduleTimeZone, status: 'missed-schedule' });
+}
+
+// Mid-afternoon, so morning slots today have already passed
+const now = new Date(2026, 2, 10, 15, 30);
+
+describe('planMissedReschedule', () => {
+  it('assigns the oldest video first and keeps its time of day', () => {
+    const plan = planMissedReschedule(
+      [missed(2, '2026-03-05T18:00'), missed(1, '2026-03-01T19:15')],
+      { now, dailyLimit: 1, occupiedDays: {} }
+    );
+
+    expect(plan).toEqual([
+      { videoId: 1, previousScheduleDate: '2026-03-01T19:15', scheduleDate: '2026-03-10T19:15', scheduleTimeZone: null },
+      { videoId: 2, previousScheduleDate: '2026-03-05T18:00', scheduleDate: '2026-03-11T18:00', scheduleTimeZone: null }
+    ]);
+  });
+
+  it('moves a video whose time has passed today to the next day', () => {
+    const plan = planMissedReschedule(
+      [missed(1, '2026-03-01T09:15'), missed(2, '2026-03-02T15:30'), missed(3, '2026-03-03T21:00')],
+      { now, dailyLimit: 5, occupiedDays: {} }
+    );
+
+    expect(plan.map(a => a.scheduleDate)).toEqual(['2026-03-11T09:15', '2026-03-11T15:30', '2026-03-10T21:00']);
+  });
+
+  it('compares the time in the video time zone', () => {
+    // On 2026-03-10, 16:00 in Tokyo (07:00 UTC) has passed and 22:00 (13:00 UTC) has not
+    const tokyoNow = new Date('2026-03-10T12:00:00Z');
+    const plan = planMissedReschedule(
+      [missed(1, '2026-03-01T16:00', 'Asia/Tokyo'), missed(2, '2026-03-01T22:00', 'Asia/Tokyo')],
+      { now: tokyoNow, startDate: new Date(2026, 2, 10), dailyLimit: 5, occupiedDays: {} }
+    );
+
+    expect(plan).toMatchObject([
+      { videoId: 1, scheduleDate: '2026-03-11T16:00', scheduleTimeZone: 'Asia/Tokyo' },
+      { videoId: 2, scheduleDate: '2026-03-10T22:00', scheduleTimeZone: 'Asia/Tokyo' }
+    ]);
+  });
+
+  it('breaks ties on the schedule date by id', () => {
+    const plan = planMissedReschedule(
+      [missed(7, '2026-03-01T18:00'), missed(3, '2026-03-01T18:00')],
+      { now, dailyLimit: 1, occupiedDays: {} }
+    );
+
+    expect(plan.map(a => a.videoId)).toEqual([3, 7]);
+  });
+
+  it('fills each day up to the limit, counting videos already scheduled', () => {
+    const plan = planMissedReschedule(
+      [missed(1, '2026-03-01T18:00'), missed(2, '2026-03-02T18:00'), missed(3, '2026-03-03T18:00')],
+      { now, dailyLimit: 2, occupiedDays: { '2026-03-10': 1, '2026-03-11': 2 } }
+    );
+
+    expect(plan.map(a => a.scheduleDate)).toEqual(['2026-03-10T18:00', '2026-03-12T18:00', '2026-03-12T18:00']);
+  });
+
+  it('does not change the occupied days passed in', () => {
+    const occupiedDays = { '2026-03-10': 1 };
+    planMissedReschedule([missed(1, '2026-03-01T18:00')], { now, dailyLimit: 3, occupiedDays });
+
+    expect(occupiedDays).toEqual({ '2026-03-10': 1 });
+  });
+
+  it('starts from a later start date', () => {
+    const plan = planMissedReschedule(
+      [missed(1, '2026-03-01T09:00')],
+      { now, startDate: new Date(2026, 2, 20), dailyLimit: 1, occupiedDays: {} }
+    );
+
+    expect(plan[0].scheduleDate).toBe('2026-03-20T09:00');
+  });
+
+  it('plans nothing with a zero limit', () => {
+    expect(planMissedReschedule([missed(1, '2026-03-01T18:00')], { now, dailyLimit: 0, occupiedDays: {} })).toEqual([]);
+  });
+
+  it('leaves videos unplaced once maxDays have been searched', () => {
+    const plan = planMissedReschedule(
+      [missed(1, '2026-03-01T18:00'), missed(2, '2026-03-02T18:00'), missed(3, '2026-03-03T18:00')],
+      { now, dailyLimit: 1, occupiedDays: {}, maxDays: 2 }
+    );
+
+    expect(plan.map(a => a.videoId)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,90 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { Video } from '../database/schema';
+import { getScheduleInstant } from './schedule-time';
+
+/**
+ * Rescheduling engine for missed videos
+ * Pure planning logic with no database access, so it can be exercised
+ * directly against rows loaded from any SQLite connection
+ */
+
+export interface RescheduleAssignment {
+  videoId: number;
+  previousScheduleDate: string;
+  scheduleDate: string;
+  scheduleTimeZone: string | null;
+}
+
+export interface ReschedulePlanOptions {
+  // No video is moved to a time at or before this moment (defaults to now)
+  now?: Date;
+  // First day that may receive a rescheduled video (defaults to the day of now)
+  startDate?: Date;
+  // Maximum number of videos a profile may have scheduled on one day
+  dailyLimit: number;
+  // Number of videos already scheduled per day, keyed by yyyy-MM-dd
+  occupiedDays: Record<string, number>;
+  // Safety net so a zero limit can never loop forever
+  maxDays?: number;
+}
+
+const DEFAULT_MAX_DAYS = 366;
+
+/**
+ * Spread missed videos over upcoming days
+ * Videos are assigned oldest first to the earliest day that still has
+ * room under the daily limit, counting videos already scheduled that day.
+ * Each video keeps its time of day, so a day on which that time has
+ * already passed is skipped; otherwise the video would be missed again.
+ * @param missedVideos The profile's videos in the missed-schedule state
+ * @param options Planning options
+ * @returns One assignment per video that could be placed
+ */
+export function planMissedReschedule(
+  missedVideos: Video[],
+  options: ReschedulePlanOptions
+): RescheduleAssignment[] {
+  const dailyLimit = Math.max(0, Math.floor(options.dailyLimit));
+  if (dailyLimit === 0 || missedVideos.length === 0) {
+    return [];
+  }
+
+  const now = options.now ?? new Date();
+  const maxDays = options.maxDays ?? DEFAULT_MAX_DAYS;
+  const occupied = { ...options.occupiedDays };
+  const ordered = [...missedVideos].sort((a, b) =>
+    a.scheduleDate.localeCompare(b.scheduleDate) || a.id - b.id
+  );
+
+  const assignments: RescheduleAssignment[] = [];
+  const firstDay = startOfDay(options.startDate ?? now);
+
+  for (const video of ordered) {
+    const scheduleTimeZone = video.scheduleTimeZone ?? null;
+    let assignment: RescheduleAssignment | null = null;
+
+    for (let dayOffset = 0; dayOffset < maxDays && !assignment; dayOffset++) {
+      const dayKey = format(addDays(firstDay, dayOffset), 'yyyy-MM-dd');
+      if ((occupied[dayKey] || 0) >= dailyLimit) continue;
+
+      const scheduleDate = withScheduleDay(video.scheduleDate, dayKey);
+      if (getScheduleInstant(scheduleDate, scheduleTimeZone) <= now) continue;
+
+      occupied[dayKey] = (occupied[dayKey] || 0) + 1;
+      assignment = { videoId: video.id, previousScheduleDate: video.scheduleDate, scheduleDate, scheduleTimeZone };
+    }
+
+    if (assignment) {
+      assignments.push(assignment);
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Replace the calendar day of a schedule date, keeping any time portion
+ */
+function withScheduleDay(scheduleDate: string, dayKey: string): string {
+  return scheduleDate.length > 10 ? `${dayKey}${scheduleDate.slice(10)}` : dayKey;
+}
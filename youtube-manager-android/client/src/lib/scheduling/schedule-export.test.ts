@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { makeProfile, makeVideo } from '../../test/fixtures';
+import { parseCsv, previewCsvSchedule } from './csv-schedule';
+import { filterVideosForExport, videosToCsv, videosToIcs } from './schedule-export';
+
+const profiles = [
+  makeProfile({ id: 1, name: 'Cooking', channelName: 'Chef Ana' }),
+  makeProfile({ id: 2, name: 'Travel', channelName: 'Away' })
+];
+
+const videos = [
+  makeVideo({ id: 3, profileId: 2, title: 'Lisbon', scheduleDate: '2026-03-04T09:00', status: 'completed' }),
+  makeVideo({ id: 1, profileId: 1, title: 'Pasta', scheduleDate: '2026-03-02T17:00' }),
+  makeVideo({ id: 2, profileId: 1, title: 'Soup', scheduleDate: '2026-03-03T17:00', status: 'missed-schedule' })
+];
+
+// Unfolded content lines of an iCalendar file
+function icsLines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('filterVideosForExport', () => {
+  it('keeps videos matching every filter, ordered by schedule date', () => {
+    expect(filterVideosForExport(videos, {}).map(video => video.id)).toEqual([1, 2, 3]);
+    expect(filterVideosForExport(videos, { profileId: 1 }).map(video => video.id)).toEqual([1, 2]);
+    expect(filterVideosForExport(videos, { status: 'completed' }).map(video => video.id)).toEqual([3]);
+    expect(filterVideosForExport(videos, { from: '2026-03-03', to: '2026-03-03' }).map(video => video.id)).toEqual([2]);
+  });
+});
+
+describe('videosToCsv', () => {
+  it('writes one quoted row per video with CRLF line endings', () => {
+    const csv = videosToCsv([makeVideo({ profileId: 1, title: 'Pasta, "fresh"', description: 'Two\nlines' })], profiles);
+
+    expect(csv).toBe(
+      'profile,channelName,title,description,scheduleDate,timeZone,status,fileName,uploadedDate,youtubeLink\r\n' +
+      'Cooking,Chef Ana,"Pasta, ""fresh""","Two\nlines",2026-03-02T09:00,,pending,,,\r\n'
+    );
+  });
+
+  it('can be read back by the CSV schedule importer', () => {
+    const csv = videosToCsv(filterVideosForExport(videos, {}), profiles);
+
+    const { rows } = previewCsvSchedule(csv, { profiles, videoFiles: [] });
+
+    expect(rows.map(row => [row.title, row.profileId, row.scheduleDate, row.errors])).toEqual([
+      ['Pasta', 1, '2026-03-02T17:00', []],
+      ['Soup', 1, '2026-03-03T17:00', []],
+      ['Lisbon', 2, '2026-03-04T09:00', []]
+    ]);
+    expect(parseCsv(csv)).toHaveLength(4);
+  });
+});
+
+describe('videosToIcs', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('writes an event per video with a stable UID and its channel', () => {
+    const lines = icsLines(videosToIcs([
+      makeVideo({ id: 42, profileId: 1, title: 'Pasta; fresh', description: 'Step one', scheduleAt: '2026-03-02T17:00:00.000Z' })
+    ], profiles, now));
+
+    expect(lines.slice(lines.indexOf('BEGIN:VEVENT'), lines.indexOf('END:VEVENT') + 1)).toEqual([
+      'BEGIN:VEVENT',
+      'UID:video-42@youtube-schedule-manager',
+      'DTSTAMP:20260301T120000Z',
+      'SEQUENCE:0',
+      'DTSTART:20260302T170000Z',
+      'SUMMARY:Pasta\\; fresh',
+      'DESCRIPTION:Step one\\n\\nChannel: Chef Ana',
+      'CATEGORIES:Chef Ana',
+      'END:VEVENT'
+    ]);
+  });
+
+  it('carries the revision and change time so calendars apply updates', () => {
+    const lines = icsLines(videosToIcs([
+      makeVideo({ revision: 3, updatedAt: '2026-02-28T21:15:30.000Z', scheduleAt: '2026-03-02T09:00:00.000Z' })
+    ], profiles, now));
+
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('LAST-MODIFIED:20260228T211530Z');
+  });
+
+  it('makes videos without a publish time all-day events', () => {
+    const lines = icsLines(videosToIcs([makeVideo({ scheduleDate: '2026-03-31T09:00' })], profiles, now));
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260331');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260401');
+  });
+
+  it('folds long lines to 75 octets', () => {
+    const ics = videosToIcs([makeVideo({ title: 'é'.repeat(100) })], profiles, now);
+
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(icsLines(ics)).toContain(`SUMMARY:${'é'.repeat(100)}`);
+  });
+});
@@ -0,0 +1,160 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { Profile, Video, VideoStatus } from '../database/schema';
+
+/**
+ * Schedule exporters for sharing the upload plan outside the app
+ * The CSV columns match what the CSV schedule importer reads back in
+ */
+
+export interface ScheduleExportFilter {
+  profileId?: number | null;
+  status?: VideoStatus | null;
+  // Inclusive yyyy-MM-dd bounds on the schedule date
+  from?: string | null;
+  to?: string | null;
+}
+
+const CSV_COLUMNS = [
+  'profile', 'channelName', 'title', 'description', 'scheduleDate', 'timeZone',
+  'status', 'fileName', 'uploadedDate', 'youtubeLink'
+] as const;
+
+// Domain part of calendar UIDs; must never change or calendars duplicate events
+const ICS_UID_DOMAIN = 'youtube-schedule-manager';
+const ICS_PRODUCT_ID = '-//YouTube Schedule Manager//Schedule Export//EN';
+
+function scheduleDay(video: Video): string {
+  return video.scheduleDate.slice(0, 10);
+}
+
+/**
+ * Keep the videos that match every set filter, ordered by schedule date
+ */
+export function filterVideosForExport(videos: Video[], filter: ScheduleExportFilter): Video[] {
+  return videos
+    .filter(video =>
+      (filter.profileId == null || video.profileId === filter.profileId) &&
+      (filter.status == null || video.status === filter.status) &&
+      (!filter.from || scheduleDay(video) >= filter.from) &&
+      (!filter.to || scheduleDay(video) <= filter.to)
+    )
+    .sort((a, b) => a.scheduleDate.localeCompare(b.scheduleDate) || a.id - b.id);
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV with one row per video
+ */
+export function videosToCsv(videos: Video[], profiles: Profile[]): string {
+  const profilesById = new Map(profiles.map(p => [p.id, p]));
+  const lines = [CSV_COLUMNS.join(',')];
+
+  for (const video of videos) {
+    const profile = profilesById.get(video.profileId);
+    const row: Record<typeof CSV_COLUMNS[number], string | null> = {
+      profile: profile ? profile.name : null,
+      channelName: profile ? profile.channelName : null,
+      title: video.title,
+      description: video.description,
+      scheduleDate: video.scheduleDate,
+      timeZone: video.scheduleTimeZone ?? null,
+      status: video.status,
+      fileName: video.fileName,
+      uploadedDate: video.uploadedDate,
+      youtubeLink: video.youtubeLink
+    };
+    lines.push(CSV_COLUMNS.map(column => csvCell(row[column])).join(','));
+  }
+
+  // RFC 4180 line endings, which Excel expects
+  return lines.join('\r\n') + '\r\n';
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets as RFC 5545 requires
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build an iCalendar file with one event per video at its publish time
+ * Videos without a stored publish time become all-day events. UIDs come
+ * from the video id, so importing a newer export into a calendar updates
+ * the existing events instead of adding copies; SEQUENCE and LAST-MODIFIED
+ * come from the video's revision, so calendars take the newer version
+ */
+export function videosToIcs(videos: Video[], profiles: Profile[], now: Date = new Date()): string {
+  const profilesById = new Map(profiles.map(p => [p.id, p]));
+  const stamp = icsUtcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  for (const video of videos) {
+    const day = parseISO(scheduleDay(video));
+    if (!isValid(day)) continue;
+
+    const channelName = profilesById.get(video.profileId)?.channelName;
+    const description = [video.description, channelName ? `Channel: ${channelName}` : '']
+      .filter(Boolean)
+      .join('\n\n');
+
+    const publishAt = video.scheduleAt ? parseISO(video.scheduleAt) : null;
+    const modifiedAt = video.updatedAt ? parseISO(video.updatedAt) : null;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:video-${video.id}@${ICS_UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${video.revision ?? 0}`,
+      ...(modifiedAt && isValid(modifiedAt) ? [`LAST-MODIFIED:${icsUtcStamp(modifiedAt)}`] : []),
+      ...(publishAt && isValid(publishAt)
+        ? [`DTSTART:${icsUtcStamp(publishAt)}`]
+        : [
+          `DTSTART;VALUE=DATE:${format(day, 'yyyyMMdd')}`,
+          `DTEND;VALUE=DATE:${format(addDays(day, 1), 'yyyyMMdd')}`
+        ]),
+      `SUMMARY:${icsText(video.title)}`
+    );
+    if (description) lines.push(`DESCRIPTION:${icsText(description)}`);
+    if (channelName) lines.push(`CATEGORIES:${icsText(channelName)}`);
+    if (video.youtubeLink) lines.push(`URL:${video.youtubeLink}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { makeScheduleTemplate } from '../../test/fixtures';
+import { ScheduleTemplate } from '../database/schema';
+import { ScheduleTemplateError, findNextFreeSlot, validateScheduleTemplate } from './schedule-templates';
+
+// 2026-03-02 is a Monday
+const MON = 1, TUE = 2, WED = 3, FRI = 5;
+
+function template(id: number, weekdays: number[], time: string, timeZone: string | null = 'UTC', isActive = true): ScheduleTemplate {
+  return makeScheduleTemplate({ id, weekdays, time, timeZone, isActive });
+}
+
+describe('findNextFreeSlot', () => {
+  const monWedFri = template(1, [MON, WED, FRI], '17:00');
+
+  it('returns the earliest slot after the given moment', () => {
+    expect(findNextFreeSlot([monWedFri], [], new Date('2026-03-02T12:00:00Z'))).toEqual({
+      scheduleDate: '2026-03-02T17:00',
+      scheduleTimeZone: 'UTC',
+      scheduleAt: '2026-03-02T17:00:00.000Z',
+      templateId: 1
+    });
+  });
+
+  it('does not return a slot at exactly the given moment', () => {
+    const slot = findNextFreeSlot([monWedFri], [], new Date('2026-03-02T17:00:00Z'));
+    expect(slot?.scheduleAt).toBe('2026-03-04T17:00:00.000Z');
+  });
+
+  it('skips slots held by pending videos', () => {
+    const slot = findNextFreeSlot(
+      [monWedFri],
+      ['2026-03-02T17:00:00.000Z', '2026-03-04T17:00:00.000Z'],
+      new Date('2026-03-02T12:00:00Z')
+    );
+    expect(slot?.scheduleAt).toBe('2026-03-06T17:00:00.000Z');
+  });
+
+  it('picks the earliest slot across templates and ignores inactive ones', () => {
+    const templates = [
+      monWedFri,
+      template(2, [TUE], '09:00'),
+      template(3, [MON], '13:00', 'UTC', false)
+    ];
+    const slot = findNextFreeSlot(templates, ['2026-03-02T17:00:00.000Z'], new Date('2026-03-02T12:00:00Z'));
+    expect(slot).toMatchObject({ scheduleAt: '2026-03-03T09:00:00.000Z', templateId: 2 });
+  });
+
+  it('walks days in the template time zone', () => {
+    // Tuesday 08:00 in Tokyo is still Monday in UTC
+    const tokyo = template(1, [TUE], '08:00', 'Asia/Tokyo');
+    expect(findNextFreeSlot([tokyo], [], new Date('2026-03-02T00:00:00Z'))).toMatchObject({
+      scheduleDate: '2026-03-03T08:00',
+      scheduleTimeZone: 'Asia/Tokyo',
+      scheduleAt: '2026-03-02T23:00:00.000Z'
+    });
+  });
+
+  it('follows daylight saving changes in the template time zone', () => {
+    // New York moves to EDT on 2026-03-08
+    const newYork = template(1, [MON], '09:00', 'America/New_York');
+    const before = findNextFreeSlot([newYork], [], new Date('2026-03-01T00:00:00Z'));
+    const after = findNextFreeSlot([newYork], [before!.scheduleAt], new Date('2026-03-01T00:00:00Z'));
+
+    expect(before?.scheduleAt).toBe('2026-03-02T14:00:00.000Z');
+    expect(after?.scheduleAt).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('returns null when every slot in range is taken', () => {
+    const slot = findNextFreeSlot([monWedFri], ['2026-03-02T17:00:00.000Z'], new Date('2026-03-02T12:00:00Z'), 1);
+    expect(slot).toBeNull();
+  });
+
+  it('returns null without active templates', () => {
+    expect(findNextFreeSlot([], [], new Date('2026-03-02T12:00:00Z'))).toBeNull();
+    expect(findNextFreeSlot([template(1, [MON], '17:00', 'UTC', false)], [], new Date('2026-03-02T12:00:00Z'))).toBeNull();
+  });
+});
+
+describe('validateScheduleTemplate', () => {
+  it('accepts a valid template', () => {
+    expect(() => validateScheduleTemplate({ weekdays: [0, 6], time: '23:59', timeZone: 'Europe/Paris' })).not.toThrow();
+  });
+
+  it.each([
+    [{ weekdays: [], time: '17:00', timeZone: null }],
+    [{ weekdays: [7], time: '17:00', timeZone: null }],
+    [{ weekdays: [1], time: '24:00', timeZone: null }],
+    [{ weekdays: [1], time: '9:00', timeZone: null }],
+    [{ weekdays: [1], time: '17:00', timeZone: 'Mars/Olympus' }]
+  ])('rejects %o', input => {
+    expect(() => validateScheduleTemplate(input)).toThrow(ScheduleTemplateError);
+  });
+});
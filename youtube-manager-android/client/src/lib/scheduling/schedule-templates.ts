@@ -0,0 +1,121 @@
+import { ScheduleTemplate } from '../database/schema';
+import { getScheduleInstant } from './schedule-time';
+import { isValidTimeZone, toWallClock } from './time-zone';
+
+/**
+ * Recurring schedule templates
+ * A template is a weekly publish slot for a profile (e.g. Mon/Wed/Fri at
+ * 17:00). Slots are generated from the templates and a video without a date
+ * is given the earliest slot that no pending video of the profile holds.
+ */
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+// How far ahead to look for a free slot
+const DEFAULT_MAX_DAYS = 366;
+
+export interface ScheduleSlot {
+  // Fields to write onto the video
+  scheduleDate: string;
+  scheduleTimeZone: string | null;
+  // UTC ISO timestamp of the slot
+  scheduleAt: string;
+  templateId: number;
+}
+
+/**
+ * Error thrown when a template's recurrence rule is not usable
+ */
+export class ScheduleTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleTemplateError';
+  }
+}
+
+/**
+ * Error thrown when a profile has no free template slot to give a video
+ */
+export class NoFreeSlotError extends Error {
+  constructor(public readonly profileId: number, hasTemplates: boolean) {
+    super(hasTemplates
+      ? `No free schedule slot in the next ${DEFAULT_MAX_DAYS} days for profile ${profileId}`
+      : `Profile ${profileId} has no active schedule templates; pick a schedule date instead`);
+    this.name = 'NoFreeSlotError';
+  }
+}
+
+/**
+ * @throws ScheduleTemplateError if the weekdays, time or time zone are invalid
+ */
+export function validateScheduleTemplate(template: Pick<ScheduleTemplate, 'weekdays' | 'time' | 'timeZone'>): void {
+  const { weekdays, time, timeZone } = template;
+  if (!Array.isArray(weekdays) || weekdays.length === 0) {
+    throw new ScheduleTemplateError('Pick at least one day of the week');
+  }
+  if (weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new ScheduleTemplateError(`Invalid weekdays: ${weekdays.join(', ')}`);
+  }
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new ScheduleTemplateError(`Invalid time: ${time}`);
+  }
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw new ScheduleTemplateError(`Invalid time zone: ${timeZone}`);
+  }
+}
+
+/**
+ * Readable form of a template, e.g. "Mon, Wed, Fri at 17:00"
+ */
+export function describeScheduleTemplate(template: Pick<ScheduleTemplate, 'weekdays' | 'time' | 'timeZone'>): string {
+  const days = [...template.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ');
+  return `${days} at ${template.time}${template.timeZone ? ` (${template.timeZone})` : ''}`;
+}
+
+/**
+ * Every slot of the active templates after a moment, earliest first
+ * Days are walked in each template's own zone, so a Monday slot is on
+ * Monday where the channel publishes
+ */
+export function listTemplateSlots(templates: ScheduleTemplate[], after: Date, days: number): ScheduleSlot[] {
+  const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const slots: ScheduleSlot[] = [];
+
+  for (const template of templates) {
+    if (!template.isActive) continue;
+
+    const start = toWallClock(after, template.timeZone ?? deviceZone);
+    for (let i = 0; i <= days; i++) {
+      const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + i));
+      if (!template.weekdays.includes(day.getUTCDay())) continue;
+
+      const scheduleDate = `${day.toISOString().slice(0, 10)}T${template.time}`;
+      const instant = getScheduleInstant(scheduleDate, template.timeZone);
+      if (instant <= after) continue;
+
+      slots.push({
+        scheduleDate,
+        scheduleTimeZone: template.timeZone,
+        scheduleAt: instant.toISOString(),
+        templateId: template.id
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.scheduleAt.localeCompare(b.scheduleAt) || a.templateId - b.templateId);
+}
+
+/**
+ * The earliest template slot after a moment that no pending video holds
+ * @param takenInstants scheduleAt of the profile's pending videos
+ */
+export function findNextFreeSlot(
+  templates: ScheduleTemplate[],
+  takenInstants: string[],
+  after: Date,
+  maxDays: number = DEFAULT_MAX_DAYS
+): ScheduleSlot | null {
+  const taken = new Set(takenInstants);
+  return listTemplateSlots(templates, after, maxDays).find(slot => !taken.has(slot.scheduleAt)) ?? null;
+}
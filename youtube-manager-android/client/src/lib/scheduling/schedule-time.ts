@@ -0,0 +1,70 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { APP_SETTINGS } from '../config';
+import { fromWallClock, isValidTimeZone } from './time-zone';
+
+/**
+ * Schedule date and time handling
+ * scheduleDate holds the wall-clock publish time, yyyy-MM-ddTHH:mm, in the
+ * video's scheduleTimeZone (the device's zone when null). scheduleAt holds
+ * the same moment as a UTC ISO timestamp so SQLite can order and compare
+ * schedules across time zones; it is derived on every write.
+ */
+
+export const SCHEDULE_DATE_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const DAY_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Normalise a schedule date to the yyyy-MM-ddTHH:mm format stored in SQLite
+ * A date without a time gets APP_SETTINGS.DEFAULT_SCHEDULE_TIME, and a
+ * timestamp with an offset is converted to the device's wall clock
+ * @throws Error if the value is not a valid date
+ */
+export function normalizeScheduleDate(value: Date | string): string {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (DAY_ONLY.test(trimmed) && isValid(parseISO(trimmed))) {
+      return `${trimmed}T${APP_SETTINGS.DEFAULT_SCHEDULE_TIME}`;
+    }
+    if (WALL_CLOCK.test(trimmed) && !HAS_OFFSET.test(trimmed) && isValid(parseISO(trimmed))) {
+      return trimmed.slice(0, 16).replace(' ', 'T');
+    }
+  }
+
+  const date = value instanceof Date ? value : parseISO(value);
+  if (!isValid(date)) {
+    throw new Error(`Invalid schedule date: ${String(value)}`);
+  }
+  return format(date, SCHEDULE_DATE_FORMAT);
+}
+
+/**
+ * The moment a video is scheduled for
+ * @param timeZone IANA zone of the wall-clock time; null for the device's zone
+ */
+export function getScheduleInstant(scheduleDate: string, timeZone: string | null): Date {
+  const normalized = normalizeScheduleDate(scheduleDate);
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return parseISO(normalized);
+  }
+
+  const [, year, month, day, hour, minute] = WALL_CLOCK.exec(normalized)!.map(Number);
+  return fromWallClock(Date.UTC(year, month - 1, day, hour, minute), timeZone);
+}
+
+/**
+ * The yyyy-MM-dd calendar day of a schedule date, in its own time zone
+ */
+export function getScheduleDay(scheduleDate: string): string {
+  return scheduleDate.slice(0, 10);
+}
+
+/**
+ * The HH:mm time of a schedule date, or null for a date without a time
+ */
+export function getScheduleTime(scheduleDate: string): string | null {
+  const match = WALL_CLOCK.exec(scheduleDate);
+  return match ? `${match[4]}:${match[5]}` : null;
+}
@@ -0,0 +1,51 @@
+/**
+ * IANA time zone helpers built on Intl, so no time zone database has to be
+ * bundled with the app
+ */
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const wallClockAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The wall-clock time in a time zone at the given instant, as a Date whose
+ * UTC fields hold the local values
+ */
+export function toWallClock(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + timeZoneOffset(date, timeZone));
+}
+
+/**
+ * The instant at which a time zone's clocks show the given wall-clock time
+ * @param wallClockAsUtc The wall-clock time as milliseconds, as from Date.UTC
+ */
+export function fromWallClock(wallClockAsUtc: number, timeZone: string): Date {
+  // The offset at the target time can differ from the first guess across a DST change, so correct twice
+  let guess = wallClockAsUtc - timeZoneOffset(new Date(wallClockAsUtc), timeZone);
+  guess = wallClockAsUtc - timeZoneOffset(new Date(guess), timeZone);
+  return new Date(guess);
+}
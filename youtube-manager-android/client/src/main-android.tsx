@@ -4,7 +4,8 @@ import { App } from '@capacitor/app';
 import { Device } from '@capacitor/device';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { queryClient } from './lib/queryClient';
-import { initializeNativeApp } from './lib/offline-app';
+import { initializeNativeApp, addMissedScheduleListener, addPlaceholderWarningListener } from './lib/offline-app';
+import { toast } from './hooks/use-toast';
 import 'tailwindcss/tailwind.css';
 import './index.css';
 
@@ -20,6 +21,27 @@ const AndroidApp: React.FC = () => {
   const [deviceInfo, setDeviceInfo] = useState<any>(null);
   
   useEffect(() => {
+    // Let the user know when overdue videos have been moved to missed
+    const removeMissedScheduleListener = addMissedScheduleListener((summary) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/videos'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/videos/today'] });
+      toast({
+        title: 'Missed Uploads',
+        description: `${summary.missedCount} video${summary.missedCount === 1 ? ' has' : 's have'} missed ${summary.missedCount === 1 ? 'its' : 'their'} scheduled date`,
+      });
+    });
+    
+    // Warn when the original of a placeholder video has moved or been deleted
+    const removePlaceholderWarningListener = addPlaceholderWarningListener((problems) => {
+      toast({
+        title: 'Original Files Missing',
+        description: problems.length === 1
+          ? `The original file for "${problems[0].title}" was moved, changed or deleted`
+          : `${problems.length} videos have original files that were moved, changed or deleted`,
+        variant: 'destructive',
+      });
+    });
+    
     // Initialize the native app capabilities
     const setupApp = async () => {
       try {
@@ -51,6 +73,8 @@ const AndroidApp: React.FC = () => {
     
     // Cleanup listeners
     return () => {
+      removeMissedScheduleListener();
+      removePlaceholderWarningListener();
       App.removeAllListeners();
     };
   }, []);
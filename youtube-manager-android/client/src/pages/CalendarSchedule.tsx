@@ -0,0 +1,311 @@
+import { PointerEvent, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, isSameMonth } from 'date-fns';
+import { useStore, Video } from '@/store/useStore';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getPathQueryFn } from '@/lib/queryClient';
+import { EditVideoModal } from '@/components/EditVideoModal';
+import {
+  getCalendarDays,
+  getProfileColor,
+  groupVideosByDay,
+  moveScheduleDate,
+  shiftCalendarAnchor,
+  toCalendarDay
+} from '@/lib/scheduling/calendar';
+
+// Pixels a pointer must travel before a press becomes a drag
+const DRAG_THRESHOLD = 6;
+
+type VideoChanges = Pick<Video, 'scheduleDate'> & Partial<Pick<Video, 'status'>>;
+
+// A drag that can be undone by applying `undo`
+interface CalendarMove {
+  videoId: number;
+  title: string;
+  undo: VideoChanges;
+}
+
+interface DragState {
+  video: Video;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  active: boolean;
+  overDay: string | null;
+}
+
+const STATUS_STYLES: Record<Video['status'], string> = {
+  'pending': 'bg-white text-gray-800',
+  'completed': 'bg-gray-100 text-gray-500 line-through',
+  'missed-schedule': 'bg-red-50 text-red-700 border-dashed'
+};
+
+// Completed videos keep the day they were pushed on
+function canMove(video: Video): boolean {
+  return video.status !== 'completed';
+}
+
+// The calendar day under a point, from the data-day attribute of its cell
+function dayAt(x: number, y: number): string | null {
+  const cell = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-day]');
+  return cell?.dataset.day ?? null;
+}
+
+export default function CalendarSchedule() {
+  const {
+    profiles, calendarView, setCalendarView, setEditVideoModalOpen, isEditVideoModalOpen, selectedVideoId
+  } = useStore();
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [undoStack, setUndoStack] = useState<CalendarMove[]>([]);
+  // The pointer handlers read the latest drag without waiting for a render
+  const dragRef = useRef<DragState | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const days = getCalendarDays(anchor, calendarView);
+  const range = { from: toCalendarDay(days[0]), to: toCalendarDay(days[days.length - 1]) };
+
+  // Only the videos of the days on screen
+  const { data: videos, isLoading, error } = useQuery<Video[]>({
+    queryKey: ['/api/videos', range],
+    queryFn: getPathQueryFn<Video[]>('/api/videos'),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ videoId, changes }: { videoId: number, changes: VideoChanges }) => {
+      const res = await apiRequest('PUT', `/api/videos/${videoId}`, changes);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/videos'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/videos/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/videos/due'] });
+    },
+    onError: (error: any) => {
+      console.error('Error moving video:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to move video',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const profileIds = profiles.map(p => p.id);
+  const videosByDay = groupVideosByDay(videos || []);
+  const today = toCalendarDay(new Date());
+
+  const updateDrag = (next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  // Move a video to another day, keeping its time of day
+  const moveVideo = async (video: Video, day: string) => {
+    if (day < today) {
+      toast({
+        title: 'Cannot move into the past',
+        description: 'Pick today or a later day',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // A missed video moved to an upcoming day is back on the schedule
+    const changes: VideoChanges = { scheduleDate: moveScheduleDate(video.scheduleDate, day) };
+    const undo: VideoChanges = { scheduleDate: video.scheduleDate };
+    if (video.status === 'missed-schedule') {
+      changes.status = 'pending';
+      undo.status = 'missed-schedule';
+    }
+
+    await moveMutation.mutateAsync({ videoId: video.id, changes });
+    setUndoStack(stack => [...stack, { videoId: video.id, title: video.title, undo }]);
+    toast({
+      title: 'Video Moved',
+      description: `"${video.title}" is now scheduled for ${format(new Date(`${day}T00:00`), 'EEE d MMM')}`,
+    });
+  };
+
+  const handleUndo = async () => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return;
+
+    await moveMutation.mutateAsync({ videoId: last.videoId, changes: last.undo });
+    setUndoStack(stack => stack.slice(0, -1));
+    toast({
+      title: 'Move Undone',
+      description: `"${last.title}" is back on its previous day`,
+    });
+  };
+
+  // Pointer events rather than HTML5 drag and drop, which the Android WebView does not fire for touch
+  const handlePointerDown = (e: PointerEvent, video: Video) => {
+    if (!canMove(video) || moveMutation.isPending) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    updateDrag({ video, startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY, active: false, overDay: null });
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const current = dragRef.current;
+    if (!current) return;
+
+    const active = current.active ||
+      Math.hypot(e.clientX - current.startX, e.clientY - current.startY) > DRAG_THRESHOLD;
+    updateDrag({ ...current, x: e.clientX, y: e.clientY, active, overDay: active ? dayAt(e.clientX, e.clientY) : null });
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    const current = dragRef.current;
+    updateDrag(null);
+    if (!current) return;
+
+    // A press without a drag opens the video
+    if (!current.active) {
+      setEditVideoModalOpen(true, current.video.id);
+      return;
+    }
+
+    const day = dayAt(e.clientX, e.clientY);
+    if (day && day !== current.video.scheduleDate.slice(0, 10)) {
+      moveVideo(current.video, day).catch(err => console.error('Error moving video:', err));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="schedule-content">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setAnchor(a => shiftCalendarAnchor(a, calendarView, -1))}
+              className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600"
+              title="Previous"
+            >
+              <span className="material-icons text-sm">chevron_left</span>
+            </button>
+            <h2 className="text-lg font-bold">
+              {calendarView === 'week'
+                ? `Week of ${format(days[0], 'd MMM yyyy')}`
+                : format(anchor, 'MMMM yyyy')}
+            </h2>
+            <button
+              onClick={() => setAnchor(a => shiftCalendarAnchor(a, calendarView, 1))}
+              className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600"
+              title="Next"
+            >
+              <span className="material-icons text-sm">chevron_right</span>
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleUndo().catch(err => console.error('Error undoing move:', err))}
+              className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600 disabled:opacity-40"
+              disabled={undoStack.length === 0 || moveMutation.isPending}
+              title="Undo last move"
+            >
+              <span className="material-icons text-sm">undo</span>
+            </button>
+            <select
+              className="rounded border border-gray-200 p-1 text-sm"
+              value={calendarView}
+              onChange={(e) => setCalendarView(e.target.value as typeof calendarView)}
+            >
+              <option value="month">Month</option>
+              <option value="week">Week</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Profile colour legend */}
+        <div className="flex flex-wrap gap-3 mb-3 text-xs text-gray-600">
+          {profiles.map(profile => (
+            <span key={profile.id} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: getProfileColor(profile.id, profileIds) }} />
+              {profile.name}
+            </span>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <div className="animate-spin inline-block w-6 h-6 border-2 border-yt-red border-opacity-50 border-t-transparent rounded-full"></div>
+            <p className="mt-2 text-gray-500">Loading videos...</p>
+          </div>
+        ) : error ? (
+          <div className="py-8 text-center">
+            <span className="material-icons text-4xl text-gray-300">error</span>
+            <p className="mt-2 text-gray-500">Error loading videos</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-7 gap-1 select-none">
+            {days.slice(0, 7).map(day => (
+              <div key={`label-${day.toISOString()}`} className="text-center text-xs font-medium text-gray-500">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+            {days.map(date => {
+              const day = toCalendarDay(date);
+              const dayVideos = videosByDay.get(day) || [];
+              const isDropTarget = drag?.active && drag.overDay === day;
+              return (
+                <div
+                  key={day}
+                  data-day={day}
+                  className={`rounded border p-1 ${calendarView === 'week' ? 'min-h-[12rem]' : 'min-h-[5rem]'} ${
+                    isDropTarget ? (day < today ? 'border-red-300 bg-red-50' : 'border-yt-blue bg-blue-50') : 'border-gray-200 bg-white'
+                  } ${calendarView === 'month' && !isSameMonth(date, anchor) ? 'opacity-50' : ''}`}
+                >
+                  <div className={`text-xs mb-1 ${day === today ? 'font-bold text-yt-red' : 'text-gray-500'}`}>
+                    {format(date, 'd')}
+                  </div>
+                  <div className="space-y-1">
+                    {dayVideos.map(video => (
+                      <div
+                        key={video.id}
+                        onPointerDown={(e) => handlePointerDown(e, video)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => updateDrag(null)}
+                        className={`truncate rounded border border-l-4 px-1 text-[10px] leading-4 ${STATUS_STYLES[video.status]} ${
+                          canMove(video) ? 'cursor-grab touch-none' : ''
+                        } ${drag?.active && drag.video.id === video.id ? 'opacity-30' : ''}`}
+                        style={{ borderLeftColor: getProfileColor(video.profileId, profileIds) }}
+                        title={video.title}
+                      >
+                        {video.title}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* The video being dragged follows the pointer */}
+      {drag?.active && (
+        <div
+          className={`fixed z-50 pointer-events-none max-w-[8rem] truncate rounded border border-l-4 px-1 text-[10px] leading-4 shadow ${STATUS_STYLES[drag.video.status]}`}
+          style={{
+            left: drag.x + 8,
+            top: drag.y + 8,
+            borderLeftColor: getProfileColor(drag.video.profileId, profileIds)
+          }}
+        >
+          {drag.video.title}
+        </div>
+      )}
+      {isEditVideoModalOpen && (
+        <EditVideoModal
+          videoId={selectedVideoId}
+          onClose={() => setEditVideoModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
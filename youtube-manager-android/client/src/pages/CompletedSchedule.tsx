@@ -1,20 +1,23 @@
 import { useState } from 'react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useStore, Video } from '@/store/useStore';
+import { useQueryClient } from '@tanstack/react-query';
+import { useStore } from '@/store/useStore';
 import VideoCard from '@/components/VideoCard';
 import { useToast } from '@/hooks/use-toast';
+import VideoListControls from '@/components/VideoListControls';
+import LoadMoreTrigger from '@/components/LoadMoreTrigger';
+import { useVideoPages } from '@/hooks/use-video-pages';
 
 export default function CompletedSchedule() {
-  const { currentProfileId } = useStore();
+  const { currentProfileId, videoListOptions } = useStore();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
   
-  // Fetch all completed videos
-  const { data: videos, isLoading, error, refetch } = useQuery<Video[]>({
-    queryKey: ['/api/videos', { status: 'completed' }],
-    enabled: !!currentProfileId
-  });
+  // Fetch the current profile's completed videos a page at a time, sorted and filtered by SQLite
+  const { videos, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } = useVideoPages(
+    { ...videoListOptions.completed, status: 'completed', profileId: currentProfileId ?? undefined },
+    !!currentProfileId
+  );
   
   // Handle refresh
   const handleRefresh = async () => {
@@ -37,16 +40,6 @@ export default function CompletedSchedule() {
     }
   };
   
-  // Filter videos by current profile
-  const filteredVideos = videos?.filter(
-    video => video.profileId === currentProfileId && video.status === 'completed'
-  ).sort((a, b) => {
-    // Sort by uploaded date (newest first)
-    const dateA = a.uploadedDate ? new Date(a.uploadedDate) : new Date(0);
-    const dateB = b.uploadedDate ? new Date(b.uploadedDate) : new Date(0);
-    return dateB.getTime() - dateA.getTime();
-  }) || [];
-  
   return (
     <div className="schedule-content">
       <div className="flex justify-between items-center mb-4">
@@ -62,9 +55,7 @@ export default function CompletedSchedule() {
               refresh
             </span>
           </button>
-          <button className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600" title="Sort">
-            <span className="material-icons text-sm">sort</span>
-          </button>
+          <VideoListControls tab="completed" />
         </div>
       </div>
       
@@ -80,8 +71,8 @@ export default function CompletedSchedule() {
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredVideos.length > 0 ? (
-            filteredVideos.map(video => (
+          {videos.length > 0 ? (
+            videos.map(video => (
               <VideoCard 
                 key={video.id} 
                 video={video}
@@ -93,6 +84,11 @@ export default function CompletedSchedule() {
               <p className="mt-2 text-gray-500">No completed uploads</p>
             </div>
           )}
+          <LoadMoreTrigger
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+          />
         </div>
       )}
     </div>
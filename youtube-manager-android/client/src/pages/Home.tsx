@@ -7,6 +7,7 @@ import TodaySchedule from '@/pages/TodaySchedule';
 import PendingSchedule from '@/pages/PendingSchedule';
 import CompletedSchedule from '@/pages/CompletedSchedule';
 import RemainingSchedule from '@/pages/RemainingSchedule';
+import CalendarSchedule from '@/pages/CalendarSchedule';
 import Settings from '@/pages/Settings';
 import ProfilesTab from '@/pages/ProfilesTab';
 import AddProfileModal from '@/components/AddProfileModal';
@@ -51,6 +52,8 @@ export default function Home() {
         return <CompletedSchedule />;
       case 'remaining':
         return <RemainingSchedule />;
+      case 'calendar':
+        return <CalendarSchedule />;
       case 'settings':
         return <Settings />;
       case 'profiles':
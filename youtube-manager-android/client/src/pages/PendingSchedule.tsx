@@ -1,21 +1,33 @@
 import { useState } from 'react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useStore, Video } from '@/store/useStore';
+import { useQueryClient } from '@tanstack/react-query';
+import { useStore } from '@/store/useStore';
 import VideoCard from '@/components/VideoCard';
 import { useToast } from '@/hooks/use-toast';
 import { EditVideoModal } from '@/components/EditVideoModal';
+import VideoListControls from '@/components/VideoListControls';
+import LoadMoreTrigger from '@/components/LoadMoreTrigger';
+import { useVideoPages } from '@/hooks/use-video-pages';
+import { addDays, format } from 'date-fns';
 
 export default function PendingSchedule() {
-  const { setAddVideoModalOpen, currentProfileId, setEditVideoModalOpen, isEditVideoModalOpen, selectedVideoId } = useStore();
+  const {
+    setAddVideoModalOpen, currentProfileId, setEditVideoModalOpen, isEditVideoModalOpen, selectedVideoId, setSelectedTab,
+    videoListOptions
+  } = useStore();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
   
-  // Fetch all pending videos
-  const { data: videos, isLoading, error, refetch } = useQuery<Video[]>({
-    queryKey: ['/api/videos', { status: 'pending' }],
-    enabled: !!currentProfileId
-  });
+  // Today's videos are on the Today tab, so the list starts tomorrow
+  const options = videoListOptions.pending;
+  const tomorrow = format(addDays(new Date(), 1), 'yyyy-MM-dd');
+  const from = options.from && options.from > tomorrow ? options.from : tomorrow;
+  
+  // Fetch the current profile's pending videos a page at a time, sorted and filtered by SQLite
+  const { videos, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } = useVideoPages(
+    { ...options, status: 'pending', profileId: currentProfileId ?? undefined, from },
+    !!currentProfileId
+  );
   
   // Handle refresh
   const handleRefresh = async () => {
@@ -38,19 +50,6 @@ export default function PendingSchedule() {
     }
   };
   
-  // Filter videos by current profile and exclude today's videos
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const filteredVideos = videos?.filter(video => {
-    const videoDate = new Date(video.scheduleDate);
-    videoDate.setHours(0, 0, 0, 0);
-    
-    return video.profileId === currentProfileId && 
-           video.status === 'pending' && 
-           videoDate > today;
-  }).sort((a, b) => new Date(a.scheduleDate).getTime() - new Date(b.scheduleDate).getTime()) || [];
-  
   // Handle edit video
   const handleEditVideo = (videoId: number) => {
     setEditVideoModalOpen(true, videoId);
@@ -84,12 +83,14 @@ export default function PendingSchedule() {
                 refresh
               </span>
             </button>
-            <button className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600">
-              <span className="material-icons text-sm">sort</span>
-            </button>
-            <button className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600">
-              <span className="material-icons text-sm">filter_list</span>
+            <button
+              onClick={() => setSelectedTab('calendar')}
+              className="p-2 bg-gray-100 rounded-full flex items-center justify-center text-gray-600"
+              title="Calendar view"
+            >
+              <span className="material-icons text-sm">calendar_month</span>
             </button>
+            <VideoListControls tab="pending" />
           </div>
         </div>
         
@@ -105,8 +106,8 @@ export default function PendingSchedule() {
           </div>
         ) : (
           <div className="space-y-4">
-            {filteredVideos.length > 0 ? (
-              filteredVideos.map(video => (
+            {videos.length > 0 ? (
+              videos.map(video => (
                 <VideoCard 
                   key={video.id} 
                   video={video}
@@ -125,6 +126,11 @@ export default function PendingSchedule() {
                 </button>
               </div>
             )}
+            <LoadMoreTrigger
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              fetchNextPage={fetchNextPage}
+            />
           </div>
         )}
       </div>
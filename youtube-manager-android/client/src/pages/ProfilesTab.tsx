@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useStore, Profile, Video } from '@/store/useStore';
+import { useStore, Profile } from '@/store/useStore';
+import type { ProfileVideoStats } from '@/lib/database/schema';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiRequest, clearPushLimitCache } from '@/lib/queryClient';
+import { apiRequest, clearPushLimitCache, getPathQueryFn } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { getTimeSince } from '@/utils/dateUtils';
 import { EditProfileModal } from '@/components/EditProfileModal';
@@ -24,52 +25,23 @@ export default function ProfilesTab() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredProfiles, setFilteredProfiles] = useState<Profile[]>([]);
-  const [profileLastUploads, setProfileLastUploads] = useState<Record<number, string | null>>({});
-  const [profilePendingCounts, setProfilePendingCounts] = useState<Record<number, number>>({});
 
   // Fetch profiles
   const { isLoading, error, data: profilesData, refetch } = useQuery<Profile[]>({
     queryKey: ['/api/profiles'],
   });
 
-  // Fetch all videos to determine last upload dates
-  const { data: videosData } = useQuery<Video[]>({
-    queryKey: ['/api/videos'],
+  // Last upload and pending count per profile, counted by SQLite
+  const { data: videoStats } = useQuery<ProfileVideoStats[]>({
+    queryKey: ['/api/videos', 'stats'],
+    queryFn: getPathQueryFn<ProfileVideoStats[]>('/api/videos/stats'),
   });
-
-  // Calculate the most recent upload for each profile and pending video counts
-  useEffect(() => {
-    if (!videosData) return;
-    
-    const completedVideos = videosData.filter(video => video.status === 'completed' && video.uploadedDate);
-    const pendingVideos = videosData.filter(video => video.status === 'pending');
-    const lastUploads: Record<number, string | null> = {};
-    const pendingCounts: Record<number, number> = {};
-    
-    // For each profile, find the most recent uploaded video and count pending videos
-    profiles.forEach(profile => {
-      // Process completed videos for last upload date
-      const profileCompletedVideos = completedVideos.filter(video => video.profileId === profile.id);
-      
-      if (profileCompletedVideos.length === 0) {
-        lastUploads[profile.id] = null;
-      } else {
-        // Find the most recent uploaded video for this profile
-        const sortedVideos = [...profileCompletedVideos].sort((a, b) => 
-          new Date(b.uploadedDate!).getTime() - new Date(a.uploadedDate!).getTime()
-        );
-        
-        lastUploads[profile.id] = sortedVideos[0].uploadedDate;
-      }
-      
-      // Count pending videos for this profile
-      const profilePendingVideos = pendingVideos.filter(video => video.profileId === profile.id);
-      pendingCounts[profile.id] = profilePendingVideos.length;
-    });
-    
-    setProfileLastUploads(lastUploads);
-    setProfilePendingCounts(pendingCounts);
-  }, [videosData, profiles]);
+  const profileLastUploads: Record<number, string | null> = {};
+  const profilePendingCounts: Record<number, number> = {};
+  for (const stats of videoStats || []) {
+    profileLastUploads[stats.profileId] = stats.lastUploadedDate;
+    profilePendingCounts[stats.profileId] = stats.pendingCount;
+  }
 
   // Update filtered profiles when search query changes or profiles change
   useEffect(() => {
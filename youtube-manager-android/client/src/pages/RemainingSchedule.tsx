@@ -1,15 +1,16 @@
 import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { VideoCard } from '@/components/VideoCard';
-import { useStore, Video } from '@/store/useStore';
-import { getQueryFn } from '@/lib/queryClient';
+import { useStore } from '@/store/useStore';
+import { getPathQueryFn } from '@/lib/queryClient';
+import type { ProfileVideoStats } from '@/lib/database/schema';
 import { formatScheduleDateTime, getTimeSince } from '@/utils/dateUtils';
 
 interface ProfileVideoCount {
   profileId: number;
   profileName: string;
   count: number;
-  videos: Video[];
+  nextScheduleDate: string | null;
   lastUploadedDate: string | null;
 }
 
@@ -17,62 +18,28 @@ export default function RemainingSchedule() {
   const { profiles, setSelectedTab, setCurrentProfileId } = useStore();
   const [profileVideoCounts, setProfileVideoCounts] = useState<ProfileVideoCount[]>([]);
   
-  // Fetch all pending videos
-  const { data: videosData, isLoading, error } = useQuery<Video[]>({
-    queryKey: ['/api/videos'],
-    queryFn: getQueryFn<Video[]>({ on401: 'returnNull' })
+  // Fetch pending counts, next date and last upload per profile
+  const { data: videoStats, isLoading, error } = useQuery<ProfileVideoStats[]>({
+    queryKey: ['/api/videos', 'stats'],
+    queryFn: getPathQueryFn<ProfileVideoStats[]>('/api/videos/stats'),
   });
   
-  // Process video data to count remaining videos per profile
+  // Only profiles with pending videos are listed, lowest count first
   useEffect(() => {
-    if (!videosData || !profiles) return;
+    if (!videoStats || !profiles) return;
     
-    const pendingVideos = videosData.filter(video => video.status === 'pending');
-    const completedVideos = videosData.filter(video => video.status === 'completed');
-    const profileCounts: Record<number, ProfileVideoCount> = {};
-    
-    // Initialize profile counts with all profiles that have pending videos
-    pendingVideos.forEach(video => {
-      const profileId = video.profileId;
-      const profile = profiles.find(p => p.id === profileId);
-      
-      if (!profileCounts[profileId]) {
-        profileCounts[profileId] = {
-          profileId,
-          profileName: profile?.name || `Profile ${profileId}`,
-          count: 0,
-          videos: [],
-          lastUploadedDate: null // Initialize with no last upload
-        };
-      }
-      
-      profileCounts[profileId].count += 1;
-      profileCounts[profileId].videos.push(video);
-    });
-    
-    // Find the most recent completed video for each profile to determine last upload
-    completedVideos.forEach(video => {
-      const profileId = video.profileId;
-      
-      // Skip if profile doesn't have any pending videos (we only want to show profiles with pending videos)
-      if (!profileCounts[profileId]) return;
-      
-      // Only process videos that have an uploadedDate
-      if (!video.uploadedDate) return;
-      
-      const uploadDate = new Date(video.uploadedDate);
-      const currentLastUpload = profileCounts[profileId].lastUploadedDate;
-      
-      // Update if this is the first upload found or if it's more recent than current last
-      if (!currentLastUpload || uploadDate > new Date(currentLastUpload)) {
-        profileCounts[profileId].lastUploadedDate = video.uploadedDate;
-      }
-    });
-    
-    // Convert to array and sort by count (lowest to highest)
-    const sortedProfileCounts = Object.values(profileCounts).sort((a, b) => a.count - b.count);
-    setProfileVideoCounts(sortedProfileCounts);
-  }, [videosData, profiles]);
+    const counts = videoStats
+      .filter(stats => stats.pendingCount > 0)
+      .map(stats => ({
+        profileId: stats.profileId,
+        profileName: profiles.find(p => p.id === stats.profileId)?.name || `Profile ${stats.profileId}`,
+        count: stats.pendingCount,
+        nextScheduleDate: stats.nextScheduleDate,
+        lastUploadedDate: stats.lastUploadedDate
+      }))
+      .sort((a, b) => a.count - b.count);
+    setProfileVideoCounts(counts);
+  }, [videoStats, profiles]);
   
   if (isLoading) {
     return (
@@ -119,16 +86,11 @@ export default function RemainingSchedule() {
         </p>
       </div>
 
-      {profileVideoCounts.map(({ profileId, profileName, count, videos, lastUploadedDate }) => {
+      {profileVideoCounts.map(({ profileId, profileName, count, nextScheduleDate, lastUploadedDate }) => {
         const isLowCount = count < 4; // Videos less than 4 will show warning
         const profile = profiles.find(p => p.id === profileId);
         const channelName = profile?.channelName || '';
         
-        // Get the next scheduled video date
-        const nextScheduledVideo = [...videos].sort((a, b) => 
-          new Date(a.scheduleDate).getTime() - new Date(b.scheduleDate).getTime()
-        )[0];
-        
         return (
           <div key={profileId} className="mb-8 border rounded-lg overflow-hidden">
             {/* Profile header with complete info and status */}
@@ -171,10 +133,10 @@ export default function RemainingSchedule() {
                 )}
                 
                 {/* Next scheduled date */}
-                {nextScheduledVideo && (
+                {nextScheduleDate && (
                   <div className="text-xs bg-white border border-gray-200 px-2 py-1 rounded flex items-center">
                     <span className="material-icons text-xs mr-1 text-gray-500">event</span>
-                    Next: {formatScheduleDateTime(nextScheduledVideo.scheduleDate)}
+                    Next: {formatScheduleDateTime(nextScheduleDate)}
                   </div>
                 )}
                 
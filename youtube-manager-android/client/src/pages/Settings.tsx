@@ -1,4 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
 import { useStore } from '@/store/useStore';
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -6,8 +8,61 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-// Using fetch directly for API calls
-import { Loader2, Download, Upload, RefreshCw, Info, Trash2, Upload as UploadIcon } from "lucide-react";
+// apiRequest serves these routes from the local database in offline mode
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ImportStrategy, ImportSummary } from "@/lib/database/data-import";
+import type { ImportReport } from "@/lib/database/import-report";
+import { CSV_DATE_FORMATS, CsvDateFormat, CsvSchedulePreview } from "@/lib/scheduling/csv-schedule";
+import type { ScheduleExportFilter } from "@/lib/scheduling/schedule-export";
+import { VIDEO_STATUSES, VideoStatus } from "@/lib/database/video-status";
+import type { ProfilePushCount } from "@/lib/database/api-service";
+import { PushResetPolicy, PushResetPolicyType, resolvePushResetPolicy } from "@/lib/database/push-limit";
+import { isValidTimeZone } from "@/lib/scheduling/time-zone";
+import { ScheduleSlot, WEEKDAY_LABELS, describeScheduleTemplate } from "@/lib/scheduling/schedule-templates";
+import type { ScheduleTemplate, Video } from "@/lib/database/schema";
+import type { BackupManifest } from "@/lib/database/backup-service";
+import { APP_SETTINGS } from "@/lib/config";
+import { Loader2, Download, Upload, RefreshCw, Info, Trash2, Archive, FileSpreadsheet, CalendarDays, Upload as UploadIcon } from "lucide-react";
+
+// Short description of an import result for toasts
+function describeImportSummary(summary: ImportSummary): string {
+  const parts = [
+    `${summary.profilesCreated} profiles and ${summary.videosCreated} videos added`,
+    `${summary.profilesUpdated + summary.videosUpdated} updated`,
+    `${summary.profilesSkipped + summary.videosSkipped} already present`
+  ];
+  if (summary.videosOrphaned > 0) {
+    parts.push(`${summary.videosOrphaned} videos without a profile ignored`);
+  }
+  if (summary.invalidRecords > 0) {
+    parts.push(`${summary.invalidRecords} invalid records ignored`);
+  }
+  return parts.join(', ');
+}
+
+// How a push reset policy reads in a sentence, e.g. "at midnight (Europe/Berlin)"
+function describeResetPolicy(policy: PushResetPolicy): string {
+  switch (policy.type) {
+    case 'rolling-24h':
+      return '24 hours after the first push';
+    case 'local-midnight':
+      return 'at midnight on this device';
+    case 'timezone-midnight':
+      return `at midnight (${policy.timeZone})`;
+  }
+}
+
+// Save a generated file through a temporary download link
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 export default function Settings() {
   const { profiles, currentProfileId, setCurrentProfileId, setAddProfileModalOpen, setProfiles } = useStore();
@@ -15,37 +70,193 @@ export default function Settings() {
   const { authenticated } = useAuth();
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
-  const [pushLimitData, setPushLimitData] = useState<{ dailyPushCount: number, lastReset: string | null } | null>(null);
+  const [pushLimitData, setPushLimitData] = useState<ProfilePushCount | null>(null);
+  const [pushLimitInput, setPushLimitInput] = useState('');
+  const [isSavingPushLimit, setIsSavingPushLimit] = useState(false);
+  // '' means the profile follows the app-wide reset policy
+  const [resetPolicyInput, setResetPolicyInput] = useState<PushResetPolicyType | ''>('');
+  const [resetTimeZoneInput, setResetTimeZoneInput] = useState('');
   const [isResetting, setIsResetting] = useState(false);
   const [showResetConfirmation, setShowResetConfirmation] = useState(false);
   const [isCleaning, setIsCleaning] = useState(false);
   const [showCleanupConfirmation, setShowCleanupConfirmation] = useState(false);
+  const [includeVideosInBackup, setIncludeVideosInBackup] = useState(false);
+  const [importStrategy, setImportStrategy] = useState<ImportStrategy>('merge');
+  const [scheduleExportFilter, setScheduleExportFilter] = useState<ScheduleExportFilter>({});
+  const [isSharingSchedule, setIsSharingSchedule] = useState(false);
+  const [csvDateFormat, setCsvDateFormat] = useState<CsvDateFormat>('dd/MM/yyyy');
+  const [csvPreview, setCsvPreview] = useState<{ fileName: string, text: string, preview: CsvSchedulePreview } | null>(null);
+  const [isCsvImporting, setIsCsvImporting] = useState(false);
+  // Import waiting for the user to confirm its dry-run report
+  const [pendingImport, setPendingImport] = useState<
+    { source: 'json', data: unknown, report: ImportReport } |
+    { source: 'archive', file: File, report: ImportReport } |
+    null
+  >(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  // New recurring slot for the current profile
+  const [templateWeekdays, setTemplateWeekdays] = useState<number[]>([]);
+  const [templateTime, setTemplateTime] = useState('17:00');
+  const [templateTimeZone, setTemplateTimeZone] = useState('');
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
   
   const currentProfile = profiles.find(profile => profile.id === currentProfileId);
   
-  // Fetch the user's push limit data
+  const templatesKey = `/api/profiles/${currentProfileId}/schedule-templates`;
+  const { data: scheduleTemplates, refetch: refetchTemplates } = useQuery<ScheduleTemplate[]>({
+    queryKey: [templatesKey],
+    enabled: !!currentProfileId,
+  });
+  const { data: nextSlot, refetch: refetchNextSlot } = useQuery<ScheduleSlot>({
+    queryKey: [`/api/profiles/${currentProfileId}/next-slot`],
+    enabled: !!currentProfileId && !!scheduleTemplates?.some(t => t.isActive),
+    retry: false,
+  });
+  
+  // Fetch the current profile's push limit data
+  const fetchPushLimitData = useCallback(async () => {
+    if (!currentProfileId) {
+      setPushLimitData(null);
+      return;
+    }
+    try {
+      const response = await apiRequest('GET', `/api/profiles/${currentProfileId}/push-count`);
+      const data: ProfilePushCount = await response.json();
+      setPushLimitData(data);
+      setPushLimitInput(String(data.dailyPushLimit));
+      setResetPolicyInput(data.pushResetPolicy ?? '');
+      setResetTimeZoneInput(data.pushResetTimeZone ?? APP_SETTINGS.PUSH_RESET_TIME_ZONE);
+    } catch (error) {
+      console.error('Error fetching push limit data:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not fetch push limit data',
+        variant: 'destructive',
+      });
+    }
+  }, [currentProfileId, toast]);
+  
   useEffect(() => {
     if (authenticated) {
-      const fetchPushLimitData = async () => {
-        try {
-          const response = await fetch('/api/user/push-count');
-          if (response.ok) {
-            const data = await response.json();
-            setPushLimitData(data);
-          }
-        } catch (error) {
-          console.error('Error fetching push limit data:', error);
-          toast({
-            title: 'Error',
-            description: 'Could not fetch push limit data',
-            variant: 'destructive',
-          });
-        }
-      };
-      
       fetchPushLimitData();
     }
-  }, [authenticated, toast]);
+  }, [authenticated, fetchPushLimitData]);
+  
+  // Save the current profile's daily push limit
+  const handleSavePushLimit = async () => {
+    const limit = Number(pushLimitInput);
+    if (!currentProfileId || !Number.isInteger(limit) || limit < 1) {
+      toast({
+        title: 'Invalid limit',
+        description: 'The daily limit must be a whole number of at least 1',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    setIsSavingPushLimit(true);
+    try {
+      await apiRequest('PUT', `/api/profiles/${currentProfileId}`, { dailyPushLimit: limit });
+      await fetchPushLimitData();
+      toast({
+        title: 'Limit Saved',
+        description: `${currentProfile?.name ?? 'This profile'} can now push ${limit} videos per day`,
+      });
+    } catch (error) {
+      console.error('Error saving push limit:', error);
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingPushLimit(false);
+    }
+  };
+  
+  // Save when the current profile's push count resets
+  const handleSaveResetPolicy = async () => {
+    if (!currentProfileId) return;
+    
+    const timeZone = resetTimeZoneInput.trim();
+    if (resetPolicyInput === 'timezone-midnight' && !isValidTimeZone(timeZone)) {
+      toast({
+        title: 'Invalid time zone',
+        description: `"${timeZone}" is not a time zone name such as America/Los_Angeles`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    setIsSavingPushLimit(true);
+    try {
+      await apiRequest('PUT', `/api/profiles/${currentProfileId}`, {
+        pushResetPolicy: resetPolicyInput || null,
+        pushResetTimeZone: resetPolicyInput === 'timezone-midnight' ? timeZone : null
+      });
+      await fetchPushLimitData();
+      toast({
+        title: 'Reset Schedule Saved',
+        description: `Push count now resets ${describeResetPolicy(resolvePushResetPolicy({
+          pushResetPolicy: resetPolicyInput || null,
+          pushResetTimeZone: timeZone
+        }))}`,
+      });
+    } catch (error) {
+      console.error('Error saving push reset policy:', error);
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingPushLimit(false);
+    }
+  };
+  
+  // Add a recurring publish slot to the current profile
+  const handleAddTemplate = async () => {
+    if (!currentProfileId) return;
+    
+    setIsSavingTemplate(true);
+    try {
+      await apiRequest('POST', templatesKey, {
+        weekdays: templateWeekdays,
+        time: templateTime,
+        timeZone: templateTimeZone.trim() || null
+      });
+      setTemplateWeekdays([]);
+      await Promise.all([refetchTemplates(), refetchNextSlot()]);
+    } catch (error) {
+      console.error('Error saving schedule template:', error);
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+  
+  const handleToggleTemplate = async (template: ScheduleTemplate) => {
+    try {
+      await apiRequest('PUT', `/api/schedule-templates/${template.id}`, { isActive: !template.isActive });
+      await Promise.all([refetchTemplates(), refetchNextSlot()]);
+    } catch (error) {
+      console.error('Error updating schedule template:', error);
+    }
+  };
+  
+  const handleDeleteTemplate = async (template: ScheduleTemplate) => {
+    try {
+      await apiRequest('DELETE', `/api/schedule-templates/${template.id}`);
+      await Promise.all([refetchTemplates(), refetchNextSlot()]);
+    } catch (error) {
+      console.error('Error deleting schedule template:', error);
+    }
+  };
   
   // Handle reset push limit
   const handleResetPushLimit = async () => {
@@ -54,25 +265,16 @@ export default function Settings() {
       return;
     }
     
+    if (!currentProfileId) return;
+    
     setIsResetting(true);
     try {
-      const response = await fetch('/api/user/reset-push-count', {
-        method: 'POST',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Reset failed with status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      setPushLimitData({
-        dailyPushCount: data.dailyPushCount,
-        lastReset: new Date().toISOString()
-      });
+      await apiRequest('POST', `/api/profiles/${currentProfileId}/reset-push-count`);
+      await fetchPushLimitData();
       
       toast({
         title: 'Limit Reset',
-        description: 'Your daily push limit has been reset',
+        description: 'The daily push limit for this profile has been reset',
       });
       
       setShowResetConfirmation(false);
@@ -102,13 +304,7 @@ export default function Settings() {
     
     setIsCleaning(true);
     try {
-      const response = await fetch('/api/maintenance/cleanup', {
-        method: 'POST',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Cleanup failed with status: ${response.status}`);
-      }
+      const response = await apiRequest('POST', '/api/maintenance/cleanup');
       
       const result = await response.json();
       
@@ -144,33 +340,16 @@ export default function Settings() {
       setIsExporting(true);
       
       // Call the export API endpoint
-      const response = await fetch('/api/export', {
-        method: 'GET',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Export failed with status: ${response.status}`);
-      }
+      const response = await apiRequest('GET', '/api/export');
       
       const data = await response.json();
       
       // Convert to JSON string with pretty formatting
       const jsonString = JSON.stringify(data, null, 2);
       
-      // Create a blob with the data
+      // Create a blob with the data and download it
       const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
-      // Create a link to download the file
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `youtube-scheduler-export-${new Date().toISOString().slice(0, 10)}.json`;
-      document.body.appendChild(a);
-      a.click();
-      
-      // Clean up
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `youtube-scheduler-export-${new Date().toISOString().slice(0, 10)}.json`);
       
       toast({
         title: 'Export successful',
@@ -226,46 +405,233 @@ export default function Settings() {
       // Parse the JSON
       const data = JSON.parse(text);
       
-      // Validate the data structure
-      if (!data.profiles || !Array.isArray(data.profiles) || !data.videos || !Array.isArray(data.videos)) {
-        throw new Error('Invalid import file format');
-      }
-      
       setIsImporting(true);
       
-      // Call the import API
-      const response = await fetch('/api/import', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
+      // Dry run first; records are validated and nothing is written
+      const reportResponse = await apiRequest('POST', `/api/import?strategy=${importStrategy}&dryRun=true`, data);
+      const report: ImportReport = await reportResponse.json();
+      setPendingImport({ source: 'json', data, report });
+    } catch (error) {
+      console.error('Import error:', error);
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
       });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
+  // Function to handle backup archive export
+  const handleBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      
+      const response = await apiRequest('POST', '/api/backup', { includeVideos: includeVideosInBackup });
+      const { path, manifest }: { path: string, manifest: BackupManifest } = await response.json();
       
-      if (!response.ok) {
-        throw new Error(`Import failed with status: ${response.status}`);
+      toast({
+        title: 'Backup created',
+        description: `${manifest.profileCount} profiles and ${manifest.videoCount} videos were backed up to Documents/${path}.`,
+      });
+    } catch (error) {
+      console.error('Backup error:', error);
+      toast({
+        title: 'Backup failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+  
+  // Function to handle backup archive restore
+  const handleRestore = async () => {
+    try {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.zip';
+      
+      const filePromise = new Promise<File>((resolve, reject) => {
+        input.onchange = () => {
+          if (input.files && input.files.length > 0) {
+            resolve(input.files[0]);
+          } else {
+            reject(new Error('No file selected'));
+          }
+        };
+      });
+      
+      input.click();
+      const file = await filePromise;
+      
+      setIsRestoring(true);
+      // Verify the archive and report on its contents before restoring
+      const response = await apiRequest('POST', `/api/backup/restore?strategy=${importStrategy}&dryRun=true`, file);
+      const report: ImportReport = await response.json();
+      setPendingImport({ source: 'archive', file, report });
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+  
+  // Carry out an import after the user has reviewed its report
+  const confirmImport = async () => {
+    if (!pendingImport) return;
+    
+    const setBusy = pendingImport.source === 'json' ? setIsImporting : setIsRestoring;
+    setBusy(true);
+    try {
+      let summary: ImportSummary;
+      if (pendingImport.source === 'json') {
+        const response = await apiRequest('POST', `/api/import?strategy=${pendingImport.report.strategy}`, pendingImport.data);
+        summary = await response.json();
+      } else {
+        const response = await apiRequest('POST', `/api/backup/restore?strategy=${pendingImport.report.strategy}`, pendingImport.file);
+        ({ summary } = await response.json());
       }
       
       // Refresh the profiles list
-      const profilesResponse = await fetch('/api/profiles');
-      if (profilesResponse.ok) {
-        const refreshedProfiles = await profilesResponse.json();
-        setProfiles(refreshedProfiles);
-      }
+      const profilesResponse = await apiRequest('GET', '/api/profiles');
+      setProfiles(await profilesResponse.json());
       
       toast({
-        title: 'Import successful',
-        description: 'Your data has been imported successfully.',
+        title: pendingImport.source === 'json' ? 'Import successful' : 'Restore successful',
+        description: describeImportSummary(summary),
       });
+      setPendingImport(null);
     } catch (error) {
       console.error('Import error:', error);
       toast({
-        title: 'Import failed',
+        title: pendingImport.source === 'json' ? 'Import failed' : 'Restore failed',
         description: error instanceof Error ? error.message : 'An unknown error occurred',
         variant: 'destructive',
       });
     } finally {
-      setIsImporting(false);
+      setBusy(false);
+    }
+  };
+  
+  // Cancel a previewed import
+  const cancelImport = () => {
+    setPendingImport(null);
+  };
+  
+  // Export the filtered schedule as CSV or an iCalendar file
+  const handleShareSchedule = async (kind: 'csv' | 'ics') => {
+    setIsSharingSchedule(true);
+    try {
+      const params = new URLSearchParams({ format: kind });
+      for (const [key, value] of Object.entries(scheduleExportFilter)) {
+        if (value !== null && value !== undefined) params.set(key, String(value));
+      }
+      const response = await apiRequest('GET', `/api/export/schedule?${params}`);
+      const { content }: { content: string } = await response.json();
+      const type = kind === 'csv' ? 'text/csv' : 'text/calendar';
+      downloadBlob(
+        new Blob([content], { type }),
+        `youtube-schedule-${new Date().toISOString().slice(0, 10)}.${kind}`
+      );
+    } catch (error) {
+      console.error('Schedule export error:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSharingSchedule(false);
+    }
+  };
+  
+  // Pick a schedule CSV and preview its rows
+  const handleCsvSelect = async () => {
+    try {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.csv,text/csv';
+      
+      const filePromise = new Promise<File>((resolve, reject) => {
+        input.onchange = () => {
+          if (input.files && input.files.length > 0) {
+            resolve(input.files[0]);
+          } else {
+            reject(new Error('No file selected'));
+          }
+        };
+      });
+      
+      input.click();
+      const file = await filePromise;
+      const text = await file.text();
+      
+      setIsCsvImporting(true);
+      const response = await apiRequest('POST', '/api/import/schedule-csv?dryRun=true', { text, dateFormat: csvDateFormat });
+      const preview: CsvSchedulePreview = await response.json();
+      setCsvPreview({ fileName: file.name, text, preview });
+    } catch (error) {
+      console.error('CSV preview error:', error);
+      toast({
+        title: 'CSV import failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCsvImporting(false);
+    }
+  };
+  
+  // Re-check the previewed CSV when the date format changes
+  const handleCsvDateFormatChange = async (dateFormat: CsvDateFormat) => {
+    setCsvDateFormat(dateFormat);
+    if (!csvPreview) return;
+    try {
+      const response = await apiRequest('POST', '/api/import/schedule-csv?dryRun=true', { text: csvPreview.text, dateFormat });
+      const preview: CsvSchedulePreview = await response.json();
+      setCsvPreview({ ...csvPreview, preview });
+    } catch (error) {
+      console.error('CSV preview error:', error);
+    }
+  };
+  
+  // Create videos for the valid rows of the previewed CSV
+  const confirmCsvImport = async () => {
+    if (!csvPreview) return;
+    
+    setIsCsvImporting(true);
+    try {
+      const response = await apiRequest('POST', '/api/import/schedule-csv', { text: csvPreview.text, dateFormat: csvDateFormat });
+      const { created, failed }: { created: Video[], failed: { row: number, error: string }[] } = await response.json();
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/videos'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/videos/today'] });
+      
+      toast({
+        title: 'Schedule imported',
+        description: failed.length > 0
+          ? `${created.length} videos added, ${failed.length} rows failed (row ${failed.map(f => f.row).join(', ')})`
+          : `${created.length} videos added`,
+        variant: failed.length > 0 ? 'destructive' : undefined,
+      });
+      setCsvPreview(null);
+    } catch (error) {
+      console.error('CSV import error:', error);
+      toast({
+        title: 'CSV import failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCsvImporting(false);
     }
   };
   
@@ -324,32 +690,101 @@ export default function Settings() {
       <div className="push-limit-section bg-white rounded-lg shadow p-4 mb-4">
         <h2 className="text-lg font-semibold mb-2">Push to YouTube Limit</h2>
         <p className="text-sm text-gray-600 mb-3">
-          Manage your daily limit for pushing videos to YouTube (currently limited to 1 per day).
+          Manage how many videos {currentProfile ? currentProfile.name : 'each profile'} may push to YouTube per day.
         </p>
         
-        {pushLimitData ? (
+        {!currentProfileId ? (
+          <p className="text-gray-500">Select a profile to manage its push limit</p>
+        ) : pushLimitData ? (
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-md font-medium">Daily Push Count</h3>
                 <p className="text-sm text-gray-600">
-                  {pushLimitData.dailyPushCount} of 1 used today
+                  {pushLimitData.dailyPushCount} of {pushLimitData.dailyPushLimit} used today
                 </p>
               </div>
               <div className="text-right">
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                  pushLimitData.dailyPushCount >= 1 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                  pushLimitData.dailyPushCount >= pushLimitData.dailyPushLimit ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
                 }`}>
-                  {pushLimitData.dailyPushCount >= 1 ? 'Limit Reached' : 'Available'}
+                  {pushLimitData.dailyPushCount >= pushLimitData.dailyPushLimit ? 'Limit Reached' : 'Available'}
                 </span>
               </div>
             </div>
             
-            <Progress value={pushLimitData.dailyPushCount * 100} className="h-2" />
+            <Progress value={Math.min(100, pushLimitData.dailyPushCount / pushLimitData.dailyPushLimit * 100)} className="h-2" />
             
             <div className="flex justify-between items-center text-xs text-gray-500">
               <span>0</span>
-              <span>Daily Limit: 1</span>
+              <span>Daily Limit: {pushLimitData.dailyPushLimit}</span>
+            </div>
+            
+            {pushLimitData.resetsAt && (
+              <p className="text-xs text-gray-500">
+                Resets {formatDistanceToNow(new Date(pushLimitData.resetsAt), { addSuffix: true })}
+                {' '}({describeResetPolicy(pushLimitData.resetPolicy)})
+              </p>
+            )}
+            
+            <div className="flex items-end gap-2">
+              <label className="flex-1 text-sm text-gray-700">
+                Daily limit for this profile
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  className="mt-1 block w-full rounded border border-gray-200 p-2"
+                  value={pushLimitInput}
+                  onChange={(e) => setPushLimitInput(e.target.value)}
+                />
+              </label>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={handleSavePushLimit}
+                disabled={isSavingPushLimit || pushLimitInput === String(pushLimitData.dailyPushLimit)}
+              >
+                {isSavingPushLimit ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Save'}
+              </Button>
+            </div>
+            
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <label className="block text-sm text-gray-700">
+                  Count resets
+                  <select
+                    className="mt-1 block w-full rounded border border-gray-200 p-2"
+                    value={resetPolicyInput}
+                    onChange={(e) => setResetPolicyInput(e.target.value as PushResetPolicyType | '')}
+                  >
+                    <option value="">App default ({describeResetPolicy(resolvePushResetPolicy({ pushResetPolicy: null, pushResetTimeZone: null }))})</option>
+                    <option value="rolling-24h">24 hours after the first push</option>
+                    <option value="local-midnight">At midnight on this device</option>
+                    <option value="timezone-midnight">At midnight in a time zone</option>
+                  </select>
+                </label>
+                {resetPolicyInput === 'timezone-midnight' && (
+                  <label className="block text-sm text-gray-700">
+                    Time zone
+                    <input
+                      type="text"
+                      className="mt-1 block w-full rounded border border-gray-200 p-2"
+                      placeholder="America/Los_Angeles"
+                      value={resetTimeZoneInput}
+                      onChange={(e) => setResetTimeZoneInput(e.target.value)}
+                    />
+                  </label>
+                )}
+              </div>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={handleSaveResetPolicy}
+                disabled={isSavingPushLimit}
+              >
+                {isSavingPushLimit ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Save'}
+              </Button>
             </div>
             
             {pushLimitData.lastReset && (
@@ -408,12 +843,115 @@ export default function Settings() {
         )}
       </div>
       
+      {/* Publishing Schedule Section */}
+      <div className="schedule-template-section bg-white rounded-lg shadow p-4 mb-4">
+        <h2 className="text-lg font-semibold mb-2">Publishing Schedule</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Recurring slots for {currentProfile ? currentProfile.name : 'each profile'}. Videos added without a date take the next free slot.
+        </p>
+        
+        {!currentProfileId ? (
+          <p className="text-gray-500">Select a profile to manage its publishing schedule</p>
+        ) : (
+          <div className="space-y-3">
+            {scheduleTemplates && scheduleTemplates.length > 0 ? (
+              <ul className="space-y-2">
+                {scheduleTemplates.map(template => (
+                  <li key={template.id} className="flex items-center justify-between text-sm">
+                    <span className={template.isActive ? 'text-gray-800' : 'text-gray-400 line-through'}>
+                      {describeScheduleTemplate(template)}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleToggleTemplate(template)}>
+                        {template.isActive ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDeleteTemplate(template)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No recurring slots yet</p>
+            )}
+            
+            {nextSlot && (
+              <p className="text-xs text-gray-500">
+                Next free slot: {format(parseISO(nextSlot.scheduleDate), 'EEE d MMM, HH:mm')}
+                {nextSlot.scheduleTimeZone ? ` (${nextSlot.scheduleTimeZone})` : ''}
+              </p>
+            )}
+            
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => setTemplateWeekdays(days =>
+                    days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort())}
+                  className={`px-2 py-1 rounded border text-xs ${templateWeekdays.includes(day)
+                    ? 'bg-yt-red text-white border-yt-red'
+                    : 'bg-white text-gray-800 border-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            
+            <div className="flex items-end gap-2">
+              <label className="text-sm text-gray-700">
+                Time
+                <input
+                  type="time"
+                  className="mt-1 block w-full rounded border border-gray-200 p-2"
+                  value={templateTime}
+                  onChange={(e) => setTemplateTime(e.target.value)}
+                />
+              </label>
+              <label className="flex-1 text-sm text-gray-700">
+                Time zone
+                <input
+                  type="text"
+                  className="mt-1 block w-full rounded border border-gray-200 p-2"
+                  placeholder="This device"
+                  value={templateTimeZone}
+                  onChange={(e) => setTemplateTimeZone(e.target.value)}
+                />
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAddTemplate}
+                disabled={isSavingTemplate || templateWeekdays.length === 0}
+              >
+                {isSavingTemplate ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Add'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+      
       <div className="data-section bg-white rounded-lg shadow p-4 mb-4">
         <h2 className="text-lg font-semibold mb-2">Data Management</h2>
         <p className="text-sm text-gray-600 mb-3">
           Export your profiles and videos data for backup or import from a previous export.
         </p>
         
+        <label className="block text-sm text-gray-700 mb-3">
+          When imported data already exists
+          <select
+            className="mt-1 block w-full rounded border border-gray-200 p-2"
+            value={importStrategy}
+            onChange={(e) => setImportStrategy(e.target.value as ImportStrategy)}
+            disabled={pendingImport !== null}
+          >
+            <option value="merge">Merge: update existing items</option>
+            <option value="skip-existing">Skip: keep existing items as they are</option>
+            <option value="replace">Replace: delete all current data first</option>
+          </select>
+        </label>
+        
         <div className="flex gap-3">
           <Button 
             variant="default" 
@@ -453,6 +991,284 @@ export default function Settings() {
             )}
           </Button>
         </div>
+        
+        <Separator className="my-4" />
+        
+        <h3 className="text-md font-medium mb-1">Backup Archive</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          A full backup including thumbnails, for moving to a new device.
+        </p>
+        
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+          <input
+            type="checkbox"
+            checked={includeVideosInBackup}
+            onChange={(e) => setIncludeVideosInBackup(e.target.checked)}
+          />
+          Include video files (larger backup)
+        </label>
+        
+        <div className="flex gap-3">
+          <Button 
+            variant="default" 
+            className="flex-1 bg-yt-red hover:bg-yt-red-dark"
+            onClick={handleBackup}
+            disabled={isBackingUp}
+          >
+            {isBackingUp ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Backing up...
+              </>
+            ) : (
+              <>
+                <Archive className="mr-2 h-4 w-4" />
+                Create Backup
+              </>
+            )}
+          </Button>
+          
+          <Button 
+            variant="outline" 
+            className="flex-1 border-yt-red text-yt-red hover:bg-red-50"
+            onClick={handleRestore}
+            disabled={isRestoring}
+          >
+            {isRestoring ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Restore Backup
+              </>
+            )}
+          </Button>
+        </div>
+        
+        {pendingImport && (
+          <div className="border border-yellow-200 bg-yellow-50 p-3 rounded-md mt-4">
+            <h3 className="text-md font-medium text-yellow-900 mb-2">
+              <Info className="h-4 w-4 inline mr-1" />
+              Review {pendingImport.source === 'json' ? 'import' : 'restore'}
+            </h3>
+            <div className="grid grid-cols-4 gap-2 text-center text-sm mb-3">
+              <div><p className="font-semibold">{pendingImport.report.counts.new}</p><p className="text-xs text-gray-600">New</p></div>
+              <div><p className="font-semibold">{pendingImport.report.counts.duplicate}</p><p className="text-xs text-gray-600">Duplicate</p></div>
+              <div><p className="font-semibold">{pendingImport.report.counts.conflicting}</p><p className="text-xs text-gray-600">Conflicting</p></div>
+              <div><p className="font-semibold">{pendingImport.report.counts.invalid}</p><p className="text-xs text-gray-600">Invalid</p></div>
+            </div>
+            
+            {pendingImport.report.strategy === 'replace' && (
+              <p className="text-sm text-red-700 mb-2">
+                {pendingImport.report.removedProfileCount} profiles and {pendingImport.report.removedVideoCount} videos currently on this device will be deleted.
+              </p>
+            )}
+            
+            {pendingImport.report.entries.length > 0 && (
+              <ul className="max-h-48 overflow-y-auto text-xs text-gray-700 space-y-1 mb-3">
+                {pendingImport.report.entries.map(entry => (
+                  <li key={`${entry.kind}-${entry.index}`}>
+                    <span className="font-medium capitalize">{entry.category}</span> {entry.kind} "{entry.label}": {entry.reasons.join('; ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+            
+            <p className="text-xs text-gray-600 mb-2">Invalid records are left out of the import.</p>
+            <div className="flex gap-2">
+              <Button 
+                variant="default" 
+                size="sm"
+                className="bg-yt-red hover:bg-yt-red-dark"
+                onClick={confirmImport}
+                disabled={isImporting || isRestoring}
+              >
+                {isImporting || isRestoring ? (
+                  <>
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    Importing...
+                  </>
+                ) : 'Confirm Import'}
+              </Button>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={cancelImport}
+                disabled={isImporting || isRestoring}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+      
+      {/* Schedule sharing section */}
+      <div className="schedule-export-section bg-white rounded-lg shadow p-4 mb-4">
+        <h2 className="text-lg font-semibold mb-2">Share Schedule</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Export the upload plan as a spreadsheet or a calendar for people who don't use the app.
+        </p>
+        
+        <div className="grid grid-cols-2 gap-2 text-sm text-gray-700 mb-3">
+          <label>
+            Profile
+            <select
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={scheduleExportFilter.profileId ?? ''}
+              onChange={(e) => setScheduleExportFilter({
+                ...scheduleExportFilter,
+                profileId: e.target.value ? Number(e.target.value) : null
+              })}
+            >
+              <option value="">All profiles</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Status
+            <select
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={scheduleExportFilter.status ?? ''}
+              onChange={(e) => setScheduleExportFilter({
+                ...scheduleExportFilter,
+                status: (e.target.value || null) as VideoStatus | null
+              })}
+            >
+              <option value="">All statuses</option>
+              {VIDEO_STATUSES.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            From
+            <input
+              type="date"
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={scheduleExportFilter.from ?? ''}
+              onChange={(e) => setScheduleExportFilter({ ...scheduleExportFilter, from: e.target.value || null })}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              className="mt-1 block w-full rounded border border-gray-200 p-2"
+              value={scheduleExportFilter.to ?? ''}
+              onChange={(e) => setScheduleExportFilter({ ...scheduleExportFilter, to: e.target.value || null })}
+            />
+          </label>
+        </div>
+        
+        <div className="flex gap-3">
+          <Button 
+            variant="outline" 
+            className="flex-1 border-yt-red text-yt-red hover:bg-red-50"
+            onClick={() => handleShareSchedule('csv')}
+            disabled={isSharingSchedule}
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button 
+            variant="outline" 
+            className="flex-1 border-yt-red text-yt-red hover:bg-red-50"
+            onClick={() => handleShareSchedule('ics')}
+            disabled={isSharingSchedule}
+          >
+            <CalendarDays className="mr-2 h-4 w-4" />
+            Export Calendar
+          </Button>
+        </div>
+      </div>
+      
+      {/* Bulk schedule import section */}
+      <div className="csv-import-section bg-white rounded-lg shadow p-4 mb-4">
+        <h2 className="text-lg font-semibold mb-2">Schedule from Spreadsheet</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Import a CSV with profile, title, description, scheduleDate and optional scheduleTime, timeZone and fileName columns.
+          File names are matched to videos already in the app's videos folder.
+        </p>
+        
+        <label className="block text-sm text-gray-700 mb-3">
+          Date format
+          <select
+            className="mt-1 block w-full rounded border border-gray-200 p-2"
+            value={csvDateFormat}
+            onChange={(e) => handleCsvDateFormatChange(e.target.value as CsvDateFormat)}
+          >
+            {CSV_DATE_FORMATS.map(dateFormat => (
+              <option key={dateFormat} value={dateFormat}>{dateFormat}</option>
+            ))}
+          </select>
+        </label>
+        
+        {csvPreview ? (
+          <div className="border border-gray-200 p-3 rounded-md">
+            <p className="text-sm font-medium mb-2">
+              {csvPreview.fileName}: {csvPreview.preview.rows.filter(row => row.errors.length === 0).length} of {csvPreview.preview.rows.length} rows ready
+            </p>
+            <ul className="max-h-48 overflow-y-auto text-xs space-y-1 mb-3">
+              {csvPreview.preview.rows.map(row => (
+                <li key={row.row} className={row.errors.length > 0 ? 'text-red-700' : 'text-gray-700'}>
+                  Row {row.row}: {row.title || '(no title)'}
+                  {row.scheduleDate && ` on ${row.scheduleDate.replace('T', ' ')}`}
+                  {row.file && ` with ${row.file.name}`}
+                  {row.errors.length > 0 && ` (${row.errors.join('; ')})`}
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button 
+                variant="default" 
+                size="sm"
+                className="bg-yt-red hover:bg-yt-red-dark"
+                onClick={confirmCsvImport}
+                disabled={isCsvImporting || csvPreview.preview.rows.every(row => row.errors.length > 0)}
+              >
+                {isCsvImporting ? (
+                  <>
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    Importing...
+                  </>
+                ) : 'Create Videos'}
+              </Button>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setCsvPreview(null)}
+                disabled={isCsvImporting}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button 
+            variant="outline" 
+            className="w-full border-yt-red text-yt-red hover:bg-red-50"
+            onClick={handleCsvSelect}
+            disabled={isCsvImporting}
+          >
+            {isCsvImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading CSV...
+              </>
+            ) : (
+              <>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Import Schedule CSV
+              </>
+            )}
+          </Button>
+        )}
       </div>
       
       {/* Storage cleanup section */}
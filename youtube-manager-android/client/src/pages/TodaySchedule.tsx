@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import { useStore, Video } from '@/store/useStore';
 import VideoCard from '@/components/VideoCard';
@@ -6,18 +6,17 @@ import { getTodayDisplayDate, getTimeSince, isMissedSchedule } from '@/utils/dat
 import { useToast } from '@/hooks/use-toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EditVideoModal } from '@/components/EditVideoModal';
-import { clearAllCache, apiRequest } from '@/lib/queryClient';
+import { clearAllCache, apiRequest, getPathQueryFn } from '@/lib/queryClient';
+import { useVideoPages } from '@/hooks/use-video-pages';
+import LoadMoreTrigger from '@/components/LoadMoreTrigger';
+import type { ProfileVideoStats } from '@/lib/database/schema';
 import { Button } from '@/components/ui/button';
 import { Loader2, ArrowUp, Calendar } from 'lucide-react';
-
-// Define the valid status types including missed-schedule
-// The status field in videos schema has values: pending, completed, missed-schedule
-type VideoStatus = 'pending' | 'completed' | 'missed-schedule';
+import { format, formatDistanceToNow } from 'date-fns';
 
 export default function TodaySchedule() {
   const { setAddVideoModalOpen, currentProfileId, profiles, setEditVideoModalOpen, isEditVideoModalOpen, selectedVideoId } = useStore();
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [lastUploadedDate, setLastUploadedDate] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -28,58 +27,51 @@ export default function TodaySchedule() {
     enabled: !!currentProfileId
   });
   
-  // Fetch all videos to find missed ones and the most recent upload
-  const { data: allVideos } = useQuery<Video[]>({
-    queryKey: ['/api/videos'],
+  // Fetch videos whose publish time has arrived and the next one due,
+  // refreshed every minute so the list follows the clock
+  const { data: dueVideos } = useQuery<{ due: Video[]; next: Video | null }>({
+    queryKey: ['/api/videos/due', { profileId: currentProfileId }],
+    enabled: !!currentProfileId,
+    refetchInterval: 60 * 1000
+  });
+  
+  // Per-profile counts and last upload, so the tabs need not load every video
+  const { data: videoStats } = useQuery<ProfileVideoStats[]>({
+    queryKey: ['/api/videos', 'stats'],
+    queryFn: getPathQueryFn<ProfileVideoStats[]>('/api/videos/stats'),
     enabled: !!currentProfileId
   });
+  const profileStats = videoStats?.find(stats => stats.profileId === currentProfileId);
+  const lastUploadedDate = profileStats?.lastUploadedDate ?? null;
+  const missedCount = profileStats?.missedCount ?? 0;
+  const completedCount = profileStats?.completedCount ?? 0;
   
   // Filter videos by current profile and status
   const pendingVideos = todayVideos?.filter(
     video => video.profileId === currentProfileId && video.status === 'pending'
   ) || [];
   
-  // Get all completed videos (not just from today)
-  const completedVideos = allVideos?.filter(
-    video => video.profileId === currentProfileId && video.status === 'completed'
-  ) || [];
-  
-  // Find videos that have missed their scheduled date
-  const missedVideos = allVideos?.filter(
-    video => 
-      video.profileId === currentProfileId && 
-      // Comparing string values directly
-      video.status === 'missed-schedule'
-  ) || [];
+  // Missed and completed videos, a page at a time
+  const missedPages = useVideoPages({
+    status: 'missed-schedule',
+    profileId: currentProfileId ?? undefined,
+    sortBy: 'scheduleDate',
+    sortDirection: 'asc'
+  }, !!currentProfileId);
+  const completedPages = useVideoPages({
+    status: 'completed',
+    profileId: currentProfileId ?? undefined,
+    sortBy: 'uploadedDate',
+    sortDirection: 'desc'
+  }, !!currentProfileId);
+  const missedVideos = missedPages.videos;
+  const completedVideos = completedPages.videos;
   
   // Move type declaration up here
   
   // Tab state management
   const [activeTab, setActiveTab] = useState<'pending' | 'completed' | 'missed'>('pending');
   
-  // Calculate the most recent upload for the current profile
-  useEffect(() => {
-    if (!allVideos || !currentProfileId) return;
-    
-    const completedProfileVideos = allVideos.filter(
-      video => video.profileId === currentProfileId && 
-              video.status === 'completed' && 
-              video.uploadedDate
-    );
-    
-    if (completedProfileVideos.length === 0) {
-      setLastUploadedDate(null);
-      return;
-    }
-    
-    // Find the most recent uploaded video
-    const sortedVideos = [...completedProfileVideos].sort((a, b) => 
-      new Date(b.uploadedDate!).getTime() - new Date(a.uploadedDate!).getTime()
-    );
-    
-    setLastUploadedDate(sortedVideos[0].uploadedDate);
-  }, [allVideos, currentProfileId]);
-
   // Handle refresh
   const handleRefresh = async () => {
     setIsRefreshing(true);
@@ -131,7 +123,7 @@ export default function TodaySchedule() {
 
   // Handle reschedule all missed videos
   const handleRescheduleAll = () => {
-    if (!missedVideos.length) {
+    if (missedCount === 0) {
       toast({
         title: "No Missed Videos",
         description: "There are no missed videos to reschedule",
@@ -150,7 +142,7 @@ export default function TodaySchedule() {
   // Function to delete all completed videos
   const handleDeleteAllCompleted = async () => {
     // Confirmation before deleting
-    if (!window.confirm(`Are you sure you want to delete all ${completedVideos.length} completed videos? This action cannot be undone.`)) {
+    if (!window.confirm(`Are you sure you want to delete all ${completedCount} completed videos? This action cannot be undone.`)) {
       return;
     }
     
@@ -256,18 +248,18 @@ export default function TodaySchedule() {
                 <TabsTrigger value="missed" className="flex items-center justify-center">
                   <span className="material-icons text-sm mr-1 text-red-500">warning</span>
                   Missed
-                  {missedVideos.length > 0 && (
+                  {missedCount > 0 && (
                     <span className="ml-1.5 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
-                      {missedVideos.length}
+                      {missedCount}
                     </span>
                   )}
                 </TabsTrigger>
                 <TabsTrigger value="completed" className="flex items-center justify-center">
                   <span className="material-icons text-sm mr-1 text-green-500">check_circle</span>
                   Completed
-                  {completedVideos.length > 0 && (
+                  {completedCount > 0 && (
                     <span className="ml-1.5 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
-                      {completedVideos.length}
+                      {completedCount}
                     </span>
                   )}
                 </TabsTrigger>
@@ -276,6 +268,26 @@ export default function TodaySchedule() {
             
             <TabsContent value="pending" className="space-y-4 mt-2">
               
+              {/* Videos due now and the next one coming up */}
+              {dueVideos && (dueVideos.due.length > 0 || dueVideos.next) && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm">
+                  {dueVideos.due.length > 0 && (
+                    <p className="font-medium text-amber-800 flex items-center">
+                      <ArrowUp className="h-4 w-4 mr-1" />
+                      {dueVideos.due.length === 1
+                        ? `"${dueVideos.due[0].title}" is due now`
+                        : `${dueVideos.due.length} videos are due now`}
+                    </p>
+                  )}
+                  {dueVideos.next && dueVideos.next.scheduleAt && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      Next: "{dueVideos.next.title}" at {format(new Date(dueVideos.next.scheduleAt), 'MMM d, HH:mm')}
+                      {' '}({formatDistanceToNow(new Date(dueVideos.next.scheduleAt), { addSuffix: true })})
+                    </p>
+                  )}
+                </div>
+              )}
+              
               {/* Today's pending videos */}
               <h3 className="text-sm font-medium flex items-center mb-2">
                 <span className="material-icons text-amber-500 mr-1">today</span>
@@ -340,6 +352,11 @@ export default function TodaySchedule() {
                         onEdit={handleEditVideo}
                       />
                     ))}
+                    <LoadMoreTrigger
+                      hasNextPage={missedPages.hasNextPage}
+                      isFetchingNextPage={missedPages.isFetchingNextPage}
+                      fetchNextPage={missedPages.fetchNextPage}
+                    />
                   </div>
                 </div>
               ) : (
@@ -372,7 +389,7 @@ export default function TodaySchedule() {
                     ) : (
                       <>
                         <span className="material-icons text-xs mr-1">delete</span>
-                        Clear All ({completedVideos.length})
+                        Clear All ({completedCount})
                       </>
                     )}
                   </button>
@@ -380,14 +397,21 @@ export default function TodaySchedule() {
               </div>
               
               {completedVideos.length > 0 ? (
-                completedVideos.map(video => (
-                  <VideoCard 
-                    key={video.id} 
-                    video={video} 
-                    isPushable={false}
-                    onEdit={handleEditVideo}
+                <>
+                  {completedVideos.map(video => (
+                    <VideoCard 
+                      key={video.id} 
+                      video={video} 
+                      isPushable={false}
+                      onEdit={handleEditVideo}
+                    />
+                  ))}
+                  <LoadMoreTrigger
+                    hasNextPage={completedPages.hasNextPage}
+                    isFetchingNextPage={completedPages.isFetchingNextPage}
+                    fetchNextPage={completedPages.fetchNextPage}
                   />
-                ))
+                </>
               ) : (
                 <div className="text-center py-8">
                   <span className="material-icons text-4xl text-gray-300">check_circle</span>
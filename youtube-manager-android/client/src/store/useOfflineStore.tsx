@@ -1,7 +1,10 @@
 import { create } from 'zustand';
-import { apiService } from '../lib/database/api-service';
-import { Video, Profile } from '../lib/database/schema';
+import { apiService, ProfilePushCount } from '../lib/database/api-service';
+import { Video, Profile, NewProfile, NewVideo } from '../lib/database/schema';
 import { filesystemService } from '../lib/database/filesystem-service';
+import { VideoValidationError, VideoValidationIssue } from '../lib/media/validation';
+import { APP_SETTINGS } from '../lib/config';
+import { resolvePushResetPolicy } from '../lib/database/push-limit';
 
 interface AppState {
   videos: Video[];
@@ -10,16 +13,18 @@ interface AppState {
   selectedProfile: Profile | null;
   isLoading: boolean;
   error: string | null;
+  // Validation issues from the last import attempt, keyed by file name
+  importErrors: Record<string, VideoValidationIssue[]>;
   
   // Profile actions
   fetchProfiles: () => Promise<void>;
   fetchProfile: (id: number) => Promise<Profile | null>;
-  createProfile: (profile: Omit<Profile, 'id'>) => Promise<Profile>;
+  createProfile: (profile: NewProfile) => Promise<Profile>;
   updateProfile: (id: number, profile: Partial<Profile>) => Promise<Profile | null>;
   deleteProfile: (id: number) => Promise<boolean>;
   selectProfile: (id: number) => void;
   resetProfileSelection: () => void;
-  getProfilePushCount: (profileId: number) => Promise<{dailyPushCount: number, lastReset: string | null}>;
+  getProfilePushCount: (profileId: number) => Promise<ProfilePushCount>;
   resetProfilePushCount: (profileId: number) => Promise<Profile | null>;
   
   // Video actions
@@ -27,7 +32,7 @@ interface AppState {
   fetchTodayVideos: () => Promise<void>;
   fetchVideo: (id: number) => Promise<Video | null>;
   fetchVideosByProfile: (profileId: number) => Promise<Video[]>;
-  createVideo: (video: Omit<Video, 'id'>) => Promise<Video>;
+  createVideo: (video: NewVideo) => Promise<Video>;
   updateVideo: (id: number, video: Partial<Video>) => Promise<Video | null>;
   deleteVideo: (id: number) => Promise<boolean>;
   markVideoAsUploaded: (id: number) => Promise<Video | null>;
@@ -39,11 +44,13 @@ interface AppState {
     title: string;
     description: string;
     profileId: number;
-    scheduleDate: Date | string;
+    // Omit to take the profile's next free template slot
+    scheduleDate?: Date | string | null;
     filePath: string;
     fileName: string;
     fileSize: number;
   }) => Promise<Video>;
+  clearImportErrors: (fileName?: string) => void;
 }
 
 export const useOfflineStore = create<AppState>((set, get) => ({
@@ -53,6 +60,7 @@ export const useOfflineStore = create<AppState>((set, get) => ({
   selectedProfile: null,
   isLoading: false,
   error: null,
+  importErrors: {},
   
   // Profile actions
   fetchProfiles: async () => {
@@ -161,7 +169,15 @@ export const useOfflineStore = create<AppState>((set, get) => ({
       return await apiService.getProfilePushCount(profileId);
     } catch (error) {
       console.error('Failed to get profile push count:', error);
-      return { dailyPushCount: 0, lastReset: null };
+      return {
+        dailyPushCount: 0,
+        dailyPushLimit: APP_SETTINGS.DEFAULT_DAILY_PUSH_LIMIT,
+        lastReset: null,
+        resetsAt: null,
+        pushResetPolicy: null,
+        pushResetTimeZone: null,
+        resetPolicy: resolvePushResetPolicy({ pushResetPolicy: null, pushResetTimeZone: null })
+      };
     }
   },
   
@@ -360,18 +376,42 @@ export const useOfflineStore = create<AppState>((set, get) => ({
       const video = await apiService.createVideoWithMetadata(videoInfo);
       
       // Update state
-      set((state) => ({
-        videos: [...state.videos, video],
-        isLoading: false
-      }));
+      set((state) => {
+        const { [videoInfo.fileName]: _, ...importErrors } = state.importErrors;
+        return {
+          videos: [...state.videos, video],
+          importErrors,
+          isLoading: false
+        };
+      });
       
       return video;
     } catch (error) {
+      if (error instanceof VideoValidationError) {
+        // Keep the structured issues so the UI can show them next to the file
+        set((state) => ({
+          importErrors: { ...state.importErrors, [videoInfo.fileName]: error.issues },
+          error: error.message,
+          isLoading: false
+        }));
+        throw error;
+      }
       set({ 
         error: error instanceof Error ? error.message : 'Failed to import video', 
         isLoading: false 
       });
       throw error;
     }
+  },
+  
+  clearImportErrors: (fileName) => {
+    if (fileName === undefined) {
+      set({ importErrors: {} });
+      return;
+    }
+    set((state) => {
+      const { [fileName]: _, ...importErrors } = state.importErrors;
+      return { importErrors };
+    });
   }
 }));
@@ -1,12 +1,16 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { apiRequest } from '@/lib/queryClient';
+import type { VideoStatus } from '@/lib/database/video-status';
+import type { CalendarView } from '@/lib/scheduling/calendar';
+import { DEFAULT_VIDEO_LIST_OPTIONS, VideoListOptions } from '@/lib/database/video-query';
 
 export interface Profile {
   id: number;
   name: string;
   channelName: string;
   channelLink: string;
+  dailyPushLimit?: number;
 }
 
 export interface Video {
@@ -21,13 +25,25 @@ export interface Video {
   originalFileSize?: number | null;
   thumbnailPath: string | null;
   duration: string | null;
+  durationSeconds?: number | null;
+  width?: number | null;
+  height?: number | null;
+  container?: string | null;
+  codec?: string | null;
+  bitrate?: number | null;
   scheduleDate: string;
-  status: 'pending' | 'completed';
+  scheduleTimeZone?: string | null;
+  // UTC ISO timestamp of the publish time
+  scheduleAt?: string | null;
+  status: VideoStatus;
   uploadedDate: string | null;
   youtubeLink: string | null;
 }
 
-export type Tab = 'today' | 'pending' | 'completed' | 'settings' | 'profiles' | 'remaining';
+export type Tab = 'today' | 'pending' | 'completed' | 'settings' | 'profiles' | 'remaining' | 'calendar';
+
+// Tabs whose lists can be sorted and filtered
+export type VideoListTab = 'pending' | 'completed';
 
 type VideoFile = {
   file: File;
@@ -48,6 +64,8 @@ interface AppState {
   selectedVideoId: number | null;
   selectedProfileId: number | null;
   selectedTab: Tab;
+  calendarView: CalendarView;
+  videoListOptions: Record<VideoListTab, VideoListOptions>;
   selectedVideoFiles: VideoFile[];
   // Legacy support for single file selection
   selectedVideoFile: VideoFile | null;
@@ -69,6 +87,9 @@ interface AppState {
   
   // Tab actions
   setSelectedTab: (tab: Tab) => void;
+  setCalendarView: (view: CalendarView) => void;
+  setVideoListOptions: (tab: VideoListTab, options: Partial<VideoListOptions>) => void;
+  resetVideoListFilters: (tab: VideoListTab) => void;
   
   // File handling
   setSelectedVideoFile: (videoFile: VideoFile | null) => void;
@@ -92,6 +113,12 @@ export const useStore = create<AppState>()(
       selectedVideoId: null,
       selectedProfileId: null,
       selectedTab: 'today',
+      calendarView: 'month',
+      videoListOptions: {
+        pending: { ...DEFAULT_VIDEO_LIST_OPTIONS, sortDirection: 'asc' },
+        // Most recent uploads first
+        completed: { ...DEFAULT_VIDEO_LIST_OPTIONS, sortBy: 'uploadedDate' },
+      },
       selectedVideoFile: null,
       selectedVideoFiles: [],
       
@@ -171,6 +198,28 @@ export const useStore = create<AppState>()(
       
       // Tab actions
       setSelectedTab: (tab) => set({ selectedTab: tab }),
+      setCalendarView: (view) => set({ calendarView: view }),
+      
+      setVideoListOptions: (tab, options) => set((state) => ({
+        videoListOptions: {
+          ...state.videoListOptions,
+          [tab]: { ...state.videoListOptions[tab], ...options }
+        }
+      })),
+      
+      // Keeps the tab's sort order
+      resetVideoListFilters: (tab) => set((state) => ({
+        videoListOptions: {
+          ...state.videoListOptions,
+          [tab]: {
+            ...state.videoListOptions[tab],
+            from: null,
+            to: null,
+            file: DEFAULT_VIDEO_LIST_OPTIONS.file,
+            placeholder: DEFAULT_VIDEO_LIST_OPTIONS.placeholder
+          }
+        }
+      })),
       
       // File handling
       setSelectedVideoFile: (videoFile) => set({ selectedVideoFile: videoFile }),
@@ -189,6 +238,8 @@ export const useStore = create<AppState>()(
       partialize: (state) => ({
         profiles: state.profiles,
         currentProfileId: state.currentProfileId,
+        calendarView: state.calendarView,
+        videoListOptions: state.videoListOptions,
       }),
     }
   )
@@ -0,0 +1,92 @@
+import { FileInfo, ReadFileOptions, WriteFileOptions } from '@capacitor/filesystem';
+import { vi } from 'vitest';
+import { filesystemService } from '../lib/database/filesystem-service';
+
+/**
+ * In-memory stand-in for the device file system
+ * useMemoryFilesystem spies on filesystemService's primitive operations, so
+ * services that build on them (copyFile, backups, CSV imports) run their
+ * real code against a Map of paths under Documents.
+ */
+
+// Small enough that streamed reads of test files span several chunks
+const TEST_CHUNK_SIZE = 64 * 1024;
+
+function toBytes(data: string | Uint8Array, options?: { encoding?: unknown }): Uint8Array {
+  if (data instanceof Uint8Array) return data.slice();
+  return options?.encoding ? new TextEncoder().encode(data) : new Uint8Array(Buffer.from(data, 'base64'));
+}
+
+export class MemoryFilesystem {
+  readonly files = new Map<string, Uint8Array>();
+
+  put(path: string, data: string | Uint8Array): void {
+    this.files.set(path, typeof data === 'string' ? new TextEncoder().encode(data) : data.slice());
+  }
+
+  text(path: string): string {
+    return new TextDecoder().decode(this.bytes(path));
+  }
+
+  bytes(path: string): Uint8Array {
+    const bytes = this.files.get(path);
+    if (!bytes) throw new Error(`File does not exist: ${path}`);
+    return bytes;
+  }
+}
+
+/**
+ * Back filesystemService with a fresh MemoryFilesystem until mocks are restored
+ */
+export function useMemoryFilesystem(): MemoryFilesystem {
+  const memory = new MemoryFilesystem();
+  const service = filesystemService;
+
+  vi.spyOn(service, 'initialize').mockResolvedValue();
+  vi.spyOn(service, 'createDirectory').mockResolvedValue();
+  vi.spyOn(service, 'writeFile').mockImplementation(async (path: string, data: string | Uint8Array, options?: Partial<WriteFileOptions>) => {
+    memory.files.set(path, toBytes(data, options));
+    return `file:///Documents/${path}`;
+  });
+  vi.spyOn(service, 'appendFile').mockImplementation(async (path: string, data: string | Uint8Array) => {
+    const existing = memory.files.get(path) ?? new Uint8Array(0);
+    const added = toBytes(data);
+    const combined = new Uint8Array(existing.length + added.length);
+    combined.set(existing);
+    combined.set(added, existing.length);
+    memory.files.set(path, combined);
+  });
+  vi.spyOn(service, 'readFile').mockImplementation(async (path: string, options?: Partial<ReadFileOptions>) => {
+    const bytes = memory.bytes(path);
+    return options?.encoding ? new TextDecoder().decode(bytes) : Buffer.from(bytes).toString('base64');
+  });
+  vi.spyOn(service, 'deleteFile').mockImplementation(async (path: string) => {
+    if (!memory.files.delete(path)) throw new Error(`File does not exist: ${path}`);
+  });
+  vi.spyOn(service, 'readFileChunks').mockImplementation(async function* (path: string, chunkSize = TEST_CHUNK_SIZE) {
+    const bytes = memory.bytes(path);
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+      yield bytes.slice(offset, offset + chunkSize);
+    }
+  });
+  vi.spyOn(service, 'readFileHead').mockImplementation(async (path: string, byteCount: number) => {
+    return memory.bytes(path).slice(0, byteCount);
+  });
+  vi.spyOn(service, 'getFileSize').mockImplementation(async (path: string) => memory.bytes(path).length);
+  vi.spyOn(service, 'fileExists').mockImplementation(async (path: string) => memory.files.has(path));
+  vi.spyOn(service, 'listFiles').mockImplementation(async (directory: string) => {
+    const prefix = `${directory}/`;
+    return Array.from(memory.files.entries())
+      .filter(([path]) => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+      .map(([path, bytes]): FileInfo => ({
+        name: path.slice(prefix.length),
+        type: 'file',
+        size: bytes.length,
+        mtime: 0,
+        uri: `file:///Documents/${path}`
+      }));
+  });
+  vi.spyOn(service, 'getFileUri').mockImplementation(async (path: string) => `file:///Documents/${path}`);
+
+  return memory;
+}
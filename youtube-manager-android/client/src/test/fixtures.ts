@@ -0,0 +1,60 @@
+import { Profile, ScheduleTemplate, Video } from '../lib/database/schema';
+
+/**
+ * Row factories for tests
+ * Each returns a complete row with neutral defaults; pass only the fields a
+ * test cares about.
+ */
+
+export function makeProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    id: 1,
+    name: 'Main',
+    channelName: 'Main channel',
+    channelLink: 'https://youtube.com/@main',
+    dailyPushCount: 0,
+    dailyPushLimit: 10,
+    lastPushReset: null,
+    pushResetPolicy: null,
+    pushResetTimeZone: null,
+    ...overrides
+  };
+}
+
+export function makeVideo(overrides: Partial<Video> = {}): Video {
+  const id = overrides.id ?? 1;
+  return {
+    id,
+    profileId: 1,
+    title: `Video ${id}`,
+    description: '',
+    filePath: null,
+    fileName: null,
+    fileSize: null,
+    originalFilePath: null,
+    originalFileSize: null,
+    thumbnailPath: null,
+    duration: null,
+    scheduleDate: '2026-03-02T09:00',
+    scheduleTimeZone: null,
+    scheduleAt: null,
+    status: 'pending',
+    uploadedDate: null,
+    youtubeLink: null,
+    isFileUploaded: false,
+    isPlaceholder: false,
+    ...overrides
+  };
+}
+
+export function makeScheduleTemplate(overrides: Partial<ScheduleTemplate> = {}): ScheduleTemplate {
+  return {
+    id: 1,
+    profileId: 1,
+    weekdays: [1],
+    time: '17:00',
+    timeZone: 'UTC',
+    isActive: true,
+    ...overrides
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Leading bytes of each supported container, padded like a real file head
+ */
+
+function head(...parts: (string | number[])[]): Uint8Array {
+  const bytes: number[] = [];
+  for (const part of parts) {
+    bytes.push(...(typeof part === 'string' ? Array.from(part, c => c.charCodeAt(0)) : part));
+  }
+  while (bytes.length < 64) bytes.push(0);
+  return new Uint8Array(bytes);
+}
+
+export const MP4_HEAD = head([0, 0, 0, 0x18], 'ftypisom', [0, 0, 2, 0], 'isomiso2');
+export const MOV_HEAD = head([0, 0, 0, 0x14], 'ftypqt  ', [0, 0, 2, 0], 'qt  ');
+export const WEBM_HEAD = head([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], 'webm');
+export const MKV_HEAD = head([0x1a, 0x45, 0xdf, 0xa3, 0xa3, 0x42, 0x82, 0x88], 'matroska');
+export const AVI_HEAD = head('RIFF', [0, 0, 0, 0], 'AVI LIST');
+export const TEXT_HEAD = head('Just some notes, not a video at all.');
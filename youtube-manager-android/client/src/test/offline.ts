@@ -0,0 +1,30 @@
+import { vi } from 'vitest';
+import { offlineApiService } from '../lib/api/offline-api-service';
+import { Video } from '../lib/database/schema';
+import { reminderService } from '../lib/notifications/reminder-service';
+import { MemoryFilesystem, useMemoryFilesystem } from './filesystem';
+import { SqlJsConnection, useTestDatabase } from './sqlite';
+
+// Parts of OfflineApiService that need a WebView to decode video
+interface MediaDecoding {
+  generateThumbnail(): Promise<string | null>;
+  probeVideo(): Promise<Partial<Video>>;
+}
+
+/**
+ * Run offlineApiService against an in-memory database and file system
+ * Thumbnails and media probing need a WebView, so they are skipped, and
+ * reminder resyncs are left out so they cannot interleave with a test
+ */
+export async function useOfflineApi(): Promise<{ connection: SqlJsConnection, files: MemoryFilesystem }> {
+  const connection = await useTestDatabase();
+  const files = useMemoryFilesystem();
+
+  const decoding = offlineApiService as unknown as MediaDecoding;
+  vi.spyOn(decoding, 'generateThumbnail').mockResolvedValue(null);
+  vi.spyOn(decoding, 'probeVideo').mockResolvedValue({});
+  vi.spyOn(reminderService, 'syncReminders').mockResolvedValue();
+  Object.assign(offlineApiService, { isInitialized: true });
+
+  return { connection, files };
+}
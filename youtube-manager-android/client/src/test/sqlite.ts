@@ -0,0 +1,76 @@
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { SQLiteDBConnection, capSQLiteChanges, DBSQLiteValues } from '@capacitor-community/sqlite';
+import { sqliteService } from '../lib/database/sqlite-service';
+
+/**
+ * In-memory SQLite for tests
+ * SqlJsConnection implements the part of SQLiteDBConnection that
+ * SQLiteService uses on top of sql.js, so the service's real SQL runs in
+ * Node without a device.
+ */
+
+type Statements = Pick<SQLiteDBConnection,
+  'query' | 'run' | 'execute' | 'beginTransaction' | 'commitTransaction' | 'rollbackTransaction'>;
+
+export class SqlJsConnection implements Statements {
+  constructor(readonly database: Database) {}
+
+  async query(statement: string, values: unknown[] = []): Promise<DBSQLiteValues> {
+    return { values: this.select(statement, values) };
+  }
+
+  async run(statement: string, values: unknown[] = []): Promise<capSQLiteChanges> {
+    this.database.run(statement, values as SqlValue[]);
+    const [lastId] = this.select('SELECT last_insert_rowid() AS id');
+    return { changes: { changes: this.database.getRowsModified(), lastId: lastId.id } };
+  }
+
+  async execute(statements: string): Promise<capSQLiteChanges> {
+    this.database.exec(statements);
+    return { changes: { changes: this.database.getRowsModified() } };
+  }
+
+  async beginTransaction(): Promise<capSQLiteChanges> {
+    return this.execute('BEGIN TRANSACTION');
+  }
+
+  async commitTransaction(): Promise<capSQLiteChanges> {
+    return this.execute('COMMIT');
+  }
+
+  async rollbackTransaction(): Promise<capSQLiteChanges> {
+    return this.execute('ROLLBACK');
+  }
+
+  select(statement: string, values: unknown[] = []): Record<string, any>[] {
+    const prepared = this.database.prepare(statement);
+    try {
+      prepared.bind(values as SqlValue[]);
+      const rows: Record<string, any>[] = [];
+      while (prepared.step()) rows.push(prepared.getAsObject());
+      return rows;
+    } finally {
+      prepared.free();
+    }
+  }
+}
+
+/**
+ * An empty in-memory database without any migrations applied
+ */
+export async function createSqlJsConnection(): Promise<SqlJsConnection> {
+  const SQL = await initSqlJs();
+  const database = new SQL.Database();
+  database.run('PRAGMA foreign_keys = ON');
+  return new SqlJsConnection(database);
+}
+
+/**
+ * Point sqliteService at a fresh, fully migrated in-memory database
+ */
+export async function useTestDatabase(): Promise<SqlJsConnection> {
+  const connection = await createSqlJsConnection();
+  Object.assign(sqliteService, { db: connection, _isInitialized: true });
+  await sqliteService.runMigrations();
+  return connection;
+}
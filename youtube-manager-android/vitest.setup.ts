@@ -0,0 +1,4 @@
+// config.ts reads window.location when it is loaded; the tests run in Node
+if (typeof window === "undefined") {
+  (globalThis as any).window = { location: { origin: "http://localhost" } };
+}